@@ -0,0 +1,113 @@
+-- Atomic stock adjustments for menu_items.quantity
+-- Every change is a single UPDATE on locked rows, never a read in the client followed by a write,
+-- so two terminals ordering the last item at the same time cannot both succeed.
+-- Run after STOCK_RESERVATIONS_SETUP.sql (holds of open carts count as taken stock).
+
+-- Stock can never go negative, whatever path changes it
+ALTER TABLE menu_items DROP CONSTRAINT IF EXISTS menu_items_quantity_non_negative;
+ALTER TABLE menu_items ADD CONSTRAINT menu_items_quantity_non_negative CHECK (quantity >= 0);
+
+-- Lock the rows of the requested items and list the ones that cannot be covered.
+-- p_items: [{ "menu_item_id": "...", "menu_item_name": "...", "quantity": 2 }, ...]
+-- Holds of other cart sessions count as taken; the holds of p_session_id do not.
+-- Returns [{ "menu_item_id", "name", "requested", "available" }, ...] (empty when all is in stock)
+DROP FUNCTION IF EXISTS find_stock_shortages(JSONB, TEXT);
+CREATE FUNCTION find_stock_shortages(p_items JSONB, p_session_id TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_shortages JSONB;
+BEGIN
+  -- Lock in id order so concurrent orders for the same items cannot deadlock
+  PERFORM 1
+  FROM menu_items
+  WHERE id::TEXT IN (SELECT i->>'menu_item_id' FROM jsonb_array_elements(p_items) i)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'menu_item_id', req.menu_item_id,
+    'name', COALESCE(mi.name, req.name),
+    'requested', req.requested,
+    'available', GREATEST(COALESCE(mi.quantity, 0) - COALESCE(held.reserved, 0), 0)
+  )), '[]'::JSONB)
+  INTO v_shortages
+  FROM (
+    SELECT
+      i->>'menu_item_id' AS menu_item_id,
+      MAX(i->>'menu_item_name') AS name,
+      SUM((i->>'quantity')::INTEGER) AS requested
+    FROM jsonb_array_elements(p_items) i
+    GROUP BY i->>'menu_item_id'
+  ) req
+  LEFT JOIN menu_items mi ON mi.id::TEXT = req.menu_item_id
+  LEFT JOIN (
+    SELECT menu_item_id::TEXT AS menu_item_id, SUM(quantity) AS reserved
+    FROM stock_reservations
+    WHERE session_id IS DISTINCT FROM p_session_id
+      AND expires_at > NOW()
+    GROUP BY menu_item_id
+  ) held ON held.menu_item_id = req.menu_item_id
+  WHERE req.requested > GREATEST(COALESCE(mi.quantity, 0) - COALESCE(held.reserved, 0), 0);
+
+  RETURN v_shortages;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Abort the current transaction with the shortage list attached.
+-- The client reads HINT = 'insufficient_stock' and parses DETAIL as JSON.
+DROP FUNCTION IF EXISTS raise_insufficient_stock(JSONB);
+CREATE FUNCTION raise_insufficient_stock(p_shortages JSONB)
+RETURNS VOID AS $$
+BEGIN
+  RAISE EXCEPTION 'Not enough stock for %',
+    (SELECT string_agg(s->>'name', ', ') FROM jsonb_array_elements(p_shortages) s)
+    USING DETAIL = p_shortages::TEXT, HINT = 'insufficient_stock';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Decrement stock for several items at once; all or nothing
+DROP FUNCTION IF EXISTS decrement_stock(JSONB);
+CREATE FUNCTION decrement_stock(p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_shortages JSONB;
+BEGIN
+  v_shortages := find_stock_shortages(p_items);
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    PERFORM raise_insufficient_stock(v_shortages);
+  END IF;
+
+  UPDATE menu_items mi
+  SET quantity = mi.quantity - req.requested
+  FROM (
+    SELECT i->>'menu_item_id' AS menu_item_id, SUM((i->>'quantity')::INTEGER) AS requested
+    FROM jsonb_array_elements(p_items) i
+    GROUP BY i->>'menu_item_id'
+  ) req
+  WHERE mi.id::TEXT = req.menu_item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Give stock back (removed items, cancelled orders)
+DROP FUNCTION IF EXISTS increment_stock(JSONB);
+CREATE FUNCTION increment_stock(p_items JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE menu_items mi
+  SET quantity = COALESCE(mi.quantity, 0) + req.requested
+  FROM (
+    SELECT i->>'menu_item_id' AS menu_item_id, SUM((i->>'quantity')::INTEGER) AS requested
+    FROM jsonb_array_elements(p_items) i
+    GROUP BY i->>'menu_item_id'
+  ) req
+  WHERE mi.id::TEXT = req.menu_item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Orders take and give back stock inside submit_order() and cancel_order(), which run as
+-- the owner; only signed-in admins may adjust stock by hand
+REVOKE EXECUTE ON FUNCTION find_stock_shortages(JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION decrement_stock(JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION increment_stock(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION decrement_stock(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION increment_stock(JSONB) TO authenticated;
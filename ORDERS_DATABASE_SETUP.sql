@@ -1,11 +1,11 @@
 -- Create orders table
 CREATE TABLE IF NOT EXISTS orders (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  order_number INTEGER NOT NULL UNIQUE,
+  order_number INTEGER NOT NULL,
   terminal TEXT NOT NULL,
   customer_name TEXT,
   total DECIMAL(10, 2) NOT NULL,
-  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'preparing', 'ready', 'completed')),
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'preparing', 'ready', 'completed', 'cancelled', 'voided')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Manila',
   completed_at TIMESTAMP WITH TIME ZONE,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Manila'
@@ -43,13 +43,20 @@ ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Enable read access for all users" ON orders FOR SELECT USING (true);
 CREATE POLICY "Enable read access for all users" ON order_items FOR SELECT USING (true);
 
--- Create policies to allow authenticated users to insert orders
-CREATE POLICY "Enable insert for authenticated users" ON orders FOR INSERT WITH CHECK (auth.role() = 'authenticated' OR true);
-CREATE POLICY "Enable insert for authenticated users" ON order_items FOR INSERT WITH CHECK (auth.role() = 'authenticated' OR true);
+-- No insert policies: orders are only created through submit_order(), which checks the
+-- PC, stock and prices (earlier setups let anyone insert rows directly)
+DROP POLICY IF EXISTS "Enable insert for authenticated users" ON orders;
+DROP POLICY IF EXISTS "Enable insert for authenticated users" ON order_items;
 
--- Create policies for updating order status
-CREATE POLICY "Enable update orders for authenticated users" ON orders FOR UPDATE USING (true) WITH CHECK (true);
-CREATE POLICY "Enable delete orders for authenticated users" ON orders FOR DELETE USING (true);
+-- Only signed-in admins may update or delete orders directly. Everyone else goes through
+-- the database functions (update_order_status, cancel_order, record_payment, ...), which
+-- check who may make the change
+DROP POLICY IF EXISTS "Enable update orders for authenticated users" ON orders;
+DROP POLICY IF EXISTS "Enable delete orders for authenticated users" ON orders;
+CREATE POLICY "Enable update orders for authenticated users" ON orders FOR UPDATE
+  USING (auth.role() = 'authenticated') WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "Enable delete orders for authenticated users" ON orders FOR DELETE
+  USING (auth.role() = 'authenticated');
 
 -- Trigger to update the updated_at column
 CREATE OR REPLACE FUNCTION update_orders_updated_at()
@@ -64,3 +71,1419 @@ CREATE TRIGGER update_orders_timestamp
 BEFORE UPDATE ON orders
 FOR EACH ROW
 EXECUTE FUNCTION update_orders_updated_at();
+
+
+-- Idempotency key of the submission that created the order, so a replayed
+-- submission from the offline outbox cannot create it twice
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS client_request_id UUID UNIQUE;
+
+-- Proof of which device placed the order, so only that device can cancel it.
+-- Orders are publicly readable, so only a hash of the device's secret is kept
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS owner_token_hash TEXT;
+
+CREATE OR REPLACE FUNCTION owner_token_hash(p_owner_token TEXT, p_client_request_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_owner_token IS NULL OR p_client_request_id IS NULL THEN NULL
+    ELSE encode(sha256(convert_to(p_owner_token || ':' || p_client_request_id::TEXT, 'UTF8')), 'hex')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Cancelled (stopped before it was served) and voided (invalidated afterwards) orders
+-- stay in history with the reason and who did it
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'preparing', 'ready', 'completed', 'cancelled', 'voided'));
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS cancel_reason TEXT,
+ADD COLUMN IF NOT EXISTS cancelled_by TEXT,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS stock_restored BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Category of the menu item at the time of ordering
+ALTER TABLE order_items
+ADD COLUMN IF NOT EXISTS menu_item_category TEXT;
+
+-- Modifiers chosen for an order item (add-ons, flavor, ...), one row per option.
+-- Replaces the JSON strings in order_items.customizations and the flavors array,
+-- which are only kept for orders placed before this table existed.
+CREATE TABLE IF NOT EXISTS order_item_modifiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  group_id TEXT NOT NULL,
+  group_name TEXT NOT NULL,
+  name TEXT NOT NULL,
+  price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_item_modifiers_order_item_id ON order_item_modifiers(order_item_id);
+
+ALTER TABLE order_item_modifiers ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable read access for all users" ON order_item_modifiers FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Enable insert for authenticated users" ON order_item_modifiers;
+
+-- Payment state of an order; kept in step with order_payments by record_payment()
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'unpaid'
+  CHECK (payment_status IN ('unpaid', 'partial', 'paid'));
+
+-- Orders completed before payments were tracked here were settled on paper
+UPDATE orders
+SET amount_paid = total, payment_status = 'paid'
+WHERE status = 'completed' AND payment_status = 'unpaid';
+
+-- Payments taken for an order. Cash keeps what was tendered and the change given,
+-- e-wallet payments their reference number and PC account charges the account charged.
+CREATE TABLE IF NOT EXISTS order_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('cash', 'ewallet', 'pc_account')),
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  amount_tendered DECIMAL(10, 2),
+  change_given DECIMAL(10, 2),
+  reference TEXT,
+  received_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_payments_order_id ON order_payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_orders_payment_status ON orders(payment_status);
+
+-- A bill settling several orders at once (e.g. friends on adjacent PCs paying together).
+-- The tender is recorded here; each order gets its own payment row pointing at the bill.
+CREATE TABLE IF NOT EXISTS order_bills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  total DECIMAL(10, 2) NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('cash', 'ewallet', 'pc_account')),
+  amount_tendered DECIMAL(10, 2),
+  change_given DECIMAL(10, 2),
+  reference TEXT,
+  payer TEXT,
+  received_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Who paid (when an order is split between several people), which items the payment
+-- covered, and the merged bill it was part of
+ALTER TABLE order_payments
+ADD COLUMN IF NOT EXISTS payer TEXT,
+ADD COLUMN IF NOT EXISTS item_ids UUID[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS bill_id UUID REFERENCES order_bills(id);
+
+CREATE INDEX IF NOT EXISTS idx_order_payments_bill_id ON order_payments(bill_id);
+
+-- Read by everyone; written only through record_payment() / record_bill_payment()
+ALTER TABLE order_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_bills ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable read access for all users" ON order_payments FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON order_bills FOR SELECT USING (true);
+
+-- An order can only be completed once it is fully paid
+CREATE OR REPLACE FUNCTION enforce_paid_before_completed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' AND NEW.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Order #% is not fully paid', NEW.order_number;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS orders_paid_before_completed ON orders;
+CREATE TRIGGER orders_paid_before_completed
+BEFORE UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION enforce_paid_before_completed();
+
+-- Promotion discounts taken off the order (see PROMOTIONS_SETUP.sql); `total` is after them
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS discount_total DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Settings shared by every terminal (readable by all, changed from the admin panel)
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable read access for all users" ON app_settings FOR SELECT USING (true);
+CREATE POLICY "Enable write for authenticated users" ON app_settings FOR ALL
+  USING (auth.role() = 'authenticated') WITH CHECK (auth.role() = 'authenticated');
+
+DROP TRIGGER IF EXISTS app_settings_updated_at_trigger ON app_settings;
+CREATE TRIGGER app_settings_updated_at_trigger
+BEFORE UPDATE ON app_settings
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Order numbers restart every business day; a day starts at the cutoff time (local time)
+INSERT INTO app_settings (key, value) VALUES
+  ('business_day_cutoff', '"04:00"'),
+  ('business_timezone', '"Asia/Manila"')
+ON CONFLICT (key) DO NOTHING;
+
+-- VAT and service charge used by the cart (see src/lib/tax.ts); rates are percentages
+INSERT INTO app_settings (key, value) VALUES
+  ('tax_config', '{"currencySymbol": "₱", "vatRate": 12, "pricesIncludeVat": true, "serviceChargeRate": 0, "exemptionDiscountRate": 20}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Shop header and footer printed on customer receipts (see src/lib/receipts.ts)
+INSERT INTO app_settings (key, value) VALUES
+  ('receipt_config', '{"shopName": "4G HUB Cafe", "headerLines": [], "footer": "Thank you! Please come again.", "paperWidth": "80mm"}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Kitchen stations and their ticket printers (see src/lib/kitchenStations.ts); one station takes everything until set up
+INSERT INTO app_settings (key, value) VALUES
+  ('kitchen_stations', '[{"id": "kitchen", "name": "Kitchen", "categories": [], "items": [], "printTarget": "browser", "paperWidth": "80mm"}]')
+ON CONFLICT (key) DO NOTHING;
+
+-- Minutes after which kitchen cards turn amber and late (the SLA) (see src/lib/kitchenAlerts.ts)
+INSERT INTO app_settings (key, value) VALUES
+  ('kitchen_ageing', '{"warnMinutes": 10, "lateMinutes": 20}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Tax breakdown of each order, as worked out when it was placed:
+-- total = vatable_sales + vat_amount + vat_exempt_sales - exemption_discount
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS service_charge DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS vat_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS vatable_sales DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS vat_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS vat_exempt_sales DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS exemption_discount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Senior citizen / PWD claim of an order. It holds the holder's ID number and name, so it is
+-- kept out of the publicly readable orders table and only signed-in staff can read it
+CREATE TABLE IF NOT EXISTS order_tax_exemptions (
+  order_id UUID PRIMARY KEY REFERENCES orders(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('senior', 'pwd')),
+  id_number TEXT NOT NULL,
+  name TEXT NOT NULL,
+  diners INTEGER NOT NULL CHECK (diners > 0),
+  exempt_diners INTEGER NOT NULL CHECK (exempt_diners > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE order_tax_exemptions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON order_tax_exemptions;
+CREATE POLICY "Enable read access for authenticated users" ON order_tax_exemptions
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Claims saved on orders.tax_exemption before they had their own table
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'tax_exemption'
+  ) THEN
+    INSERT INTO order_tax_exemptions (order_id, type, id_number, name, diners, exempt_diners)
+    SELECT id, tax_exemption->>'type', tax_exemption->>'id_number', tax_exemption->>'name',
+           (tax_exemption->>'diners')::INTEGER, (tax_exemption->>'exempt_diners')::INTEGER
+    FROM orders
+    WHERE jsonb_typeof(tax_exemption) = 'object'
+    ON CONFLICT (order_id) DO NOTHING;
+    ALTER TABLE orders DROP COLUMN tax_exemption;
+  END IF;
+END $$;
+
+-- Business day an instant belongs to: anything before the cutoff counts towards the previous day
+CREATE OR REPLACE FUNCTION business_date_for(p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS DATE AS $$
+  SELECT (
+    (p_at AT TIME ZONE COALESCE((SELECT value #>> '{}' FROM app_settings WHERE key = 'business_timezone'), 'Asia/Manila'))
+    - COALESCE((SELECT value #>> '{}' FROM app_settings WHERE key = 'business_day_cutoff'), '00:00')::INTERVAL
+  )::DATE;
+$$ LANGUAGE sql STABLE;
+
+-- Order numbers are unique per business day instead of forever
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS business_date DATE;
+
+UPDATE orders SET business_date = business_date_for(created_at) WHERE business_date IS NULL;
+
+ALTER TABLE orders ALTER COLUMN business_date SET DEFAULT business_date_for(NOW());
+ALTER TABLE orders ALTER COLUMN business_date SET NOT NULL;
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_order_number_key;
+
+-- Terminals used to number orders themselves, so a day can hold several "Order #1"s.
+-- The first one placed keeps its number; later copies get the next numbers after the
+-- day's highest, in the order they were placed (nothing to do on a re-run)
+WITH copies AS (
+  SELECT id, business_date, created_at,
+         ROW_NUMBER() OVER (PARTITION BY business_date, order_number ORDER BY created_at, id) AS copy,
+         MAX(order_number) OVER (PARTITION BY business_date) AS day_max
+  FROM orders
+),
+renumbered AS (
+  SELECT id, day_max + ROW_NUMBER() OVER (PARTITION BY business_date ORDER BY created_at, id) AS order_number
+  FROM copies
+  WHERE copy > 1
+)
+UPDATE orders o
+SET order_number = r.order_number
+FROM renumbered r
+WHERE o.id = r.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_business_date_order_number ON orders(business_date, order_number);
+
+-- Last number handed out per business day; only touched through next_order_number()
+CREATE TABLE IF NOT EXISTS order_number_counters (
+  business_date DATE PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE order_number_counters ENABLE ROW LEVEL SECURITY;
+
+-- Continue from the numbers already used (safe to re-run)
+INSERT INTO order_number_counters (business_date, last_number)
+SELECT business_date, MAX(order_number) FROM orders GROUP BY business_date
+ON CONFLICT (business_date) DO UPDATE
+SET last_number = GREATEST(order_number_counters.last_number, EXCLUDED.last_number);
+
+-- Allocate the next order number of a business day. The upsert locks the day's
+-- counter row, so concurrent submissions from different terminals queue up on it
+-- and never get the same number; a rolled back submission does not use one up.
+DROP FUNCTION IF EXISTS next_order_number(DATE);
+CREATE FUNCTION next_order_number(p_business_date DATE)
+RETURNS INTEGER AS $$
+  INSERT INTO order_number_counters AS c (business_date, last_number)
+  VALUES (p_business_date, 1)
+  ON CONFLICT (business_date) DO UPDATE SET last_number = c.last_number + 1
+  RETURNING last_number;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only submit_order() hands out numbers
+REVOKE EXECUTE ON FUNCTION next_order_number(DATE) FROM PUBLIC, anon, authenticated;
+
+-- An order row with its items and payments as JSON, in the shape the client expects
+CREATE OR REPLACE FUNCTION order_with_items(p_order_id UUID)
+RETURNS JSONB AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'order_items',
+    (SELECT COALESCE(jsonb_agg(
+       to_jsonb(oi) || jsonb_build_object(
+         'order_item_modifiers',
+         (SELECT COALESCE(jsonb_agg(to_jsonb(m) ORDER BY m.position), '[]'::JSONB)
+          FROM order_item_modifiers m
+          WHERE m.order_item_id = oi.id)
+       )
+       ORDER BY oi.created_at), '[]'::JSONB)
+     FROM order_items oi
+     WHERE oi.order_id = o.id),
+    'order_payments',
+    (SELECT COALESCE(jsonb_agg(to_jsonb(p) ORDER BY p.created_at), '[]'::JSONB)
+     FROM order_payments p
+     WHERE p.order_id = o.id)
+  )
+  FROM orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql STABLE;
+
+-- The shop PC the order was placed for (pcs is created by COMPUTER_SHOP_SCHEMA.sql).
+-- terminal keeps the PC number as text for display and for orders placed before this column
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS pc_id INTEGER REFERENCES pcs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_pc_id ON orders(pc_id);
+
+-- Earlier orders were typed in as "PC 3"; link them to PC-03 and the like
+UPDATE orders o
+SET pc_id = p.id
+FROM pcs p
+WHERE o.pc_id IS NULL
+  AND o.terminal ~ '^PC [0-9]+$'
+  AND p.pc_number ~ '^PC-[0-9]+$'
+  AND substring(o.terminal FROM 4)::INTEGER = substring(p.pc_number FROM 4)::INTEGER;
+
+-- Public IP of the browser calling the API, as forwarded to PostgREST
+CREATE OR REPLACE FUNCTION request_ip()
+RETURNS TEXT AS $$
+  SELECT NULLIF(TRIM(split_part(
+    COALESCE(current_setting('request.headers', true)::JSON->>'x-forwarded-for', ''), ',', 1
+  )), '');
+$$ LANGUAGE sql STABLE;
+
+-- Whether the calling device sits at the PC: its approved device token is assigned to it,
+-- or its public IP is registered to it (the same checks as src/lib/currentPc.ts).
+-- device_tokens and detected_ips come from DEVICE_TOKEN_SETUP.sql and DETECTED_IPS_SETUP.sql
+CREATE OR REPLACE FUNCTION device_is_at_pc(p_device_token TEXT, p_pc_id INTEGER)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM device_tokens
+    WHERE token = p_device_token AND status = 'approved' AND pc_id = p_pc_id
+  ) OR EXISTS (
+    SELECT 1 FROM detected_ips
+    WHERE ip_address = request_ip() AND status = 'registered' AND assigned_pc_id = p_pc_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reads device tokens, so it must not be callable to probe them
+REVOKE EXECUTE ON FUNCTION device_is_at_pc(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Price of one of a menu item's add-ons, or NULL when the item does not offer it.
+-- menu_items.customization holds the options as JSON text, each a plain name (free)
+-- or { "name", "price" }, the way getModifierGroups() in src/lib/modifiers.ts reads them
+CREATE OR REPLACE FUNCTION menu_add_on_price(p_customization JSONB, p_name TEXT)
+RETURNS DECIMAL(10, 2) AS $$
+DECLARE
+  v_options JSONB := p_customization;
+  v_option JSONB;
+BEGIN
+  IF jsonb_typeof(v_options) = 'string' THEN
+    v_options := (v_options #>> '{}')::JSONB;
+  END IF;
+  IF jsonb_typeof(v_options) IS DISTINCT FROM 'array' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_option IN SELECT * FROM jsonb_array_elements(v_options)
+  LOOP
+    IF jsonb_typeof(v_option) = 'string' AND v_option #>> '{}' LIKE '{%' THEN
+      v_option := (v_option #>> '{}')::JSONB;
+    END IF;
+    IF jsonb_typeof(v_option) = 'string' AND v_option #>> '{}' = p_name THEN
+      RETURN 0;
+    END IF;
+    IF jsonb_typeof(v_option) = 'object' AND v_option->>'name' = p_name THEN
+      RETURN GREATEST(COALESCE((v_option->>'price')::DECIMAL(10, 2), 0), 0);
+    END IF;
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- A percentage from app_settings `tax_config`, or the default when missing or out of range
+CREATE OR REPLACE FUNCTION tax_config_percent(p_value JSONB, p_default DECIMAL)
+RETURNS DECIMAL AS $$
+  SELECT CASE
+    WHEN p_value #>> '{}' ~ '^[0-9]+(\.[0-9]+)?$' AND (p_value #>> '{}')::DECIMAL <= 100 THEN (p_value #>> '{}')::DECIMAL
+    ELSE p_default
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Breakdown of a saved order at the shop's tax settings, worked out from its items the same
+-- way as priceOrder() in src/lib/pricing.ts: discounts come off the subtotal, the service
+-- charge is on the rest, and the exempt share carries no VAT and gets the exemption discount
+CREATE OR REPLACE FUNCTION price_order(p_order_id UUID, p_discount_total DECIMAL(10, 2), p_exempt_share DECIMAL)
+RETURNS JSONB AS $$
+DECLARE
+  v_config JSONB := COALESCE((SELECT value FROM app_settings WHERE key = 'tax_config'), '{}'::JSONB);
+  v_vat_rate DECIMAL := tax_config_percent(v_config->'vatRate', 12);
+  v_inclusive BOOLEAN := COALESCE(CASE WHEN jsonb_typeof(v_config->'pricesIncludeVat') = 'boolean' THEN (v_config->>'pricesIncludeVat')::BOOLEAN END, TRUE);
+  v_service_rate DECIMAL := tax_config_percent(v_config->'serviceChargeRate', 0) / 100;
+  v_exemption_rate DECIMAL := tax_config_percent(v_config->'exemptionDiscountRate', 20) / 100;
+  v_rate DECIMAL := v_vat_rate / 100;
+  v_subtotal DECIMAL(10, 2);
+  v_remaining DECIMAL(10, 2);
+  v_service_charge DECIMAL(10, 2);
+  v_exempt_gross DECIMAL(10, 2);
+  v_taxable DECIMAL(10, 2);
+  v_tax DECIMAL(10, 2);
+  v_vatable DECIMAL(10, 2);
+  v_exempt DECIMAL(10, 2);
+  v_exemption_discount DECIMAL(10, 2);
+BEGIN
+  SELECT COALESCE(SUM(
+    (oi.price + COALESCE((
+      SELECT SUM(m.price * m.quantity) FROM order_item_modifiers m WHERE m.order_item_id = oi.id
+    ), 0)) * oi.quantity
+  ), 0)
+  INTO v_subtotal
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  v_remaining := GREATEST(v_subtotal - p_discount_total, 0);
+  v_service_charge := ROUND(v_remaining * v_service_rate, 2);
+  v_exempt_gross := ROUND(v_remaining * LEAST(GREATEST(p_exempt_share, 0), 1), 2);
+  v_taxable := v_remaining - v_exempt_gross + v_service_charge;
+  IF v_inclusive THEN
+    v_tax := ROUND(v_taxable - v_taxable / (1 + v_rate), 2);
+    v_vatable := v_taxable - v_tax;
+    v_exempt := ROUND(v_exempt_gross / (1 + v_rate), 2);
+  ELSE
+    v_tax := ROUND(v_taxable * v_rate, 2);
+    v_vatable := v_taxable;
+    v_exempt := v_exempt_gross;
+  END IF;
+  v_exemption_discount := ROUND(v_exempt * LEAST(v_exemption_rate, 1), 2);
+
+  RETURN jsonb_build_object(
+    'subtotal', v_subtotal,
+    'discount_total', v_subtotal - v_remaining,
+    'service_charge', v_service_charge,
+    'vat_rate', v_vat_rate,
+    'tax_inclusive', v_inclusive,
+    'vatable_sales', v_vatable,
+    'vat_amount', v_tax,
+    'vat_exempt_sales', v_exempt,
+    'exemption_discount', v_exemption_discount,
+    'total', v_vatable + v_tax + v_exempt - v_exemption_discount
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Submit an order, its items and the matching stock decrements in a single transaction.
+-- Called from the client via supabase.rpc('submit_order', ...); if any step fails
+-- (e.g. an item runs out of stock) nothing is written.
+-- The cart's stock holds (see STOCK_RESERVATIONS_SETUP.sql) are converted into the
+-- real decrements: holds of other carts are respected, the ones of the submitted lines
+-- (cart_item_id) are released.
+-- Short items are reported through raise_insufficient_stock (see INVENTORY_STOCK_SETUP.sql).
+-- Submitting again with the same p_client_request_id returns the existing order.
+-- The order number is allocated here (next_order_number), never by the client.
+-- Promotions applied in the cart are recorded by redeem_promotions() (PROMOTIONS_SETUP.sql),
+-- which rejects the whole order if one of them no longer applies.
+-- Prices are the menu's, never the client's: each line is priced from menu_items and its
+-- add-ons, and the totals are worked out by price_order(). The order is rejected when
+-- p_total does not match, e.g. because a price changed while the cart was open.
+-- p_tax carries any senior citizen / PWD exemption, which is stored in order_tax_exemptions.
+-- With p_pc_id the terminal is that PC's number, whatever p_terminal says.
+-- Customers (anon) can only order for the PC their device is at (see device_is_at_pc);
+-- signed-in admins may place an order for any PC.
+DROP FUNCTION IF EXISTS submit_order(INTEGER, TEXT, TEXT, DECIMAL, JSONB);
+DROP FUNCTION IF EXISTS submit_order(INTEGER, TEXT, TEXT, DECIMAL, JSONB, TEXT);
+DROP FUNCTION IF EXISTS submit_order(INTEGER, TEXT, TEXT, DECIMAL, JSONB, TEXT, UUID);
+DROP FUNCTION IF EXISTS submit_order(TEXT, TEXT, DECIMAL, JSONB, TEXT, UUID);
+DROP FUNCTION IF EXISTS submit_order(TEXT, TEXT, DECIMAL, JSONB, TEXT, UUID, JSONB, TEXT);
+DROP FUNCTION IF EXISTS submit_order(TEXT, TEXT, DECIMAL, JSONB, TEXT, UUID, JSONB, TEXT, JSONB);
+DROP FUNCTION IF EXISTS submit_order(TEXT, TEXT, DECIMAL, JSONB, TEXT, UUID, JSONB, TEXT, JSONB, INTEGER);
+DROP FUNCTION IF EXISTS submit_order(TEXT, TEXT, DECIMAL, JSONB, TEXT, UUID, JSONB, TEXT, JSONB, INTEGER, TEXT);
+CREATE OR REPLACE FUNCTION submit_order(
+  p_terminal TEXT,
+  p_customer_name TEXT,
+  p_total DECIMAL(10, 2),
+  p_items JSONB,
+  p_session_id TEXT DEFAULT NULL,
+  p_client_request_id UUID DEFAULT NULL,
+  p_promotions JSONB DEFAULT '[]',
+  p_device_id TEXT DEFAULT NULL,
+  p_tax JSONB DEFAULT NULL,
+  p_pc_id INTEGER DEFAULT NULL,
+  p_owner_token TEXT DEFAULT NULL,
+  p_device_token TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_terminal TEXT := p_terminal;
+  v_shortages JSONB;
+  v_business_date DATE;
+  v_item JSONB;
+  v_item_id UUID;
+  v_menu_item menu_items%ROWTYPE;
+  v_modifier JSONB;
+  v_position INTEGER;
+  v_modifier_price DECIMAL(10, 2);
+  v_exempt_share DECIMAL := 0;
+  v_pricing JSONB;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) < 1
+       OR EXISTS (
+         SELECT 1 FROM jsonb_array_elements(COALESCE(i->'modifiers', '[]'::JSONB)) m
+         WHERE COALESCE((m->>'quantity')::INTEGER, 1) < 1
+       )
+  ) THEN
+    RAISE EXCEPTION 'Item and add-on quantities must be at least 1';
+  END IF;
+
+  IF p_tax->'exemption' IS NOT NULL AND jsonb_typeof(p_tax->'exemption') = 'object'
+     AND (COALESCE(TRIM(p_tax->'exemption'->>'id_number'), '') = '' OR COALESCE(TRIM(p_tax->'exemption'->>'name'), '') = '') THEN
+    RAISE EXCEPTION 'A senior citizen / PWD exemption needs the ID number and name';
+  END IF;
+
+  IF p_pc_id IS NOT NULL THEN
+    SELECT pc_number INTO v_terminal FROM pcs WHERE id = p_pc_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'PC % does not exist', p_pc_id;
+    END IF;
+  END IF;
+
+  IF p_client_request_id IS NOT NULL THEN
+    SELECT * INTO v_order FROM orders WHERE client_request_id = p_client_request_id;
+    IF FOUND THEN
+      RETURN order_with_items(v_order.id);
+    END IF;
+  END IF;
+
+  IF COALESCE(auth.role(), 'anon') <> 'authenticated' THEN
+    IF p_pc_id IS NULL THEN
+      RAISE EXCEPTION 'Orders can only be placed from a registered PC';
+    END IF;
+    IF NOT device_is_at_pc(p_device_token, p_pc_id) THEN
+      RAISE EXCEPTION 'This device is not registered to %. Please ask the staff.', v_terminal;
+    END IF;
+  END IF;
+
+  -- Check (and lock) every item before writing anything
+  v_shortages := find_stock_shortages(p_items, p_session_id);
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    PERFORM raise_insufficient_stock(v_shortages);
+  END IF;
+
+  v_business_date := business_date_for(NOW());
+
+  -- The amounts are filled in by price_order() once the items are saved
+  INSERT INTO orders (order_number, business_date, terminal, pc_id, customer_name, total, status, client_request_id, owner_token_hash)
+  VALUES (
+    next_order_number(v_business_date), v_business_date, v_terminal, p_pc_id, p_customer_name, 0, 'pending', p_client_request_id,
+    owner_token_hash(p_owner_token, p_client_request_id)
+  )
+  RETURNING * INTO v_order;
+
+  -- p_tax.exemption: { "type", "id_number", "name", "diners", "exempt_diners" }
+  IF jsonb_typeof(p_tax->'exemption') = 'object' THEN
+    INSERT INTO order_tax_exemptions (order_id, type, id_number, name, diners, exempt_diners)
+    VALUES (
+      v_order.id,
+      p_tax->'exemption'->>'type',
+      TRIM(p_tax->'exemption'->>'id_number'),
+      TRIM(p_tax->'exemption'->>'name'),
+      (p_tax->'exemption'->>'diners')::INTEGER,
+      (p_tax->'exemption'->>'exempt_diners')::INTEGER
+    );
+    IF (p_tax->'exemption'->>'diners')::INTEGER > 0 THEN
+      v_exempt_share := LEAST(GREATEST((p_tax->'exemption'->>'exempt_diners')::INTEGER, 0), (p_tax->'exemption'->>'diners')::INTEGER)::DECIMAL
+        / (p_tax->'exemption'->>'diners')::INTEGER;
+    END IF;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_menu_item FROM menu_items WHERE id::TEXT = v_item->>'menu_item_id';
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '% is no longer on the menu', COALESCE(v_item->>'menu_item_name', v_item->>'menu_item_id');
+    END IF;
+
+    INSERT INTO order_items (order_id, menu_item_id, menu_item_name, menu_item_category, price, quantity, notes)
+    VALUES (
+      v_order.id,
+      v_menu_item.id::TEXT,
+      v_menu_item.name,
+      v_menu_item.category::TEXT,
+      v_menu_item.price,
+      (v_item->>'quantity')::INTEGER,
+      v_item->>'notes'
+    )
+    RETURNING id INTO v_item_id;
+
+    -- p_items[].modifiers: [{ "group_id", "group_name", "name", "quantity" }, ...]; only add-ons cost extra
+    FOR v_modifier, v_position IN
+      SELECT m, (ord - 1)::INTEGER FROM jsonb_array_elements(COALESCE(v_item->'modifiers', '[]'::JSONB)) WITH ORDINALITY AS t(m, ord)
+    LOOP
+      v_modifier_price := 0;
+      IF v_modifier->>'group_id' = 'add-ons' THEN
+        v_modifier_price := menu_add_on_price(to_jsonb(v_menu_item.customization), v_modifier->>'name');
+        IF v_modifier_price IS NULL THEN
+          RAISE EXCEPTION '% is not an add-on of %', v_modifier->>'name', v_menu_item.name;
+        END IF;
+      END IF;
+
+      INSERT INTO order_item_modifiers (order_item_id, group_id, group_name, name, price, quantity, position)
+      VALUES (
+        v_item_id,
+        v_modifier->>'group_id',
+        v_modifier->>'group_name',
+        v_modifier->>'name',
+        v_modifier_price,
+        COALESCE((v_modifier->>'quantity')::INTEGER, 1),
+        v_position
+      );
+    END LOOP;
+  END LOOP;
+
+  v_pricing := price_order(v_order.id, redeem_promotions(v_order.id, p_promotions, p_device_id), v_exempt_share);
+  -- One centavo of slack for the cart rounding in floating point
+  IF ABS((v_pricing->>'total')::DECIMAL(10, 2) - COALESCE(p_total, 0)) > 0.01 THEN
+    RAISE EXCEPTION 'This order comes to %, not %. Prices may have changed; please review your cart.',
+      v_pricing->>'total', p_total;
+  END IF;
+
+  UPDATE orders
+  SET total = (v_pricing->>'total')::DECIMAL(10, 2),
+      discount_total = (v_pricing->>'discount_total')::DECIMAL(10, 2),
+      service_charge = (v_pricing->>'service_charge')::DECIMAL(10, 2),
+      vat_rate = (v_pricing->>'vat_rate')::DECIMAL(5, 2),
+      tax_inclusive = (v_pricing->>'tax_inclusive')::BOOLEAN,
+      vatable_sales = (v_pricing->>'vatable_sales')::DECIMAL(10, 2),
+      vat_amount = (v_pricing->>'vat_amount')::DECIMAL(10, 2),
+      vat_exempt_sales = (v_pricing->>'vat_exempt_sales')::DECIMAL(10, 2),
+      exemption_discount = (v_pricing->>'exemption_discount')::DECIMAL(10, 2)
+  WHERE id = v_order.id;
+
+  UPDATE menu_items mi
+  SET quantity = mi.quantity - req.requested
+  FROM (
+    SELECT i->>'menu_item_id' AS menu_item_id, SUM((i->>'quantity')::INTEGER) AS requested
+    FROM jsonb_array_elements(p_items) i
+    GROUP BY i->>'menu_item_id'
+  ) req
+  WHERE mi.id::TEXT = req.menu_item_id;
+
+  -- Only the submitted lines' holds: an order replayed from the offline outbox must not
+  -- release the holds of the cart the session has built since
+  IF p_session_id IS NOT NULL THEN
+    DELETE FROM stock_reservations
+    WHERE session_id = p_session_id
+      AND cart_item_id IN (SELECT i->>'cart_item_id' FROM jsonb_array_elements(p_items) i);
+  END IF;
+
+  RETURN order_with_items(v_order.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION submit_order(TEXT, TEXT, DECIMAL, JSONB, TEXT, UUID, JSONB, TEXT, JSONB, INTEGER, TEXT, TEXT) TO anon, authenticated;
+
+-- Cancel or void an order without deleting it.
+-- Stock comes back for the items the kitchen has not started on (prep_status 'queued')
+-- (increment_stock is defined in INVENTORY_STOCK_SETUP.sql).
+-- Customers (anon) may only cancel their own order, proven by the owner token it was
+-- submitted with, and only while it is still pending; admins can cancel or void any open order.
+DROP FUNCTION IF EXISTS cancel_order(UUID, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS cancel_order(UUID, TEXT, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS cancel_order(UUID, TEXT, TEXT, TEXT, TEXT, TEXT);
+CREATE FUNCTION cancel_order(
+  p_order_id UUID,
+  p_status TEXT,
+  p_reason TEXT,
+  p_performed_by TEXT,
+  p_device TEXT DEFAULT NULL,
+  p_owner_token TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_restock JSONB;
+BEGIN
+  IF p_status NOT IN ('cancelled', 'voided') THEN
+    RAISE EXCEPTION 'Invalid cancellation status %', p_status;
+  END IF;
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+  IF COALESCE(TRIM(p_performed_by), '') = '' THEN
+    RAISE EXCEPTION 'Who cancelled the order is required';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status IN ('cancelled', 'voided') THEN
+    RAISE EXCEPTION 'Order is already %', v_order.status;
+  END IF;
+  IF COALESCE(auth.role(), 'anon') <> 'authenticated' THEN
+    IF v_order.owner_token_hash IS NULL
+       OR v_order.owner_token_hash IS DISTINCT FROM owner_token_hash(p_owner_token, v_order.client_request_id) THEN
+      RAISE EXCEPTION 'Only the device that placed this order can cancel it. Please ask the staff.';
+    END IF;
+    IF p_status <> 'cancelled' OR v_order.status <> 'pending' THEN
+      RAISE EXCEPTION 'The kitchen has already started on this order. Please ask the staff to cancel it.';
+    END IF;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('menu_item_id', menu_item_id, 'quantity', quantity)), '[]'::JSONB)
+  INTO v_restock
+  FROM order_items
+  WHERE order_id = p_order_id AND prep_status = 'queued';
+  IF jsonb_array_length(v_restock) > 0 THEN
+    PERFORM increment_stock(v_restock);
+  END IF;
+
+  UPDATE orders
+  SET status = p_status,
+      cancel_reason = TRIM(p_reason),
+      cancelled_by = TRIM(p_performed_by),
+      cancelled_at = NOW(),
+      stock_restored = jsonb_array_length(v_restock) > 0,
+      status_actor = TRIM(p_performed_by),
+      status_device = p_device
+  WHERE id = p_order_id;
+
+  RETURN order_with_items(p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cancel_order(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- Record a payment against an order and update its amount_paid / payment_status.
+-- Payments never exceed the balance due; cash change is worked out here.
+-- A split bill is several payments, each with its payer and the items it covers;
+-- the order is paid once they add up to its total.
+-- Kitchen staff sign in without a Supabase session, so anon may call it as well.
+DROP FUNCTION IF EXISTS record_payment(UUID, TEXT, DECIMAL, DECIMAL, TEXT, TEXT);
+DROP FUNCTION IF EXISTS record_payment(UUID, TEXT, DECIMAL, DECIMAL, TEXT, TEXT, TEXT, UUID[]);
+CREATE FUNCTION record_payment(
+  p_order_id UUID,
+  p_method TEXT,
+  p_amount DECIMAL(10, 2),
+  p_amount_tendered DECIMAL(10, 2),
+  p_reference TEXT,
+  p_received_by TEXT,
+  p_payer TEXT DEFAULT NULL,
+  p_item_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_balance DECIMAL(10, 2);
+  v_paid DECIMAL(10, 2);
+BEGIN
+  IF p_method NOT IN ('cash', 'ewallet', 'pc_account') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_method;
+  END IF;
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'The payment amount must be more than zero';
+  END IF;
+  IF COALESCE(TRIM(p_received_by), '') = '' THEN
+    RAISE EXCEPTION 'Who received the payment is required';
+  END IF;
+  IF p_method = 'cash' AND COALESCE(p_amount_tendered, 0) < p_amount THEN
+    RAISE EXCEPTION 'The cash tendered is less than the amount';
+  END IF;
+  IF p_method <> 'cash' AND COALESCE(TRIM(p_reference), '') = '' THEN
+    RAISE EXCEPTION '%', CASE p_method
+      WHEN 'ewallet' THEN 'An e-wallet reference number is required'
+      ELSE 'The PC account to charge is required'
+    END;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status IN ('cancelled', 'voided') THEN
+    RAISE EXCEPTION 'Cannot take a payment for a % order', v_order.status;
+  END IF;
+
+  v_balance := v_order.total - v_order.amount_paid;
+  IF p_amount > v_balance THEN
+    RAISE EXCEPTION 'The payment is more than the balance due (%)', v_balance;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_item_ids, '{}')) AS item_id
+    WHERE NOT EXISTS (SELECT 1 FROM order_items WHERE id = item_id AND order_id = p_order_id)
+  ) THEN
+    RAISE EXCEPTION 'The payment covers items that are not part of this order';
+  END IF;
+
+  INSERT INTO order_payments (order_id, method, amount, amount_tendered, change_given, reference, received_by, payer, item_ids)
+  VALUES (
+    p_order_id,
+    p_method,
+    p_amount,
+    CASE WHEN p_method = 'cash' THEN p_amount_tendered END,
+    CASE WHEN p_method = 'cash' THEN p_amount_tendered - p_amount END,
+    CASE WHEN p_method = 'cash' THEN NULL ELSE TRIM(p_reference) END,
+    TRIM(p_received_by),
+    NULLIF(TRIM(p_payer), ''),
+    COALESCE(p_item_ids, '{}')
+  );
+
+  v_paid := v_order.amount_paid + p_amount;
+  UPDATE orders
+  SET amount_paid = v_paid,
+      payment_status = CASE WHEN v_paid >= v_order.total THEN 'paid' ELSE 'partial' END
+  WHERE id = p_order_id;
+
+  RETURN order_with_items(p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_payment(UUID, TEXT, DECIMAL, DECIMAL, TEXT, TEXT, TEXT, UUID[]) TO anon, authenticated;
+
+-- Settle several orders with one payment (a merged bill). Every order's remaining balance
+-- is paid in full with its own payment row; the tender and change are kept on the bill.
+-- Returns the updated orders as a JSON array.
+DROP FUNCTION IF EXISTS record_bill_payment(UUID[], TEXT, DECIMAL, TEXT, TEXT, TEXT);
+CREATE FUNCTION record_bill_payment(
+  p_order_ids UUID[],
+  p_method TEXT,
+  p_amount_tendered DECIMAL(10, 2),
+  p_reference TEXT,
+  p_received_by TEXT,
+  p_payer TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_found INTEGER := 0;
+  v_total DECIMAL(10, 2) := 0;
+  v_bill_id UUID;
+BEGIN
+  IF p_method NOT IN ('cash', 'ewallet', 'pc_account') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_method;
+  END IF;
+  IF COALESCE(TRIM(p_received_by), '') = '' THEN
+    RAISE EXCEPTION 'Who received the payment is required';
+  END IF;
+  IF p_method <> 'cash' AND COALESCE(TRIM(p_reference), '') = '' THEN
+    RAISE EXCEPTION '%', CASE p_method
+      WHEN 'ewallet' THEN 'An e-wallet reference number is required'
+      ELSE 'The PC account to charge is required'
+    END;
+  END IF;
+  IF (SELECT COUNT(DISTINCT order_id) FROM unnest(p_order_ids) AS order_id) < 2 THEN
+    RAISE EXCEPTION 'A merged bill needs at least two orders';
+  END IF;
+
+  -- Lock in a fixed order so two bills over the same orders cannot deadlock
+  FOR v_order IN SELECT * FROM orders WHERE id = ANY(p_order_ids) ORDER BY id FOR UPDATE
+  LOOP
+    IF v_order.status IN ('cancelled', 'voided') THEN
+      RAISE EXCEPTION 'Order #% is %', v_order.order_number, v_order.status;
+    END IF;
+    v_found := v_found + 1;
+    v_total := v_total + (v_order.total - v_order.amount_paid);
+  END LOOP;
+
+  IF v_found <> (SELECT COUNT(DISTINCT order_id) FROM unnest(p_order_ids) AS order_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'These orders are already paid';
+  END IF;
+  IF p_method = 'cash' AND COALESCE(p_amount_tendered, 0) < v_total THEN
+    RAISE EXCEPTION 'The cash tendered is less than the bill total (%)', v_total;
+  END IF;
+
+  INSERT INTO order_bills (total, method, amount_tendered, change_given, reference, payer, received_by)
+  VALUES (
+    v_total,
+    p_method,
+    CASE WHEN p_method = 'cash' THEN p_amount_tendered END,
+    CASE WHEN p_method = 'cash' THEN p_amount_tendered - v_total END,
+    CASE WHEN p_method = 'cash' THEN NULL ELSE TRIM(p_reference) END,
+    NULLIF(TRIM(p_payer), ''),
+    TRIM(p_received_by)
+  )
+  RETURNING id INTO v_bill_id;
+
+  FOR v_order IN SELECT * FROM orders WHERE id = ANY(p_order_ids) AND total > amount_paid ORDER BY created_at
+  LOOP
+    INSERT INTO order_payments (order_id, method, amount, reference, received_by, payer, bill_id)
+    VALUES (
+      v_order.id,
+      p_method,
+      v_order.total - v_order.amount_paid,
+      CASE WHEN p_method = 'cash' THEN NULL ELSE TRIM(p_reference) END,
+      TRIM(p_received_by),
+      NULLIF(TRIM(p_payer), ''),
+      v_bill_id
+    );
+
+    UPDATE orders
+    SET amount_paid = total,
+        payment_status = 'paid'
+    WHERE id = v_order.id;
+  END LOOP;
+
+  RETURN (
+    SELECT jsonb_agg(order_with_items(id) ORDER BY created_at)
+    FROM orders
+    WHERE id = ANY(p_order_ids)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_bill_payment(UUID[], TEXT, DECIMAL, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- When the kitchen started the order and when it was last marked ready, for the
+-- customer's tracking page. Set by the database so offline replays keep the real order of events.
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS preparing_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS ready_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION stamp_order_status_times()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'preparing' AND NEW.preparing_at IS NULL THEN
+    NEW.preparing_at = NOW();
+  END IF;
+  -- A runner handing an order back is not a new ready time
+  IF NEW.status = 'ready' AND OLD.status NOT IN ('ready', 'out_for_delivery') THEN
+    NEW.ready_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_order_status_times_trigger ON orders;
+CREATE TRIGGER stamp_order_status_times_trigger
+BEFORE UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION stamp_order_status_times();
+
+-- Live status on the public /track page
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'orders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE orders;
+  END IF;
+END $$;
+
+-- Runners bring the food to the PC: ready -> out_for_delivery (claimed by a runner) -> delivered.
+-- Paid orders are completed as before once delivered.
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'preparing', 'ready', 'out_for_delivery', 'delivered', 'completed', 'cancelled', 'voided'));
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS delivery_claimed_by TEXT,
+ADD COLUMN IF NOT EXISTS out_for_delivery_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS delivered_by TEXT,
+ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE;
+
+-- PCs in delivery zones, in the order a runner walks past them (see src/lib/deliveries.ts)
+INSERT INTO app_settings (key, value) VALUES
+  ('delivery_zones', '[]')
+ON CONFLICT (key) DO NOTHING;
+
+-- Move an order through delivery. p_action is one of
+--   claim:   a runner takes a ready order (only one runner can hold it)
+--   deliver: the order reached the PC
+--   release: the runner hands it back, e.g. claimed by mistake
+-- Floor staff sign in without a Supabase session, so anon may call it as well.
+DROP FUNCTION IF EXISTS update_delivery(UUID, TEXT, TEXT);
+DROP FUNCTION IF EXISTS update_delivery(UUID, TEXT, TEXT, TEXT);
+CREATE FUNCTION update_delivery(
+  p_order_id UUID,
+  p_action TEXT,
+  p_runner TEXT,
+  p_device TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_runner TEXT := TRIM(p_runner);
+BEGIN
+  IF COALESCE(v_runner, '') = '' THEN
+    RAISE EXCEPTION 'Who is delivering is required';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF p_action = 'claim' THEN
+    -- Claiming twice (e.g. a double tap) is harmless
+    IF v_order.status = 'out_for_delivery' AND v_order.delivery_claimed_by = v_runner THEN
+      RETURN order_with_items(p_order_id);
+    END IF;
+    IF v_order.status = 'out_for_delivery' THEN
+      RAISE EXCEPTION 'Order #% is already being delivered by %', v_order.order_number, v_order.delivery_claimed_by;
+    END IF;
+    IF v_order.status <> 'ready' THEN
+      RAISE EXCEPTION 'Order #% is not waiting for delivery', v_order.order_number;
+    END IF;
+
+    UPDATE orders
+    SET status = 'out_for_delivery',
+        delivery_claimed_by = v_runner,
+        out_for_delivery_at = NOW(),
+        status_actor = v_runner,
+        status_device = p_device
+    WHERE id = p_order_id;
+  ELSIF p_action IN ('deliver', 'release') THEN
+    IF v_order.status <> 'out_for_delivery' THEN
+      RAISE EXCEPTION 'Order #% is not out for delivery', v_order.order_number;
+    END IF;
+
+    IF p_action = 'deliver' THEN
+      UPDATE orders
+      SET status = 'delivered',
+          delivered_by = v_runner,
+          delivered_at = NOW(),
+          status_actor = v_runner,
+          status_device = p_device
+      WHERE id = p_order_id;
+    ELSE
+      UPDATE orders
+      SET status = 'ready',
+          delivery_claimed_by = NULL,
+          out_for_delivery_at = NULL,
+          status_actor = v_runner,
+          status_device = p_device
+      WHERE id = p_order_id;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Invalid delivery action %', p_action;
+  END IF;
+
+  RETURN order_with_items(p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION update_delivery(UUID, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- Status changes applied by update_order_status(), by the idempotency key they were sent with;
+-- only touched through that function
+CREATE TABLE IF NOT EXISTS order_status_requests (
+  request_id UUID PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE order_status_requests ENABLE ROW LEVEL SECURITY;
+
+-- Move an order between pending, preparing, ready and completed, as the kitchen boards and
+-- Order Management do; cancelling and voiding go through cancel_order() instead.
+-- Kitchen staff sign in without a Supabase session, so anon may call it as well.
+-- With p_base_version (the updated_at the change was made against) nothing happens and NULL
+-- is returned when the order changed since. p_changed_at is when the change was made, for
+-- changes replayed from the offline outbox. Completing needs the order paid (see
+-- enforce_paid_before_completed).
+-- p_request_id is the outbox entry's idempotency key: a change sent again after its response
+-- was lost returns the order instead of being applied twice or reported as a conflict.
+DROP FUNCTION IF EXISTS update_order_status(UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION IF EXISTS update_order_status(UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, UUID);
+CREATE FUNCTION update_order_status(
+  p_order_id UUID,
+  p_status TEXT,
+  p_base_version TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL,
+  p_device TEXT DEFAULT NULL,
+  p_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_request_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  IF p_status IN ('cancelled', 'voided') THEN
+    RAISE EXCEPTION 'Use cancel_order to cancel or void an order';
+  END IF;
+  IF p_status NOT IN ('pending', 'preparing', 'ready', 'completed') THEN
+    RAISE EXCEPTION 'Invalid order status %', p_status;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF EXISTS (SELECT 1 FROM order_status_requests WHERE request_id = p_request_id) THEN
+    RETURN order_with_items(p_order_id);
+  END IF;
+  IF v_order.status IN ('cancelled', 'voided') THEN
+    RAISE EXCEPTION 'Order #% was % and cannot be changed', v_order.order_number, v_order.status;
+  END IF;
+  IF p_base_version IS NOT NULL AND v_order.updated_at IS DISTINCT FROM p_base_version::TIMESTAMP WITH TIME ZONE THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE orders
+  SET status = p_status,
+      completed_at = CASE
+        WHEN p_status = 'completed' THEN LEAST(COALESCE(p_changed_at, NOW()), NOW())
+        ELSE completed_at
+      END,
+      status_actor = p_actor,
+      status_device = p_device,
+      status_changed_at = p_changed_at
+  WHERE id = p_order_id;
+
+  IF p_request_id IS NOT NULL THEN
+    INSERT INTO order_status_requests (request_id, order_id) VALUES (p_request_id, p_order_id);
+  END IF;
+
+  RETURN order_with_items(p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION update_order_status(UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, UUID) TO anon, authenticated;
+
+-- Every status change of an order: from, to, when, who and from which device.
+-- Whoever changes the status sets status_actor / status_device (and status_changed_at for
+-- changes replayed from the offline outbox) in the same update; the trigger moves them into
+-- order_events and clears them, so they never carry over to the next change.
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS status_actor TEXT,
+ADD COLUMN IF NOT EXISTS status_device TEXT,
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status TEXT, -- NULL for the order being placed
+  to_status TEXT NOT NULL,
+  changed_by TEXT,
+  device TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON order_events(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_events_created_at ON order_events(created_at DESC);
+
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable read access for all users" ON order_events FOR SELECT USING (true);
+
+-- Written by the triggers only, which run as the owner so anon staff devices can log too
+CREATE OR REPLACE FUNCTION log_order_placed()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO order_events (order_id, from_status, to_status, device, created_at)
+  VALUES (NEW.id, NULL, NEW.status, NEW.terminal, NEW.created_at);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_order_placed ON orders;
+CREATE TRIGGER log_order_placed
+AFTER INSERT ON orders
+FOR EACH ROW
+EXECUTE FUNCTION log_order_placed();
+
+CREATE OR REPLACE FUNCTION log_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO order_events (order_id, from_status, to_status, changed_by, device, created_at)
+    VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      NULLIF(TRIM(NEW.status_actor), ''),
+      NULLIF(TRIM(NEW.status_device), ''),
+      -- A replayed offline change keeps the time it was made, but never lands in the future
+      LEAST(COALESCE(NEW.status_changed_at, NOW()), NOW())
+    );
+  END IF;
+
+  NEW.status_actor := NULL;
+  NEW.status_device := NULL;
+  NEW.status_changed_at := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_order_status_change ON orders;
+CREATE TRIGGER log_order_status_change
+BEFORE UPDATE ON orders
+FOR EACH ROW
+EXECUTE FUNCTION log_order_status_change();
+
+-- Orders placed before the history was kept get the steps their timestamps show
+INSERT INTO order_events (order_id, from_status, to_status, changed_by, device, created_at)
+SELECT
+  order_id,
+  LAG(to_status) OVER (PARTITION BY order_id ORDER BY created_at),
+  to_status,
+  changed_by,
+  device,
+  created_at
+FROM (
+  SELECT id AS order_id, 'pending' AS to_status, NULL::TEXT AS changed_by, terminal AS device, created_at FROM orders
+  UNION ALL SELECT id, 'preparing', NULL, NULL, preparing_at FROM orders WHERE preparing_at IS NOT NULL
+  UNION ALL SELECT id, 'ready', NULL, NULL, ready_at FROM orders WHERE ready_at IS NOT NULL
+  UNION ALL SELECT id, 'out_for_delivery', delivery_claimed_by, NULL, out_for_delivery_at FROM orders WHERE out_for_delivery_at IS NOT NULL
+  UNION ALL SELECT id, 'delivered', delivered_by, NULL, delivered_at FROM orders WHERE delivered_at IS NOT NULL
+  UNION ALL SELECT id, 'completed', NULL, NULL, completed_at FROM orders WHERE completed_at IS NOT NULL
+  UNION ALL SELECT id, status, cancelled_by, NULL, cancelled_at FROM orders WHERE cancelled_at IS NOT NULL
+) steps
+WHERE NOT EXISTS (SELECT 1 FROM order_events e WHERE e.order_id = steps.order_id);
+
+-- How long each order spent in each status; left_at / seconds are NULL for the current one
+CREATE OR REPLACE VIEW order_stage_durations AS
+SELECT
+  order_id,
+  to_status AS status,
+  changed_by AS entered_by,
+  created_at AS entered_at,
+  LEAD(created_at) OVER w AS left_at,
+  EXTRACT(EPOCH FROM LEAD(created_at) OVER w - created_at) AS seconds
+FROM order_events
+WINDOW w AS (PARTITION BY order_id ORDER BY created_at, id);
+
+GRANT SELECT ON order_stage_durations TO anon, authenticated;
+
+-- Item status: the kitchen marks each item of an order as queued, cooking or done.
+ALTER TABLE order_items
+ADD COLUMN IF NOT EXISTS prep_status TEXT NOT NULL DEFAULT 'queued';
+
+ALTER TABLE order_items DROP CONSTRAINT IF EXISTS order_items_prep_status_check;
+ALTER TABLE order_items ADD CONSTRAINT order_items_prep_status_check
+CHECK (prep_status IN ('queued', 'cooking', 'done'));
+
+-- Items of orders that already left the kitchen are done
+UPDATE order_items oi
+SET prep_status = 'done'
+FROM orders o
+WHERE o.id = oi.order_id
+  AND o.status NOT IN ('pending', 'preparing')
+  AND oi.prep_status <> 'done';
+
+-- The status an order in the kitchen should have given its items: ready once every
+-- item is done, preparing once any item is started (or a ready order has one undone)
+CREATE OR REPLACE FUNCTION kitchen_status_from_items(p_order_id UUID, p_status TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN bool_and(prep_status = 'done') THEN 'ready'
+    WHEN p_status = 'ready' THEN 'preparing'
+    WHEN p_status = 'pending' AND bool_or(prep_status <> 'queued') THEN 'preparing'
+    ELSE p_status
+  END
+  FROM order_items
+  WHERE order_id = p_order_id;
+$$ LANGUAGE sql STABLE;
+
+-- An order marked ready straight from its card has all its items done
+CREATE OR REPLACE FUNCTION finish_items_when_ready()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'ready' AND OLD.status IN ('pending', 'preparing') THEN
+    UPDATE order_items
+    SET prep_status = 'done'
+    WHERE order_id = NEW.id AND prep_status <> 'done';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS finish_items_when_ready ON orders;
+CREATE TRIGGER finish_items_when_ready
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION finish_items_when_ready();
+
+-- Set one item's status. The order follows its items (see kitchen_status_from_items);
+-- taking an item back from done also reopens its station's ticket (p_station_id).
+-- The order row is always touched so live boards and tracking pages refresh.
+DROP FUNCTION IF EXISTS update_item_status(UUID, UUID, TEXT, TEXT, TEXT, TEXT);
+CREATE FUNCTION update_item_status(
+  p_order_id UUID,
+  p_item_id UUID,
+  p_status TEXT,
+  p_station_id TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL,
+  p_device TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_done JSONB;
+BEGIN
+  IF p_status NOT IN ('queued', 'cooking', 'done') THEN
+    RAISE EXCEPTION 'Unknown item status %', p_status;
+  END IF;
+
+  -- Locked so two cooks finishing the last items at once cannot both miss the other
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status NOT IN ('pending', 'preparing', 'ready') THEN
+    RAISE EXCEPTION 'Order #% has already left the kitchen', v_order.order_number;
+  END IF;
+
+  UPDATE order_items
+  SET prep_status = p_status
+  WHERE id = p_item_id AND order_id = p_order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found on order #%', v_order.order_number;
+  END IF;
+
+  v_done := v_order.stations_done;
+  IF p_status <> 'done' AND p_station_id IS NOT NULL THEN
+    v_done := v_done - p_station_id;
+  END IF;
+
+  UPDATE orders
+  SET stations_done = v_done,
+      status = kitchen_status_from_items(p_order_id, v_order.status),
+      status_actor = p_actor,
+      status_device = p_device
+  WHERE id = p_order_id;
+
+  RETURN order_with_items(p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION update_item_status(UUID, UUID, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- Station tickets: each kitchen station finishes its own part of an order.
+-- stations_done maps a station id to when it finished.
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS stations_done JSONB NOT NULL DEFAULT '{}';
+
+-- Finish (p_done) or reopen one station's ticket. p_stations are all the stations with
+-- items on the order and p_item_ids the station's own items, which the app works out
+-- from kitchen_stations; finishing marks those items done and reopening puts them back
+-- to cooking. The order turns ready once all stations (or all items) are done, and goes
+-- back to preparing when a ticket of a ready order is reopened. Kitchen staff sign in
+-- without a Supabase session, so anon may call it.
+DROP FUNCTION IF EXISTS update_station_ticket(UUID, TEXT, BOOLEAN, TEXT[], TEXT, TEXT);
+DROP FUNCTION IF EXISTS update_station_ticket(UUID, TEXT, BOOLEAN, TEXT[], TEXT, TEXT, UUID[]);
+CREATE FUNCTION update_station_ticket(
+  p_order_id UUID,
+  p_station_id TEXT,
+  p_done BOOLEAN,
+  p_stations TEXT[],
+  p_actor TEXT DEFAULT NULL,
+  p_device TEXT DEFAULT NULL,
+  p_item_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_done JSONB;
+  v_status TEXT;
+BEGIN
+  -- Locked so two stations finishing at once cannot both miss the other
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status NOT IN ('pending', 'preparing', 'ready') THEN
+    RAISE EXCEPTION 'Order #% has already left the kitchen', v_order.order_number;
+  END IF;
+
+  IF p_done THEN
+    v_done := v_order.stations_done || jsonb_build_object(p_station_id, NOW());
+  ELSE
+    v_done := v_order.stations_done - p_station_id;
+  END IF;
+
+  UPDATE order_items
+  SET prep_status = CASE WHEN p_done THEN 'done' ELSE 'cooking' END
+  WHERE order_id = p_order_id AND id = ANY(p_item_ids);
+
+  v_status := v_order.status;
+  IF p_done AND NOT EXISTS (SELECT 1 FROM unnest(p_stations) AS s(id) WHERE NOT v_done ? s.id) THEN
+    v_status := 'ready';
+  ELSIF NOT p_done AND v_order.status = 'ready' THEN
+    v_status := 'preparing';
+  ELSE
+    v_status := kitchen_status_from_items(p_order_id, v_order.status);
+  END IF;
+
+  UPDATE orders
+  SET stations_done = v_done,
+      status = v_status,
+      status_actor = p_actor,
+      status_device = p_device
+  WHERE id = p_order_id;
+
+  RETURN order_with_items(p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION update_station_ticket(UUID, TEXT, BOOLEAN, TEXT[], TEXT, TEXT, UUID[]) TO anon, authenticated;
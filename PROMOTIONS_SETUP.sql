@@ -0,0 +1,211 @@
+-- Promotions: discount rules managed from the admin panel.
+-- The cart works out which promotions apply (src/lib/promotions.ts); submit_order() records
+-- them with the order through redeem_promotions(), which re-checks the rules that matter
+-- and works out each discount again from the order's items.
+-- Run after ORDERS_DATABASE_SETUP.sql.
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  code TEXT, -- entered in the cart; promotions without a code apply automatically
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed', 'buy_x_get_y')),
+  value DECIMAL(10, 2) NOT NULL DEFAULT 0, -- percent off, or the amount off
+  buy_quantity INTEGER CHECK (buy_quantity > 0),
+  get_quantity INTEGER CHECK (get_quantity > 0),
+  category TEXT, -- only items of this category count; NULL for the whole order
+  min_spend DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  max_uses_per_device INTEGER CHECK (max_uses_per_device > 0),
+  stackable BOOLEAN NOT NULL DEFAULT FALSE, -- may be combined with other stackable promotions
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (discount_type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL)),
+  CHECK (discount_type <> 'percent' OR value <= 100)
+);
+
+-- Codes are case-insensitive
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promotions_code ON promotions(UPPER(code));
+
+DROP TRIGGER IF EXISTS promotions_updated_at_trigger ON promotions;
+CREATE TRIGGER promotions_updated_at_trigger
+BEFORE UPDATE ON promotions
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per promotion used on an order
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id UUID NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion_device ON promotion_redemptions(promotion_id, device_id);
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_order_id ON promotion_redemptions(order_id);
+
+-- Everyone reads promotions (the cart needs them); only admins change them.
+-- Redemptions are written by redeem_promotions() only.
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotion_redemptions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable read access for all users" ON promotions FOR SELECT USING (true);
+CREATE POLICY "Enable write for authenticated users" ON promotions FOR ALL
+  USING (auth.role() = 'authenticated') WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "Enable read access for all users" ON promotion_redemptions FOR SELECT USING (true);
+
+-- Redemptions that still count: a cancelled or voided order gives the promotion back
+CREATE OR REPLACE VIEW promotion_redemption_counts AS
+SELECT
+  r.promotion_id,
+  COUNT(*)::INTEGER AS redemptions,
+  COALESCE(SUM(r.amount), 0)::DECIMAL(10, 2) AS discount_total
+FROM promotion_redemptions r
+JOIN orders o ON o.id = r.order_id
+WHERE o.status NOT IN ('cancelled', 'voided')
+GROUP BY r.promotion_id;
+
+-- The order's lines a promotion counts (its category, or everything), with the price of one unit including modifiers
+CREATE OR REPLACE FUNCTION promotion_eligible_lines(p_promotion promotions, p_order_id UUID)
+RETURNS TABLE (unit_price DECIMAL(10, 2), quantity INTEGER) AS $$
+  SELECT
+    oi.price + COALESCE((
+      SELECT SUM(m.price * m.quantity) FROM order_item_modifiers m WHERE m.order_item_id = oi.id
+    ), 0),
+    oi.quantity
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id
+    AND (p_promotion.category IS NULL OR oi.menu_item_category = p_promotion.category);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- What a promotion takes off an order, worked out from its saved items the same way as
+-- getPromotionDiscount() in src/lib/promotions.ts
+CREATE OR REPLACE FUNCTION promotion_discount(p_promotion promotions, p_order_id UUID)
+RETURNS DECIMAL(10, 2) AS $$
+DECLARE
+  v_eligible DECIMAL(10, 2);
+  v_units INTEGER;
+  v_free_units INTEGER;
+  v_discount DECIMAL(10, 2);
+BEGIN
+  SELECT COALESCE(SUM(l.unit_price * l.quantity), 0), COALESCE(SUM(l.quantity), 0)
+  INTO v_eligible, v_units
+  FROM promotion_eligible_lines(p_promotion, p_order_id) l;
+
+  IF p_promotion.discount_type = 'percent' THEN
+    RETURN ROUND(v_eligible * LEAST(p_promotion.value, 100) / 100, 2);
+  END IF;
+  IF p_promotion.discount_type = 'fixed' THEN
+    RETURN CASE WHEN v_eligible > 0 THEN LEAST(p_promotion.value, v_eligible) ELSE 0 END;
+  END IF;
+
+  -- Buy X get Y: in every group of X + Y units, the cheapest Y are free
+  IF COALESCE(p_promotion.buy_quantity, 0) <= 0 OR COALESCE(p_promotion.get_quantity, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+  v_free_units := (v_units / (p_promotion.buy_quantity + p_promotion.get_quantity)) * p_promotion.get_quantity;
+
+  SELECT COALESCE(SUM(u.unit_price), 0)
+  INTO v_discount
+  FROM (
+    SELECT l.unit_price
+    FROM promotion_eligible_lines(p_promotion, p_order_id) l
+    CROSS JOIN LATERAL generate_series(1, l.quantity)
+    ORDER BY l.unit_price
+    LIMIT v_free_units
+  ) u;
+  RETURN v_discount;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Record the promotions applied to a new order and return the total discount.
+-- p_promotions: [{ "promotion_id", "amount" }, ...]
+-- Rejects promotions that are inactive, outside their validity window, below their
+-- minimum spend, used up on this device, or combined although not stackable.
+-- Each discount is worked out again here, and the order is rejected when the cart's
+-- amount does not match, so a client cannot send its own figure.
+DROP FUNCTION IF EXISTS redeem_promotions(UUID, JSONB, TEXT);
+CREATE FUNCTION redeem_promotions(p_order_id UUID, p_promotions JSONB, p_device_id TEXT)
+RETURNS DECIMAL(10, 2) AS $$
+DECLARE
+  v_entry JSONB;
+  v_promotion promotions%ROWTYPE;
+  v_count INTEGER := jsonb_array_length(COALESCE(p_promotions, '[]'::JSONB));
+  v_subtotal DECIMAL(10, 2);
+  v_used INTEGER;
+  v_amount DECIMAL(10, 2);
+  v_remaining DECIMAL(10, 2);
+  v_total DECIMAL(10, 2) := 0;
+BEGIN
+  IF v_count = 0 THEN
+    RETURN 0;
+  END IF;
+  IF COALESCE(TRIM(p_device_id), '') = '' THEN
+    RAISE EXCEPTION 'A device id is required to use promotions';
+  END IF;
+
+  SELECT COALESCE(SUM(
+    (oi.price + COALESCE((
+      SELECT SUM(m.price * m.quantity) FROM order_item_modifiers m WHERE m.order_item_id = oi.id
+    ), 0)) * oi.quantity
+  ), 0)
+  INTO v_subtotal
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+  v_remaining := v_subtotal;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_promotions)
+  LOOP
+    SELECT * INTO v_promotion FROM promotions WHERE id = (v_entry->>'promotion_id')::UUID;
+    IF NOT FOUND OR NOT v_promotion.active
+       OR (v_promotion.starts_at IS NOT NULL AND NOW() < v_promotion.starts_at)
+       OR (v_promotion.ends_at IS NOT NULL AND NOW() > v_promotion.ends_at) THEN
+      RAISE EXCEPTION 'Promotion % is no longer available', COALESCE(v_promotion.name, v_entry->>'promotion_id');
+    END IF;
+    IF v_count > 1 AND NOT v_promotion.stackable THEN
+      RAISE EXCEPTION 'Promotion % cannot be combined with other promotions', v_promotion.name;
+    END IF;
+    IF v_subtotal < v_promotion.min_spend THEN
+      RAISE EXCEPTION 'Promotion % needs a minimum spend of %', v_promotion.name, v_promotion.min_spend;
+    END IF;
+
+    IF v_promotion.max_uses_per_device IS NOT NULL THEN
+      -- Two orders from the same device must not both squeeze in the last use
+      PERFORM pg_advisory_xact_lock(hashtext(v_promotion.id::TEXT || ':' || p_device_id));
+      SELECT COUNT(*) INTO v_used
+      FROM promotion_redemptions r
+      JOIN orders o ON o.id = r.order_id
+      WHERE r.promotion_id = v_promotion.id
+        AND r.device_id = p_device_id
+        AND o.status NOT IN ('cancelled', 'voided');
+      IF v_used >= v_promotion.max_uses_per_device THEN
+        RAISE EXCEPTION 'Promotion % has already been used on this device', v_promotion.name;
+      END IF;
+    END IF;
+
+    -- Together the promotions never take off more than the order is worth, as in applyPromotions()
+    v_amount := LEAST(promotion_discount(v_promotion, p_order_id), v_remaining);
+    IF v_amount <= 0 THEN
+      RAISE EXCEPTION 'Promotion % does not apply to this order', v_promotion.name;
+    END IF;
+    -- One centavo of slack for the cart rounding in floating point
+    IF ABS(v_amount - COALESCE((v_entry->>'amount')::DECIMAL(10, 2), 0)) > 0.01 THEN
+      RAISE EXCEPTION 'Promotion % takes % off this order, not %. Please review your cart.',
+        v_promotion.name, v_amount, v_entry->>'amount';
+    END IF;
+
+    INSERT INTO promotion_redemptions (promotion_id, order_id, device_id, amount)
+    VALUES (v_promotion.id, p_order_id, p_device_id, v_amount);
+
+    v_remaining := v_remaining - v_amount;
+    v_total := v_total + v_amount;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only submit_order() records redemptions
+REVOKE EXECUTE ON FUNCTION redeem_promotions(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,161 @@
+-- Create stock_reservations table for holding stock while a cart is open
+-- A hold does not touch menu_items.quantity; it only lowers what other carts can take.
+-- Holds expire on their own, so a closed browser tab never leaks stock.
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id TEXT NOT NULL,
+  device_token VARCHAR(64),
+  cart_item_id TEXT NOT NULL,
+  menu_item_id UUID NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (session_id, cart_item_id)
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_session_id ON stock_reservations(session_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_menu_item_id ON stock_reservations(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_expires_at ON stock_reservations(expires_at);
+
+-- Add trigger for auto-update of updated_at
+DROP TRIGGER IF EXISTS stock_reservations_updated_at_trigger ON stock_reservations;
+CREATE TRIGGER stock_reservations_updated_at_trigger
+BEFORE UPDATE ON stock_reservations
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS: everyone may read holds, writes only go through the functions below
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable read access for all users" ON stock_reservations;
+CREATE POLICY "Enable read access for all users" ON stock_reservations FOR SELECT USING (true);
+
+-- Reserved vs available stock per menu item (expired holds are ignored)
+CREATE OR REPLACE VIEW menu_item_availability AS
+SELECT
+  mi.id AS menu_item_id,
+  COALESCE(mi.quantity, 0) AS quantity,
+  COALESCE(SUM(sr.quantity) FILTER (WHERE sr.expires_at > NOW()), 0)::INTEGER AS reserved,
+  GREATEST(COALESCE(mi.quantity, 0) - COALESCE(SUM(sr.quantity) FILTER (WHERE sr.expires_at > NOW()), 0), 0)::INTEGER AS available
+FROM menu_items mi
+LEFT JOIN stock_reservations sr ON sr.menu_item_id = mi.id
+GROUP BY mi.id, mi.quantity;
+
+-- Delete expired holds, returning how many were released
+DROP FUNCTION IF EXISTS release_expired_reservations();
+CREATE FUNCTION release_expired_reservations()
+RETURNS INTEGER AS $$
+DECLARE
+  v_released INTEGER;
+BEGIN
+  DELETE FROM stock_reservations WHERE expires_at <= NOW();
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+  RETURN v_released;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create or resize the hold for one cart line and extend every hold of the session.
+-- Fails when the other open carts leave less than p_quantity in stock.
+DROP FUNCTION IF EXISTS reserve_stock(TEXT, VARCHAR, TEXT, UUID, INTEGER, INTEGER);
+CREATE FUNCTION reserve_stock(
+  p_session_id TEXT,
+  p_device_token VARCHAR(64),
+  p_cart_item_id TEXT,
+  p_menu_item_id UUID,
+  p_quantity INTEGER,
+  p_ttl_minutes INTEGER DEFAULT 15
+)
+RETURNS stock_reservations AS $$
+DECLARE
+  v_stock INTEGER;
+  v_name TEXT;
+  v_reserved_by_others INTEGER;
+  v_reservation stock_reservations%ROWTYPE;
+BEGIN
+  PERFORM release_expired_reservations();
+
+  -- Lock the menu item row so concurrent holds on it are serialised
+  SELECT COALESCE(quantity, 0), name INTO v_stock, v_name
+  FROM menu_items
+  WHERE id = p_menu_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu item % no longer exists', p_menu_item_id;
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO v_reserved_by_others
+  FROM stock_reservations
+  WHERE menu_item_id = p_menu_item_id
+    AND NOT (session_id = p_session_id AND cart_item_id = p_cart_item_id);
+
+  -- Reported the same way as a failed order (see INVENTORY_STOCK_SETUP.sql)
+  IF v_stock - v_reserved_by_others < p_quantity THEN
+    PERFORM raise_insufficient_stock(jsonb_build_array(jsonb_build_object(
+      'menu_item_id', p_menu_item_id,
+      'name', v_name,
+      'requested', p_quantity,
+      'available', GREATEST(v_stock - v_reserved_by_others, 0)
+    )));
+  END IF;
+
+  INSERT INTO stock_reservations (session_id, device_token, cart_item_id, menu_item_id, quantity, expires_at)
+  VALUES (p_session_id, p_device_token, p_cart_item_id, p_menu_item_id, p_quantity, NOW() + make_interval(mins => p_ttl_minutes))
+  ON CONFLICT (session_id, cart_item_id) DO UPDATE
+  SET quantity = EXCLUDED.quantity, expires_at = EXCLUDED.expires_at
+  RETURNING * INTO v_reservation;
+
+  UPDATE stock_reservations
+  SET expires_at = v_reservation.expires_at
+  WHERE session_id = p_session_id;
+
+  RETURN v_reservation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep an open cart's holds alive (called periodically by the client)
+DROP FUNCTION IF EXISTS extend_reservations(TEXT, INTEGER);
+CREATE FUNCTION extend_reservations(p_session_id TEXT, p_ttl_minutes INTEGER DEFAULT 15)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE stock_reservations
+  SET expires_at = NOW() + make_interval(mins => p_ttl_minutes)
+  WHERE session_id = p_session_id
+    AND expires_at > NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Release one cart line, or the whole cart when p_cart_item_id is NULL
+DROP FUNCTION IF EXISTS release_reservations(TEXT, TEXT);
+CREATE FUNCTION release_reservations(p_session_id TEXT, p_cart_item_id TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM stock_reservations
+  WHERE session_id = p_session_id
+    AND (p_cart_item_id IS NULL OR cart_item_id = p_cart_item_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT SELECT ON menu_item_availability TO anon, authenticated;
+-- Expired holds are cleared by reserve_stock() (or the cron job below), not by clients
+REVOKE EXECUTE ON FUNCTION release_expired_reservations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_stock(TEXT, VARCHAR, TEXT, UUID, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION extend_reservations(TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_reservations(TEXT, TEXT) TO anon, authenticated;
+
+-- Optional: release expired holds every minute even when nobody is ordering
+-- (requires the pg_cron extension to be enabled in Supabase)
+-- SELECT cron.schedule('release-expired-reservations', '* * * * *', 'SELECT release_expired_reservations()');
+
+-- Enable realtime for this table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'stock_reservations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE stock_reservations;
+  END IF;
+END $$;
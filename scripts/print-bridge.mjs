@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+/**
+ * Print bridge
+ * Browsers cannot open raw sockets, so kitchen stations with the "network" print target
+ * POST their ESC/POS bytes here and the bridge passes them on to the printer.
+ *
+ *   node scripts/print-bridge.mjs
+ *     Stand-in printer: every job is saved to ./print-jobs/<time>-<station>.bin
+ *   PRINTER=192.168.1.50:9100 node scripts/print-bridge.mjs
+ *     Forward every job to a raw TCP (port 9100) thermal printer
+ *   PRINTERS=grill=192.168.1.50:9100,drinks=192.168.1.51:9100 node scripts/print-bridge.mjs
+ *     Send each station to its own printer; stations not listed use PRINTER
+ *   node scripts/print-bridge.mjs --fake-printer 9100
+ *     Also listen on TCP 9100 like a printer, saving what it receives (to test the socket path)
+ *
+ * Station printer URL: http://<bridge host>:9101/<station>. Printers only ever come from the
+ * bridge's own configuration, so a web page cannot point it at another host.
+ * Only the app's origins may send jobs: ALLOWED_ORIGINS (comma-separated, default
+ * http://localhost:8080). PORT and JOBS_DIR override the other defaults.
+ */
+
+import http from 'node:http';
+import net from 'node:net';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const PORT = Number(process.env.PORT) || 9101;
+const JOBS_DIR = process.env.JOBS_DIR || path.resolve('print-jobs');
+const DEFAULT_PRINTER = process.env.PRINTER;
+// station -> host:port
+const STATION_PRINTERS = new Map(
+  (process.env.PRINTERS || '')
+    .split(',')
+    .map((entry) => entry.trim().split('='))
+    .filter(([station, address]) => station && address)
+);
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || 'http://localhost:8080')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const saveJob = (name, bytes) => {
+  fs.mkdirSync(JOBS_DIR, { recursive: true });
+  const file = path.join(JOBS_DIR, `${new Date().toISOString().replace(/[:.]/g, '-')}-${name}.bin`);
+  fs.writeFileSync(file, bytes);
+  return file;
+};
+
+const sendToPrinter = (address, bytes) => new Promise((resolve, reject) => {
+  const [host, port = '9100'] = address.split(':');
+  const socket = net.connect({ host, port: Number(port) }, () => {
+    socket.end(bytes);
+  });
+  socket.setTimeout(5000, () => socket.destroy(new Error(`Printer ${address} did not answer`)));
+  socket.on('close', (hadError) => { if (!hadError) resolve(); });
+  socket.on('error', reject);
+});
+
+const server = http.createServer((req, res) => {
+  // The app runs on another origin; any other page the kitchen PC opens is turned away.
+  // Requests without an Origin come from outside a browser (curl) and are let through
+  const origin = req.headers.origin;
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    res.writeHead(403).end(`Origin ${origin} is not allowed; add it to ALLOWED_ORIGINS`);
+    return;
+  }
+  if (origin) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405).end('POST the ESC/POS bytes');
+    return;
+  }
+
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  const station = url.pathname.replace(/[^a-zA-Z0-9_-]/g, '') || 'ticket';
+  if (url.searchParams.has('printer')) {
+    res.writeHead(400).end('Printers are set on the bridge (PRINTERS), not in the URL');
+    return;
+  }
+  const printer = STATION_PRINTERS.get(station) || DEFAULT_PRINTER;
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', async () => {
+    const bytes = Buffer.concat(chunks);
+    try {
+      if (printer) {
+        await sendToPrinter(printer, bytes);
+        console.log(`${station}: ${bytes.length} bytes sent to ${printer}`);
+      } else {
+        console.log(`${station}: ${bytes.length} bytes saved to ${saveJob(station, bytes)}`);
+      }
+      res.writeHead(200).end('printed');
+    } catch (error) {
+      console.error(`${station}: ${error.message}`);
+      res.writeHead(502).end(error.message);
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Print bridge on http://localhost:${PORT} -> ${DEFAULT_PRINTER || JOBS_DIR}`);
+  STATION_PRINTERS.forEach((address, station) => console.log(`  ${station} -> ${address}`));
+  console.log(`Accepting jobs from ${ALLOWED_ORIGINS.join(', ')}`);
+});
+
+const fakePrinterFlag = process.argv.indexOf('--fake-printer');
+if (fakePrinterFlag !== -1) {
+  const fakePort = Number(process.argv[fakePrinterFlag + 1]) || 9100;
+  net.createServer((socket) => {
+    const chunks = [];
+    socket.on('data', (chunk) => chunks.push(chunk));
+    socket.on('end', () => {
+      console.log(`Fake printer: received ${saveJob('socket', Buffer.concat(chunks))}`);
+    });
+  }).listen(fakePort, () => {
+    console.log(`Fake printer listening on tcp://localhost:${fakePort}`);
+  });
+}
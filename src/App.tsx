@@ -6,6 +6,7 @@ import { Routes, Route, useLocation, Navigate, useNavigate } from "react-router-
 import { useEffect, useState } from "react";
 import { Navigation } from "@/components/Navigation";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { ReadyOrderBanner } from "@/components/ReadyOrderBanner";
 import { useAuthStore } from "@/store/authStore";
 import { useOrderStore } from "@/store/orderStore";
 import Index from "./pages/Index";
@@ -13,7 +14,10 @@ import Landing from "./pages/Landing";
 import Menu from "./pages/Menu";
 import Queue from "./pages/Queue";
 import Kitchen from "./pages/Kitchen";
+import Runner from "./pages/Runner";
 import Admin from "./pages/Admin";
+import TrackOrder from "./pages/TrackOrder";
+import NowServing from "./pages/NowServing";
 import AdminLogin from "@/components/AdminLogin";
 import StaffLogin from "./pages/StaffLogin";
 import { IPGuard } from "@/components/IPGuard";
@@ -28,7 +32,7 @@ const App = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const { checkAuth } = useAuthStore();
-  const { loadOrdersFromDatabase, loadMenuItemsFromDatabase, loadCategoriesFromDatabase } = useOrderStore();
+  const { loadOrdersFromDatabase, loadMenuItemsFromDatabase, loadCategoriesFromDatabase, loadPromotionsFromDatabase, loadTaxConfigFromDatabase, syncOutbox } = useOrderStore();
   const [isIPValidated, setIsIPValidated] = useState<boolean | null>(null);
 
   // Check if current IP has an active session/is validated
@@ -107,7 +111,26 @@ const App = () => {
     loadOrdersFromDatabase();
     loadMenuItemsFromDatabase();
     loadCategoriesFromDatabase();
-  }, [checkAuth, loadOrdersFromDatabase, loadMenuItemsFromDatabase, loadCategoriesFromDatabase]);
+    loadPromotionsFromDatabase();
+    loadTaxConfigFromDatabase();
+  }, [checkAuth, loadOrdersFromDatabase, loadMenuItemsFromDatabase, loadCategoriesFromDatabase, loadPromotionsFromDatabase, loadTaxConfigFromDatabase]);
+
+  // Replay order changes made while offline: on start, when the browser reconnects, and periodically
+  useEffect(() => {
+    syncOutbox();
+
+    const handleOnline = () => {
+      console.log('🌐 [APP] Back online, syncing queued orders...');
+      syncOutbox();
+    };
+    window.addEventListener('online', handleOnline);
+    const interval = setInterval(syncOutbox, 30 * 1000);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearInterval(interval);
+    };
+  }, [syncOutbox]);
 
   // Monitor IP registration status for changes
   useEffect(() => {
@@ -159,8 +182,9 @@ const App = () => {
     }
   }, [isIPValidated, navigate]);
 
-  // Hide Navigation on validation page
-  const showNavigation = location.pathname !== '/validate';
+  // Hide Navigation on validation page and the wall TV display
+  const kioskMode = location.pathname === '/now-serving';
+  const showNavigation = location.pathname !== '/validate' && !kioskMode;
 
   // Show loading while checking validation
   if (isIPValidated === null) {
@@ -186,6 +210,7 @@ const App = () => {
         <Toaster />
         <Sonner />
         {showNavigation && <Navigation />}
+        {!kioskMode && <ReadyOrderBanner />}
         <Routes>
           {/* IP Validation Based Routes */}
           {isIPValidated ? (
@@ -196,6 +221,8 @@ const App = () => {
           
           <Route path="/validate" element={<IPValidation />} />
           <Route path="/menu" element={<Menu />} />
+          <Route path="/track/:orderId" element={<TrackOrder />} />
+          <Route path="/now-serving" element={<NowServing />} />
           <Route path="/admin-login" element={<AdminLogin />} />
           <Route path="/staff-login" element={<StaffLogin />} />
 
@@ -203,6 +230,7 @@ const App = () => {
           <Route path="/dashboard" element={<ProtectedRoute element={<Index />} />} />
           <Route path="/queue" element={<ProtectedRoute element={<Queue />} />} />
           <Route path="/kitchen" element={<ProtectedRoute element={<Kitchen />} />} />
+          <Route path="/runner" element={<ProtectedRoute element={<Runner />} allowStaff />} />
           <Route path="/admin" element={<ProtectedRoute element={<Admin />} />} />
 
           {/* Catch-all for 404 */}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader, AlertCircle } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useAuthStore } from '@/store/authStore';
+import { staffSessionManager } from '@/lib/sessionManager';
+import { Order, PaymentMethod } from '@/types';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { PAYMENT_METHOD_LABELS, getBalanceDue, getBillBalance, getChange, validateBillPayment } from '@/lib/payments';
+import { formatMoney } from '@/lib/tax';
+
+interface BillPaymentDialogProps {
+  orders: Order[];
+  open: boolean;
+  onClose: () => void;
+  onPaid?: (orders: Order[]) => void;
+}
+
+/**
+ * Settle several orders (e.g. friends on adjacent PCs) with one payment
+ */
+export function BillPaymentDialog({ orders, open, onClose, onPaid }: BillPaymentDialogProps) {
+  const { recordBillPayment, taxConfig } = useOrderStore();
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
+  const { user } = useAuthStore();
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [tendered, setTendered] = useState('');
+  const [reference, setReference] = useState('');
+  const [payer, setPayer] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setMethod('cash');
+    setTendered('');
+    setReference('');
+    setPayer('');
+    setErrorMessage('');
+  }, [open]);
+
+  const billTotal = getBillBalance(orders);
+  const change = method === 'cash' ? getChange(billTotal, parseFloat(tendered)) : null;
+
+  const handleSubmit = async () => {
+    const payment = {
+      method,
+      amountTendered: parseFloat(tendered),
+      reference,
+      receivedBy: user?.email || staffSessionManager.getSession()?.email || 'Staff',
+      payer,
+    };
+    const problem = validateBillPayment(payment, orders);
+    if (problem) {
+      setErrorMessage(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      const paidOrders = await recordBillPayment(orders.map(order => order.id), payment);
+      onPaid?.(paidOrders);
+      onClose();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="tech-card">
+        <DialogHeader>
+          <DialogTitle className="neon-glow">Merged Bill ({orders.length} orders)</DialogTitle>
+          <DialogDescription>
+            Pays the remaining balance of every order below; each order gets its own payment record.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1 p-3 rounded-lg bg-muted/30 tech-card">
+            {orders.map(order => (
+              <div key={order.id} className="flex justify-between text-sm">
+                <span>
+                  {formatOrderNumber(order.orderNumber)} <span className="text-muted-foreground">{order.terminal}</span>
+                </span>
+                <span>{money(getBalanceDue(order))}</span>
+              </div>
+            ))}
+            <div className="flex justify-between pt-2 border-t border-primary/20 font-bold text-primary">
+              <span>Bill total</span>
+              <span>{money(billTotal)}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+              <SelectTrigger className="tech-card">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(key => (
+                  <SelectItem key={key} value={key}>{PAYMENT_METHOD_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {method === 'cash' ? (
+            <div className="space-y-2">
+              <Label htmlFor="bill-tendered">Cash tendered</Label>
+              <Input
+                id="bill-tendered"
+                type="number"
+                min="0"
+                step="0.01"
+                value={tendered}
+                onChange={(e) => setTendered(e.target.value)}
+                placeholder="Amount handed over"
+              />
+              <p className="text-sm">
+                Change: <span className="font-bold text-primary">{change !== null ? money(change) : '—'}</span>
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="bill-reference">
+                {method === 'ewallet' ? 'Reference number' : 'PC account'}
+              </Label>
+              <Input
+                id="bill-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder={method === 'ewallet' ? 'e.g. GCash reference no.' : 'e.g. PC 12'}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="bill-payer">Payer (optional)</Label>
+            <Input
+              id="bill-payer"
+              value={payer}
+              onChange={(e) => setPayer(e.target.value)}
+              placeholder="e.g. PC 12 or a name"
+            />
+          </div>
+
+          {errorMessage && (
+            <div className="p-3 rounded border border-destructive/50 bg-destructive/10 flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 text-destructive" />
+              <span className="text-sm text-destructive">{errorMessage}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Back
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving || billTotal === 0} className="gap-2">
+            {isSaving && <Loader className="h-4 w-4 animate-spin" />}
+            Pay {money(billTotal)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
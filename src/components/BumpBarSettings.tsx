@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { X } from 'lucide-react';
+import {
+  BUMP_ACTION_LABELS,
+  BumpAction,
+  BumpKeyMap,
+  DEFAULT_BUMP_KEYS,
+  assignBumpKey,
+  formatBumpKey,
+} from '@/lib/bumpBar';
+
+interface BumpBarSettingsProps {
+  open: boolean;
+  keyMap: BumpKeyMap;
+  onSave: (keyMap: BumpKeyMap) => void;
+  onClose: () => void;
+}
+
+/**
+ * Which key does what on this kitchen screen: press "Add Key", then the key on the
+ * bump bar or numpad
+ */
+export function BumpBarSettings({ open, keyMap, onSave, onClose }: BumpBarSettingsProps) {
+  const [draft, setDraft] = useState<BumpKeyMap>(keyMap);
+  const [capturing, setCapturing] = useState<BumpAction | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(keyMap);
+      setCapturing(null);
+    }
+  }, [open, keyMap]);
+
+  // The next key pressed goes to the action; Escape gives up without closing the dialog
+  useEffect(() => {
+    if (!capturing) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key !== 'Escape') {
+        setDraft(current => assignBumpKey(current, capturing, event.key));
+      }
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing]);
+
+  const removeKey = (action: BumpAction, key: string) => {
+    setDraft(current => ({ ...current, [action]: current[action].filter(existing => existing !== key) }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="tech-card">
+        <DialogHeader>
+          <DialogTitle className="neon-glow">Bump Bar Keys</DialogTitle>
+          <DialogDescription>
+            Saved on this device. Keys 1-9 (and 0 for the tenth) select the numbered orders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {(Object.keys(BUMP_ACTION_LABELS) as BumpAction[]).map(action => (
+            <div key={action} className="flex items-center justify-between gap-3">
+              <div className="space-y-1">
+                <div className="text-sm font-semibold">{BUMP_ACTION_LABELS[action]}</div>
+                <div className="flex flex-wrap gap-1">
+                  {draft[action].length === 0 && (
+                    <span className="text-xs text-muted-foreground">No keys</span>
+                  )}
+                  {draft[action].map(key => (
+                    <Badge key={key} variant="outline" className="gap-1 font-mono">
+                      {formatBumpKey(key)}
+                      <button type="button" onClick={() => removeKey(action, key)} aria-label={`Remove ${formatBumpKey(key)}`}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <Button
+                variant={capturing === action ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setCapturing(capturing === action ? null : action)}
+              >
+                {capturing === action ? 'Press a key…' : 'Add Key'}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_BUMP_KEYS)}>
+            Reset to Defaults
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
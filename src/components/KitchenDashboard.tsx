@@ -1,88 +1,499 @@
-import { Order } from '@/types';
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ItemPrepStatus, Order, OrderItem } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Clock, ChefHat, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Clock, ChefHat, CheckCircle, AlertTriangle, CloudOff, Printer, Check, Circle, Flame, Keyboard, Timer, Volume2, VolumeX } from 'lucide-react';
 import { useOrderStore } from '@/store/orderStore';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { priceLine } from '@/lib/pricing';
+import { formatMoney } from '@/lib/tax';
+import { OrderItemModifiers } from '@/components/OrderItemModifiers';
+import { PaymentDialog } from '@/components/PaymentDialog';
+import { PaymentStatusBadge } from '@/components/PaymentStatusBadge';
+import { BumpBarSettings } from '@/components/BumpBarSettings';
+import { useToast } from '@/hooks/use-toast';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { useBumpBar } from '@/hooks/useBumpBar';
+import { useNewOrderAlerts } from '@/hooks/useNewOrderAlerts';
+import {
+  KITCHEN_STATIONS_KEY,
+  KitchenStation,
+  getItemStation,
+  getOrderStations,
+  getStationItems,
+  isStationTicketDone,
+  parseKitchenStations,
+} from '@/lib/kitchenStations';
+import { printKitchenTickets } from '@/lib/kitchenTickets';
+import { isInKitchen } from '@/lib/orderTracking';
+import { ITEM_PREP_LABELS, getItemPrepStatus, getItemProgress, nextItemPrepStatus } from '@/lib/itemPrep';
+import { BumpAction, formatBumpKey } from '@/lib/bumpBar';
+import {
+  AgeLevel,
+  KITCHEN_AGEING_KEY,
+  countSlaBreaches,
+  getAgeLevel,
+  getOrderAgeMinutes,
+  parseAgeingThresholds,
+} from '@/lib/kitchenAlerts';
 
-export function KitchenDashboard() {
-  const { orders, updateOrderStatus } = useOrderStore();
-  
-  const pendingOrders = orders.filter(order => order.status === 'pending');
-  const preparingOrders = orders.filter(order => order.status === 'preparing');
-  const readyOrders = orders.filter(order => order.status === 'ready');
+// Orders taken off the board that "recall" can bring back, most recent first
+const MAX_RECALL = 10;
 
-  const handleStatusUpdate = (orderId: string, newStatus: Order['status']) => {
-    updateOrderStatus(orderId, newStatus);
+interface BumpedOrder {
+  orderId: string;
+  stationId?: string; // a station ticket finished on a station board; otherwise the order was completed
+}
+
+const ITEM_PREP_ICONS: Record<ItemPrepStatus, typeof Circle> = {
+  queued: Circle,
+  cooking: Flame,
+  done: CheckCircle,
+};
+
+const AGE_CARD_CLASSES: Record<AgeLevel, string> = {
+  fresh: '',
+  warning: 'border-l-4 border-l-yellow-500',
+  late: 'border-l-4 border-l-red-500 bg-destructive/10',
+};
+
+const AGE_BADGE_CLASSES: Record<AgeLevel, string> = {
+  fresh: 'text-muted-foreground',
+  warning: 'border-yellow-500/50 text-yellow-500',
+  late: 'border-red-500/50 text-red-500',
+};
+
+// Ageing is recalculated this often
+const AGE_TICK_MS = 15 * 1000;
+
+const ITEM_PREP_COLORS: Record<ItemPrepStatus, string> = {
+  queued: 'text-muted-foreground',
+  cooking: 'text-warning',
+  done: 'text-green-500',
+};
+
+interface KitchenDashboardProps {
+  stationId?: string; // show one station's board: only its items, done once its ticket is
+}
+
+export function KitchenDashboard({ stationId }: KitchenDashboardProps) {
+  const { orders, updateOrderStatus, updateStationTicket, updateItemStatus, pendingSyncOrderIds, taxConfig } = useOrderStore();
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
+  const { toast } = useToast();
+  const { settings } = useAppSettings();
+  const [paymentTarget, setPaymentTarget] = useState<Order | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [bumped, setBumped] = useState<BumpedOrder[]>([]);
+  const [keySettingsOpen, setKeySettingsOpen] = useState(false);
+  const storedStations = settings[KITCHEN_STATIONS_KEY];
+  const stations = useMemo(() => parseKitchenStations(storedStations), [storedStations]);
+  const station = stations.find(s => s.id === stationId);
+  const storedThresholds = settings[KITCHEN_AGEING_KEY];
+  const thresholds = useMemo(() => parseAgeingThresholds(storedThresholds), [storedThresholds]);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), AGE_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // A station's board only has the orders with something for it to make
+  const boardOrders = station
+    ? orders.filter(order => getStationItems(order.items, station, stations).length > 0)
+    : orders;
+  const pendingOrders = boardOrders.filter(order => order.status === 'pending');
+  const preparingOrders = boardOrders.filter(order =>
+    order.status === 'preparing' && (!station || !isStationTicketDone(order, station.id))
+  );
+  const readyOrders = station
+    ? boardOrders.filter(order => ['preparing', 'ready'].includes(order.status) && isStationTicketDone(order, station.id))
+    : boardOrders.filter(order => order.status === 'ready');
+  // Cards are numbered across the columns for the bump bar's number keys
+  const numberedOrders = [...pendingOrders, ...preparingOrders, ...readyOrders];
+  const selectedOrder = numberedOrders.find(order => order.id === selectedId);
+  // Orders this board still has to make, oldest first, once past the late threshold
+  const lateOrders = [...pendingOrders, ...preparingOrders]
+    .filter(order => getAgeLevel(order, thresholds, now) === 'late')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const slaBreaches = countSlaBreaches(boardOrders, thresholds, startOfDay, now);
+  const { newOrderIds, soundEnabled, toggleSound } = useNewOrderAlerts(pendingOrders);
+
+  const recordBumped = (entry: BumpedOrder) => {
+    setBumped(current => [entry, ...current.filter(b => b.orderId !== entry.orderId)].slice(0, MAX_RECALL));
+  };
+
+  const handleStatusUpdate = async (orderId: string, newStatus: Order['status']) => {
+    try {
+      await updateOrderStatus(orderId, newStatus);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update order',
+        variant: "destructive"
+      });
+      return;
+    }
+    if (newStatus === 'completed') {
+      recordBumped({ orderId });
+    }
+  };
+
+  const printTickets = async (order: Order, reprint = false) => {
+    // A station board reprints only its own ticket
+    const failures = await printKitchenTickets(order, stations, { reprint, stationId: reprint ? station?.id : undefined });
+    if (failures.length > 0) {
+      toast({
+        title: "Error",
+        description: `Ticket not printed: ${failures.map(({ station, error }) => `${station.name} (${error})`).join(', ')}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Tickets print once the order is accepted; going back from ready does not print again
+  const handleStartPreparing = async (order: Order) => {
+    try {
+      await updateOrderStatus(order.id, 'preparing');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update order',
+        variant: "destructive"
+      });
+      return;
+    }
+    await printTickets(order);
+  };
+
+  // An order made at one station is a plain status change, which also works offline;
+  // otherwise it turns ready once the last station is done
+  const handleStationTicket = async (order: Order, ticketStation: KitchenStation, done: boolean) => {
+    const orderStations = getOrderStations(order, stations);
+    if (orderStations.length <= 1) {
+      await handleStatusUpdate(order.id, done ? 'ready' : 'preparing');
+      return;
+    }
+    try {
+      await updateStationTicket(
+        order.id,
+        ticketStation.id,
+        done,
+        orderStations.map(s => s.id),
+        getStationItems(order.items, ticketStation, stations).map(item => item.id)
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update the station ticket',
+        variant: "destructive"
+      });
+      return;
+    }
+    if (done && station) {
+      recordBumped({ orderId: order.id, stationId: ticketStation.id });
+    }
+  };
+
+  // Tapping an item moves it on (queued, cooking, done, queued again); the order turns
+  // ready once every item is done. The last item of a station's part finishes its ticket.
+  const handleItemTap = async (order: Order, item: OrderItem) => {
+    const next = nextItemPrepStatus(getItemPrepStatus(item, order));
+    const itemStation = getItemStation(item, stations);
+    if (next === 'done' && itemStation && getOrderStations(order, stations).length > 1) {
+      const stationLeft = getStationItems(order.items, itemStation, stations)
+        .filter(other => other.id !== item.id && getItemPrepStatus(other, order) !== 'done');
+      if (stationLeft.length === 0) {
+        await handleStationTicket(order, itemStation, true);
+        return;
+      }
+    }
+
+    try {
+      await updateItemStatus(order.id, item.id, next, itemStation?.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update the item',
+        variant: "destructive"
+      });
+      return;
+    }
+    // Starting an item accepts the order, as Start Preparing would
+    if (order.status === 'pending') {
+      await printTickets(order);
+    }
+  };
+
+  // Orders that are not paid yet go through the payment dialog first
+  const handleComplete = (order: Order) => {
+    if (order.paymentStatus === 'paid') {
+      handleStatusUpdate(order.id, 'completed');
+    } else {
+      setPaymentTarget(order);
+    }
+  };
+
+  // Bump moves the order one step along the board, the way its buttons would. A split
+  // order turns ready from its station tickets only, so the all-stations board leaves it
+  const bumpOrder = async (order: Order) => {
+    if (order.status === 'pending') {
+      await handleStartPreparing(order);
+    } else if (station) {
+      if (!isStationTicketDone(order, station.id)) await handleStationTicket(order, station, true);
+    } else if (order.status === 'preparing') {
+      const orderStations = getOrderStations(order, stations);
+      if (orderStations.length > 1) {
+        const waiting = orderStations.filter(s => !isStationTicketDone(order, s.id));
+        toast({
+          title: "Waiting on stations",
+          description: `Order ${formatOrderNumber(order.orderNumber)} is ready once ${waiting.map(s => s.name).join(', ')} ${waiting.length === 1 ? 'is' : 'are'} done`
+        });
+        return;
+      }
+      await handleStatusUpdate(order.id, 'ready');
+    } else if (order.status === 'ready') {
+      handleComplete(order);
+    }
+  };
+
+  // Undo steps the order back; a split order reopens the station that finished last
+  const undoOrder = async (order: Order) => {
+    if (station) {
+      if (isStationTicketDone(order, station.id)) await handleStationTicket(order, station, false);
+      else if (order.status === 'preparing') await handleStatusUpdate(order.id, 'pending');
+      return;
+    }
+    if (order.status === 'preparing') {
+      await handleStatusUpdate(order.id, 'pending');
+    } else if (order.status === 'ready') {
+      const lastStation = getOrderStations(order, stations)
+        .filter(s => order.stationsDone[s.id])
+        .sort((a, b) => order.stationsDone[b.id].getTime() - order.stationsDone[a.id].getTime())[0];
+      if (lastStation && getOrderStations(order, stations).length > 1) {
+        await handleStationTicket(order, lastStation, false);
+      } else {
+        await handleStatusUpdate(order.id, 'preparing');
+      }
+    }
+  };
+
+  // Recall puts the last order taken off this board back on it
+  const recallOrder = async () => {
+    const [last, ...rest] = bumped;
+    const order = last && orders.find(o => o.id === last.orderId);
+    if (!order) {
+      toast({ title: "Nothing to recall", description: 'No bumped orders on this board yet' });
+      return;
+    }
+    setBumped(rest);
+    const recallStation = stations.find(s => s.id === last.stationId);
+    if (recallStation) {
+      await handleStationTicket(order, recallStation, false);
+    } else if (order.status === 'completed') {
+      await handleStatusUpdate(order.id, 'ready');
+    }
+    setSelectedId(order.id);
+  };
+
+  const handleBumpAction = (action: BumpAction) => {
+    if (action === 'recall') {
+      recallOrder();
+      return;
+    }
+    if (numberedOrders.length === 0) return;
+    // Without a selection any key first selects the oldest order, so nothing moves by accident
+    if (!selectedOrder) {
+      setSelectedId(numberedOrders[0].id);
+      return;
+    }
+    const index = numberedOrders.indexOf(selectedOrder);
+    if (action === 'next') {
+      setSelectedId(numberedOrders[(index + 1) % numberedOrders.length].id);
+    } else if (action === 'previous') {
+      setSelectedId(numberedOrders[(index - 1 + numberedOrders.length) % numberedOrders.length].id);
+    } else if (action === 'bump') {
+      bumpOrder(selectedOrder);
+    } else if (action === 'undo') {
+      undoOrder(selectedOrder);
+    }
+  };
+
+  const { keyMap, updateKeyMap } = useBumpBar(!paymentTarget && !keySettingsOpen, {
+    onAction: handleBumpAction,
+    onSelect: (index) => {
+      if (numberedOrders[index]) setSelectedId(numberedOrders[index].id);
+    },
+  });
+
+  // Keep the selected card in view on a long board
+  useEffect(() => {
+    if (!selectedId) return;
+    document.querySelector(`[data-order-id="${selectedId}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedId]);
+
+  const ReprintButton = ({ order }: { order: Order }) => (
+    <Button
+      onClick={() => printTickets(order, true)}
+      className="w-full gap-2"
+      variant="ghost"
+      size="sm"
+    >
+      <Printer className="h-4 w-4" />
+      Reprint Ticket
+    </Button>
+  );
+
+  // Which stations have finished their part, for orders split across several
+  const StationProgress = ({ order }: { order: Order }) => {
+    const orderStations = getOrderStations(order, stations);
+    if (orderStations.length <= 1) return null;
+    return (
+      <div className="flex flex-wrap gap-1">
+        {orderStations.map(s => {
+          const done = isStationTicketDone(order, s.id);
+          return (
+            <Badge
+              key={s.id}
+              variant="outline"
+              className={`gap-1 ${done ? 'border-green-500/50 text-green-500' : 'text-muted-foreground'}`}
+            >
+              {done && <Check className="h-3 w-3" />}
+              {s.name}
+            </Badge>
+          );
+        })}
+      </div>
+    );
   };
 
-  const OrderCard = ({ order, actions }: { order: Order; actions: React.ReactNode }) => (
-    <div className="tech-card corner-bracket edge-pulse">
-      <CardHeader className="pb-3">
-        <div className="flex justify-between items-center">
-          <CardTitle className="text-lg text-primary neon-glow">Order #{order.orderNumber}</CardTitle>
-          <div className="text-sm text-muted-foreground font-semibold">
-            {order.createdAt.toLocaleTimeString()}
+  // Done / reopen for each station of a split order, on the all-stations board
+  const StationTicketButtons = ({ order }: { order: Order }) => (
+    <div className="grid grid-cols-2 gap-2">
+      {getOrderStations(order, stations).map(s => {
+        const done = isStationTicketDone(order, s.id);
+        return (
+          <Button
+            key={s.id}
+            onClick={() => handleStationTicket(order, s, !done)}
+            variant={done ? 'outline' : 'default'}
+            size="sm"
+            className="font-bold"
+          >
+            {done ? `Reopen ${s.name}` : `${s.name} Done`}
+          </Button>
+        );
+      })}
+    </div>
+  );
+
+  const OrderCard = ({ order, actions }: { order: Order; actions: React.ReactNode }) => {
+    const items = station ? getStationItems(order.items, station, stations) : order.items;
+    const otherItems = order.items.length - items.length;
+    const progress = getItemProgress(order, items);
+    const position = numberedOrders.indexOf(order) + 1;
+    const selected = order.id === selectedOrder?.id;
+    // A station's finished ticket no longer ages on its board
+    const ageLevel = station && isStationTicketDone(order, station.id) ? 'fresh' : getAgeLevel(order, thresholds, now);
+    const highlight = selected
+      ? 'ring-4 ring-primary shadow-lg shadow-primary/30'
+      : newOrderIds.includes(order.id) ? 'ring-4 ring-yellow-500 animate-pulse' : '';
+    return (
+      <div
+        data-order-id={order.id}
+        onClick={() => setSelectedId(order.id)}
+        className={`tech-card corner-bracket edge-pulse transition-shadow ${AGE_CARD_CLASSES[ageLevel]} ${highlight}`}
+      >
+        <CardHeader className="pb-3">
+          <div className="flex justify-between items-center">
+            <CardTitle className="text-lg text-primary neon-glow flex items-center gap-2">
+              <Badge variant={selected ? 'default' : 'outline'} className="font-mono">{position}</Badge>
+              Order {formatOrderNumber(order.orderNumber)}
+            </CardTitle>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground font-semibold">
+              {order.createdAt.toLocaleTimeString()}
+              {isInKitchen(order) && (
+                <Badge variant="outline" className={`gap-1 ${AGE_BADGE_CLASSES[ageLevel]}`}>
+                  <Timer className="h-3 w-3" />
+                  {getOrderAgeMinutes(order, now)} min
+                </Badge>
+              )}
+            </div>
           </div>
-        </div>
-        {order.customerName && (
-          <p className="text-sm text-muted-foreground">Customer: {order.customerName}</p>
-        )}
-      </CardHeader>
-      <CardContent className="space-y-3">
-        <div className="space-y-2">
-          {order.items.map((item) => (
-            <div key={item.id} className="flex justify-between items-start">
-              <div className="flex-1">
-                <div className="font-semibold text-foreground">{item.quantity}x {item.menuItem.name}</div>
-                {item.customizations.length > 0 && (
-                  <div className="text-sm text-muted-foreground">
-                    Custom: {item.customizations.map(c => {
-                      try {
-                        return typeof c === 'string' && c.startsWith('{') ? JSON.parse(c).name : c;
-                      } catch (e) {
-                        return c;
-                      }
-                    }).join(', ')}
+          {order.customerName && (
+            <p className="text-sm text-muted-foreground">Customer: {order.customerName}</p>
+          )}
+          {pendingSyncOrderIds.includes(order.id) && (
+            <Badge variant="outline" className="w-fit gap-1 border-yellow-500/50 text-yellow-500">
+              <CloudOff className="h-3 w-3" />
+              Pending sync
+            </Badge>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-2">
+            {items.map((item) => {
+              const prepStatus = getItemPrepStatus(item, order);
+              const PrepIcon = ITEM_PREP_ICONS[prepStatus];
+              return (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => handleItemTap(order, item)}
+                  title={`${ITEM_PREP_LABELS[prepStatus]}: tap for ${ITEM_PREP_LABELS[nextItemPrepStatus(prepStatus)].toLowerCase()}`}
+                  className="flex w-full justify-between items-start gap-2 rounded p-1 -m-1 text-left hover:bg-primary/5 transition-colors"
+                >
+                  <PrepIcon className={`h-4 w-4 mt-1 shrink-0 ${ITEM_PREP_COLORS[prepStatus]}`} />
+                  <div className="flex-1">
+                    <div className={`font-semibold ${prepStatus === 'done' ? 'text-muted-foreground line-through' : 'text-foreground'}`}>
+                      {item.quantity}x {item.menuItem.name}
+                    </div>
+                    <OrderItemModifiers modifiers={item.modifiers} showPrices={false} />
+                    {item.notes && (
+                      <div className="text-sm text-accent-foreground bg-accent/20 border border-accent/30 p-2 rounded mt-1">
+                        Note: {item.notes}
+                      </div>
+                    )}
                   </div>
-                )}
-                {item.notes && (
-                  <div className="text-sm text-accent-foreground bg-accent/20 border border-accent/30 p-2 rounded mt-1">
-                    Note: {item.notes}
+                  <div className="text-sm font-bold text-primary neon-glow ml-2">
+                    {money(priceLine(item).lineTotal)}
                   </div>
-                )}
+                </button>
+              );
+            })}
+            {otherItems > 0 && (
+              <div className="text-xs text-muted-foreground">
+                + {otherItems} item{otherItems !== 1 ? 's' : ''} from other stations
               </div>
-              <div className="text-sm font-bold text-primary neon-glow ml-2">
-                ₱{(() => {
-                  const basePrice = item.menuItem.price * item.quantity;
-                  const customizationPrice = item.customizations.reduce((total, custom) => {
-                    try {
-                      if (typeof custom === 'string' && custom.startsWith('{')) {
-                        const parsed = JSON.parse(custom);
-                        return total + (parsed.price || 0);
-                      }
-                    } catch (e) {
-                      // If parsing fails, skip
-                    }
-                    return total;
-                  }, 0);
-                  return (basePrice + (customizationPrice * item.quantity)).toFixed(2);
-                })()}
+            )}
+          </div>
+          {progress.total > 1 && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Items done</span>
+                <span>{progress.done}/{progress.total}</span>
               </div>
+              <Progress value={(progress.done / progress.total) * 100} className="h-2" />
             </div>
-          ))}
-        </div>
+          )}
+          <StationProgress order={order} />
         
-        <div className="pt-2 border-t border-primary/20">
-          <div className="flex justify-between items-center mb-3">
-            <span className="font-bold text-primary neon-glow">Total: ₱{order.total.toFixed(2)}</span>
-            <Badge className="neon-glow-primary">{order.terminal}</Badge>
+          <div className="pt-2 border-t border-primary/20">
+            <div className="flex justify-between items-center mb-3">
+              <span className="font-bold text-primary neon-glow">Total: {money(order.total)}</span>
+              <Badge className="neon-glow-primary">{order.terminal}</Badge>
+            </div>
+            <PaymentStatusBadge status={order.paymentStatus} className="mb-3" />
+            {actions}
           </div>
-          {actions}
-        </div>
-      </CardContent>
-    </div>
-  );
+        </CardContent>
+      </div>
+    );
+  };
 
   return (
     <div className="p-6 bg-background min-h-screen grid-pattern relative">
@@ -93,11 +504,61 @@ export function KitchenDashboard() {
       <div className="mb-8">
         <h1 className="text-4xl md:text-2xl font-bold  neon-glow cyber-text flex items-center gap-3 mb-2">
           <ChefHat className="h-10 w-10" />
-          Kitchen Dashboard
+          {station ? `${station.name} Board` : 'Kitchen Dashboard'}
         </h1>
-        <p className="text-muted-foreground text-lg">Manage and track all incoming orders in real-time</p>
+        <p className="text-muted-foreground text-lg">
+          {station
+            ? `Only ${station.name} items; orders are ready once every station is done`
+            : 'Manage and track all incoming orders in real-time'}
+        </p>
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-muted-foreground">
+          <Button size="sm" variant="ghost" className="gap-1 h-7" onClick={() => setKeySettingsOpen(true)}>
+            <Keyboard className="h-4 w-4" />
+            Bump Bar Keys
+          </Button>
+          <Button size="sm" variant="ghost" className="gap-1 h-7" onClick={() => toggleSound(!soundEnabled)}>
+            {soundEnabled ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+            New Order Sound {soundEnabled ? 'On' : 'Off'}
+          </Button>
+          <Badge variant="outline" className={slaBreaches > 0 ? 'border-red-500/50 text-red-500' : ''}>
+            SLA breaches today: {slaBreaches}
+          </Badge>
+          <span>1-9 select · {keyMap.bump.map(formatBumpKey).join('/') || '—'} bump · {keyMap.undo.map(formatBumpKey).join('/') || '—'} undo · {keyMap.recall.map(formatBumpKey).join('/') || '—'} recall</span>
+        </div>
+        {stations.length > 1 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            <Button asChild size="sm" variant={station ? 'outline' : 'default'}>
+              <Link to="/kitchen">All Stations</Link>
+            </Button>
+            {stations.map(s => (
+              <Button key={s.id} asChild size="sm" variant={s.id === station?.id ? 'default' : 'outline'}>
+                <Link to={`/kitchen?station=${s.id}`}>{s.name}</Link>
+              </Button>
+            ))}
+          </div>
+        )}
       </div>
 
+      {lateOrders.length > 0 && (
+        <div className="mb-6 flex flex-wrap items-center gap-2 rounded-lg border-2 border-red-500/60 bg-destructive/10 p-3 relative z-10">
+          <span className="flex items-center gap-2 font-bold text-red-500">
+            <AlertTriangle className="h-5 w-5" />
+            Late ({lateOrders.length})
+          </span>
+          {lateOrders.map(order => (
+            <Button
+              key={order.id}
+              size="sm"
+              variant="outline"
+              className="border-red-500/50 text-red-500 hover:text-red-500"
+              onClick={() => setSelectedId(order.id)}
+            >
+              {formatOrderNumber(order.orderNumber)} · {getOrderAgeMinutes(order, now)} min
+            </Button>
+          ))}
+        </div>
+      )}
+
       <div className="grid gap-8 lg:grid-cols-3 relative z-10">
         {/* Pending Orders */}
         <div className="space-y-4">
@@ -118,7 +579,7 @@ export function KitchenDashboard() {
                   order={order}
                   actions={
                     <Button 
-                      onClick={() => handleStatusUpdate(order.id, 'preparing')}
+                      onClick={() => handleStartPreparing(order)}
                       className="w-full font-bold neon-glow-primary hover:shadow-lg transition-all"
                     >
                       Start Preparing
@@ -148,12 +609,21 @@ export function KitchenDashboard() {
                   key={order.id}
                   order={order}
                   actions={
-                    <Button 
-                      onClick={() => handleStatusUpdate(order.id, 'ready')}
-                      className="w-full font-bold neon-glow-primary hover:shadow-lg transition-all"
-                    >
-                      Mark Ready
-                    </Button>
+                    <div className="space-y-2">
+                      {!station && getOrderStations(order, stations).length > 1 ? (
+                        <StationTicketButtons order={order} />
+                      ) : (
+                        <Button 
+                          onClick={() => station
+                            ? handleStationTicket(order, station, true)
+                            : handleStatusUpdate(order.id, 'ready')}
+                          className="w-full font-bold neon-glow-primary hover:shadow-lg transition-all"
+                        >
+                          {station ? `${station.name} Done` : 'Mark Ready'}
+                        </Button>
+                      )}
+                      <ReprintButton order={order} />
+                    </div>
                   }
                 />
               ))
@@ -165,37 +635,51 @@ export function KitchenDashboard() {
         <div className="space-y-4">
           <div className="flex items-center gap-3 mb-4 pb-3 border-b-2 border-primary/30">
             <CheckCircle className="h-6 w-6 text-success neon-glow" />
-            <h2 className="text-2xl font-bold text-foreground cyber-text">Ready ({readyOrders.length})</h2>
+            <h2 className="text-2xl font-bold text-foreground cyber-text">{station ? 'Done' : 'Ready'} ({readyOrders.length})</h2>
           </div>
           <div className="space-y-4">
             {readyOrders.length === 0 ? (
               <div className="tech-card corner-bracket p-8 text-center">
                 <CheckCircle className="h-12 w-12 mx-auto mb-3 text-muted-foreground opacity-50" />
-                <p className="text-muted-foreground text-lg">No orders ready</p>
+                <p className="text-muted-foreground text-lg">{station ? 'No tickets done' : 'No orders ready'}</p>
               </div>
             ) : (
               readyOrders.map((order) => (
                 <OrderCard
                   key={order.id}
                   order={order}
-                  actions={
+                  actions={station ? (
+                    <Button
+                      onClick={() => handleStationTicket(order, station, false)}
+                      className="w-full font-bold border-2 border-primary/50 hover:border-primary hover:bg-primary/5 transition-all"
+                      variant="outline"
+                      size="sm"
+                    >
+                      Reopen Ticket
+                    </Button>
+                  ) : (
                     <div className="space-y-2">
                       <Button 
-                        onClick={() => handleStatusUpdate(order.id, 'completed')}
+                        onClick={() => handleComplete(order)}
                         className="w-full font-bold neon-glow-primary hover:shadow-lg transition-all"
                       >
-                        Complete Order
-                      </Button>
-                      <Button 
-                        onClick={() => handleStatusUpdate(order.id, 'preparing')}
-                        className="w-full font-bold border-2 border-primary/50 hover:border-primary hover:bg-primary/5 transition-all"
-                        variant="outline"
-                        size="sm"
-                      >
-                        Back to Preparing
+                        {order.paymentStatus === 'paid' ? 'Complete Order' : 'Take Payment & Complete'}
                       </Button>
+                      {getOrderStations(order, stations).length > 1 ? (
+                        <StationTicketButtons order={order} />
+                      ) : (
+                        <Button 
+                          onClick={() => handleStatusUpdate(order.id, 'preparing')}
+                          className="w-full font-bold border-2 border-primary/50 hover:border-primary hover:bg-primary/5 transition-all"
+                          variant="outline"
+                          size="sm"
+                        >
+                          Back to Preparing
+                        </Button>
+                      )}
+                      <ReprintButton order={order} />
                     </div>
-                  }
+                  )}
                 />
               ))
             )}
@@ -203,6 +687,18 @@ export function KitchenDashboard() {
         </div>
       </div>
       </div>
+
+      <PaymentDialog
+        order={paymentTarget}
+        onClose={() => setPaymentTarget(null)}
+        onPaid={(paidOrder) => handleStatusUpdate(paidOrder.id, 'completed')}
+      />
+      <BumpBarSettings
+        open={keySettingsOpen}
+        keyMap={keyMap}
+        onSave={updateKeyMap}
+        onClose={() => setKeySettingsOpen(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useMenuStore } from '@/store/menuStore';
 import { useMenuData } from '@/hooks/useMenuData';
+import { useStockAvailability } from '@/hooks/useStockAvailability';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -13,6 +14,7 @@ import { Edit2, Search, Package, AlertTriangle, CheckCircle2 } from 'lucide-reac
 export function MenuInventory() {
   const { menuItems, menuCategories, loading } = useMenuData();
   const { updateMenuItem } = useMenuStore();
+  const { availability } = useStockAvailability();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedItem, setSelectedItem] = useState<any>(null);
   const [isEditOpen, setIsEditOpen] = useState(false);
@@ -25,6 +27,10 @@ export function MenuInventory() {
     return { label: 'In Stock', color: 'default', bgColor: 'bg-green-500/10', icon: CheckCircle2 };
   };
 
+  // Stock not held by an open cart; falls back to the raw quantity until availability loads
+  const getAvailable = (item: { id: string; quantity?: number }) =>
+    availability[item.id]?.available ?? (item.quantity || 0);
+
   const filteredItems = menuItems.filter(item =>
     item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     item.description.toLowerCase().includes(searchTerm.toLowerCase())
@@ -57,8 +63,8 @@ export function MenuInventory() {
     );
   }
 
-  const totalLowStock = menuItems.filter(i => (i.quantity || 0) > 0 && (i.quantity || 0) < 10).length;
-  const totalOutOfStock = menuItems.filter(i => (i.quantity || 0) === 0).length;
+  const totalLowStock = menuItems.filter(i => getAvailable(i) > 0 && getAvailable(i) < 10).length;
+  const totalOutOfStock = menuItems.filter(i => getAvailable(i) === 0).length;
 
   return (
     <div className="space-y-8 relative">
@@ -159,6 +165,8 @@ export function MenuInventory() {
               <TableHead className="font-ethnocentric text-primary font-bold">Category</TableHead>
               <TableHead className="font-ethnocentric text-primary font-bold">Price</TableHead>
               <TableHead className="text-right font-ethnocentric text-primary font-bold">Stock Qty</TableHead>
+              <TableHead className="text-right font-ethnocentric text-primary font-bold">Reserved</TableHead>
+              <TableHead className="text-right font-ethnocentric text-primary font-bold">Available</TableHead>
               <TableHead className="font-ethnocentric text-primary font-bold">Status</TableHead>
               <TableHead className="text-right font-ethnocentric text-primary font-bold">Actions</TableHead>
             </TableRow>
@@ -166,7 +174,7 @@ export function MenuInventory() {
           <TableBody>
             {filteredItems.length === 0 ? (
               <TableRow className="hover:bg-transparent border-primary/10">
-                <TableCell colSpan={6} className="text-center py-12">
+                <TableCell colSpan={8} className="text-center py-12">
                   <div className="space-y-2">
                     <Package className="h-8 w-8 text-muted-foreground/50 mx-auto" />
                     <p className="text-muted-foreground font-ethnocentric">No items found</p>
@@ -175,7 +183,8 @@ export function MenuInventory() {
               </TableRow>
             ) : (
               filteredItems.map((item, index) => {
-                const status = getStockStatus(item.quantity);
+                const status = getStockStatus(getAvailable(item));
+                const reserved = availability[item.id]?.reserved || 0;
                 const categoryName = menuCategories.find(c => c.id === item.category)?.name || item.category;
                 const StatusIcon = status.icon;
                 
@@ -195,6 +204,8 @@ export function MenuInventory() {
                     </TableCell>
                     <TableCell className="font-semibold">₱{item.price.toFixed(2)}</TableCell>
                     <TableCell className="text-right font-ethnocentric text-lg">{item.quantity || 0}</TableCell>
+                    <TableCell className={`text-right font-ethnocentric text-lg ${reserved > 0 ? 'text-yellow-600' : 'text-muted-foreground'}`}>{reserved}</TableCell>
+                    <TableCell className="text-right font-ethnocentric text-lg">{getAvailable(item)}</TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <StatusIcon className="w-4 h-4" />
@@ -1,5 +1,5 @@
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { LogOut, UserCog, Monitor, ChefHat, BarChart3, ShoppingCart } from 'lucide-react';
+import { LogOut, UserCog, Monitor, ChefHat, BarChart3, ShoppingCart, Footprints } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useOrderStore } from '@/store/orderStore';
@@ -14,6 +14,7 @@ export function Navigation() {
   
   const pendingCount = getPendingOrders().length;
   const preparingCount = orders.filter(o => o.status === 'preparing').length;
+  const readyCount = orders.filter(o => o.status === 'ready').length;
   
   // Admin navigation items (full access)
   const adminNavItems = [
@@ -29,6 +30,12 @@ export function Navigation() {
       label: 'Kitchen',
       badge: preparingCount > 0 ? preparingCount : null
     },
+    {
+      to: '/runner',
+      icon: Footprints,
+      label: 'Runner',
+      badge: readyCount > 0 ? readyCount : null
+    },
     {
       to: '/dashboard',
       icon: BarChart3,
@@ -57,6 +64,12 @@ export function Navigation() {
       label: 'Kitchen',
       badge: preparingCount > 0 ? preparingCount : null
     },
+    {
+      to: '/runner',
+      icon: Footprints,
+      label: 'Runner',
+      badge: readyCount > 0 ? readyCount : null
+    },
     {
       to: '/dashboard',
       icon: BarChart3,
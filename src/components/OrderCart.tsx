@@ -1,16 +1,28 @@
 import { useState, useEffect } from 'react';
-import { OrderItem } from '@/types';
+import { Order, OrderItem, StockShortage, TaxExemptionType } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Minus, Plus, X, ShoppingCart, CheckCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Minus, Plus, X, ShoppingCart, CheckCircle, AlertCircle, Tag, BadgePercent, Monitor, Loader } from 'lucide-react';
 import { useOrderStore } from '@/store/orderStore';
+import { useAuthStore } from '@/store/authStore';
+import { useCurrentPc } from '@/hooks/useCurrentPc';
+import { PC, useComputerShopDatabase } from '@/hooks/useComputerShopDatabase';
+import { extendReservations, RESERVATION_HEARTBEAT_INTERVAL } from '@/lib/stockReservations';
+import { InsufficientStockError } from '@/lib/inventoryStock';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { rememberPlacedOrder } from '@/lib/orderCancellation';
+import { priceLine } from '@/lib/pricing';
+import { TAX_EXEMPTION_LABELS, formatMoney, validateTaxExemption } from '@/lib/tax';
+import { OrderItemModifiers } from '@/components/OrderItemModifiers';
+import { TaxBreakdown } from '@/components/TaxBreakdown';
 
 interface OrderCartProps {
-  onOrderSuccess?: (orderNumber: number) => void;
+  onOrderSuccess?: (order: Order) => void;
 }
 
 export function OrderCart({ onOrderSuccess }: OrderCartProps) {
@@ -18,44 +30,151 @@ export function OrderCart({ onOrderSuccess }: OrderCartProps) {
     currentOrder, 
     removeFromOrder, 
     updateOrderItem, 
-    getCurrentOrderTotal, 
+    getCurrentOrderPricing, 
     submitOrder,
-    clearCurrentOrder 
+    clearCurrentOrder,
+    promoCode,
+    applyPromoCode,
+    clearPromoCode,
+    taxConfig,
+    taxExemption,
+    setTaxExemption,
+    reconcileReservations
   } = useOrderStore();
 
-  const total = getCurrentOrderTotal();
-  const [pcNumber, setPcNumber] = useState('');
+  const { isAdminAuthenticated } = useAuthStore();
+  const { currentPc, loading: loadingPc } = useCurrentPc();
+  const { getAllPCs } = useComputerShopDatabase();
+
+  const pricing = getCurrentOrderPricing();
+  const total = pricing.total;
+  // Customers order for the PC their device is registered to. Only admins may pick another one:
+  // submit_order checks the PC against the device, and a staff sign-in has no session it can verify
+  const canPickPc = isAdminAuthenticated;
+  const [pcs, setPcs] = useState<PC[]>([]);
+  const [pcOverrideId, setPcOverrideId] = useState('');
   const [showSuccess, setShowSuccess] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [shortages, setShortages] = useState<StockShortage[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [codeInput, setCodeInput] = useState('');
+  const [codeMessage, setCodeMessage] = useState('');
+  const [showExemptionForm, setShowExemptionForm] = useState(false);
+  const [exemptionForm, setExemptionForm] = useState({
+    type: 'senior' as TaxExemptionType,
+    idNumber: '',
+    name: '',
+    diners: '1',
+    exemptDiners: '1',
+  });
+  const [exemptionMessage, setExemptionMessage] = useState('');
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
+
+  useEffect(() => {
+    if (canPickPc) {
+      getAllPCs().then(setPcs);
+    }
+  }, [canPickPc, getAllPCs]);
+
+  // Keep the cart's stock holds alive while it is open; once the tab closes they expire.
+  // Lines added offline are held on the next beat, or as soon as the browser reconnects
+  useEffect(() => {
+    if (currentOrder.length === 0) return;
+
+    const heartbeat = () => {
+      extendReservations();
+      reconcileReservations();
+    };
+    const interval = setInterval(heartbeat, RESERVATION_HEARTBEAT_INTERVAL);
+    window.addEventListener('online', reconcileReservations);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', reconcileReservations);
+    };
+  }, [currentOrder.length, reconcileReservations]);
+
+  const showError = (error: unknown, fallbackMessage: string) => {
+    setErrorMessage(error instanceof Error ? error.message : fallbackMessage);
+    setShortages(error instanceof InsufficientStockError ? error.shortages : []);
+  };
+
+  const getShortage = (item: OrderItem) =>
+    shortages.find(shortage => shortage.menuItemId === item.menuItem.id);
 
-  const updateQuantity = (item: OrderItem, newQuantity: number) => {
+  const updateQuantity = async (item: OrderItem, newQuantity: number) => {
+    setErrorMessage('');
+    setShortages([]);
     if (newQuantity <= 0) {
       removeFromOrder(item.id);
-    } else {
-      updateOrderItem(item.id, newQuantity, item.customizations, item.notes, item.flavors);
+      return;
     }
+
+    try {
+      await updateOrderItem(item.id, newQuantity, item.modifiers, item.notes);
+    } catch (error) {
+      showError(error, 'Could not update quantity');
+    }
+  };
+
+  const handleApplyCode = () => {
+    if (!codeInput.trim()) return;
+    const problem = applyPromoCode(codeInput);
+    setCodeMessage(problem || '');
+    if (!problem) setCodeInput('');
   };
 
+  const handleRemoveCode = () => {
+    clearPromoCode();
+    setCodeMessage('');
+  };
+
+  const handleApplyExemption = () => {
+    const exemption = {
+      type: exemptionForm.type,
+      idNumber: exemptionForm.idNumber,
+      name: exemptionForm.name,
+      diners: parseInt(exemptionForm.diners),
+      exemptDiners: parseInt(exemptionForm.exemptDiners),
+    };
+    const problem = validateTaxExemption(exemption);
+    setExemptionMessage(problem || '');
+    if (problem) return;
+
+    setTaxExemption(exemption);
+    setShowExemptionForm(false);
+  };
+
+  const overridePc = canPickPc ? pcs.find(pc => pc.id.toString() === pcOverrideId) : undefined;
+  const orderPc = overridePc ? { id: overridePc.id, pcNumber: overridePc.pc_number } : currentPc;
+
   const handleSubmitOrder = async () => {
     if (currentOrder.length === 0) return;
-    if (!pcNumber.trim()) return;
+    if (!orderPc) return;
     
     setIsSubmitting(true);
+    setErrorMessage('');
+    setShortages([]);
     try {
-      const order = await submitOrder(undefined, `PC ${pcNumber.trim()}`);
-      setSuccessMessage(`Order #${order.orderNumber} submitted!`);
+      const order = await submitOrder(undefined, orderPc.pcNumber, orderPc.id);
+      rememberPlacedOrder(order.clientRequestId);
+      setSuccessMessage(order.orderNumber > 0
+        ? `Order ${formatOrderNumber(order.orderNumber)} submitted!`
+        : 'Order saved offline - it gets its number once the connection is back');
       setShowSuccess(true);
-      setPcNumber('');
+      setPcOverrideId('');
       
       // Call the callback to show success in parent component
       if (onOrderSuccess) {
-        onOrderSuccess(order.orderNumber);
+        onOrderSuccess(order);
       }
       
       setTimeout(() => {
         setShowSuccess(false);
       }, 3000);
+    } catch (error) {
+      // The order was not saved, so the cart is left intact for a retry
+      showError(error, 'Failed to submit order. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
@@ -97,188 +216,285 @@ export function OrderCart({ onOrderSuccess }: OrderCartProps) {
       </div>
 
       <CardContent className="flex-1 overflow-y-auto p-6 space-y-5">
-        {/* PC Number Input */}
+        {/* PC, from the device's registration */}
         <div className="tech-card p-5 border border-primary/30 space-y-3">
-          <Label htmlFor="pcNumber" className="text-sm font-semibold">PC Number</Label>
-          <Input
-            id="pcNumber"
-            type="number"
-            min="1"
-            value={pcNumber}
-            onChange={(e) => setPcNumber(e.target.value)}
-            placeholder="Enter PC number"
-            className="border-primary/50 focus:border-primary focus:ring-primary/30 font-bold text-center text-lg"
-          />
+          <Label className="text-sm font-semibold">PC</Label>
+          {canPickPc ? (
+            <>
+              <Select
+                value={pcOverrideId || currentPc?.id.toString() || ''}
+                onValueChange={setPcOverrideId}
+              >
+                <SelectTrigger className="border-primary/50 font-bold">
+                  <SelectValue placeholder="Choose the PC" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pcs.map(pc => (
+                    <SelectItem key={pc.id} value={pc.id.toString()}>{pc.pc_number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {currentPc && (
+                <p className="text-xs text-muted-foreground">This device: {currentPc.pcNumber}</p>
+              )}
+            </>
+          ) : loadingPc ? (
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader className="h-4 w-4 animate-spin" />
+              Finding your PC...
+            </div>
+          ) : currentPc ? (
+            <div className="flex items-center justify-center gap-2 font-bold text-lg text-primary">
+              <Monitor className="h-5 w-5" />
+              {currentPc.pcNumber}
+            </div>
+          ) : (
+            <p className="text-sm text-destructive">
+              This device is not registered to a PC. Please ask the staff to take your order.
+            </p>
+          )}
         </div>
 
         {/* Orders List */}
         <div className="space-y-3">
-          {currentOrder.map((item, idx) => (
-            <div 
-              key={item.id} 
-              className="flex flex-col gap-3 p-4 tech-card border border-primary/20 rounded-lg hover:border-primary/40 transition-colors"
-              style={{ animationDelay: `${idx * 50}ms` }}
-            >
-              <div className="flex items-start justify-between gap-3">
-                <div className="flex-1 min-w-0">
-                  <h4 className="font-bold text-base text-primary leading-tight">{item.menuItem.name}</h4>
-                  <p className="text-xs text-muted-foreground mt-1">Base: ₱{item.menuItem.price.toFixed(2)}</p>
+          {currentOrder.map((item, idx) => {
+            const shortage = getShortage(item);
+            return (
+              <div 
+                key={item.id} 
+                className={`flex flex-col gap-3 p-4 tech-card border rounded-lg transition-colors ${
+                  shortage ? 'border-destructive/60' : 'border-primary/20 hover:border-primary/40'
+                }`}
+                style={{ animationDelay: `${idx * 50}ms` }}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-bold text-base text-primary leading-tight">{item.menuItem.name}</h4>
+                    <p className="text-xs text-muted-foreground mt-1">Base: {money(item.menuItem.price)}</p>
+                    {shortage && (
+                      <p className="text-xs font-semibold text-destructive mt-1">
+                        {shortage.available > 0
+                          ? `Only ${shortage.available} left - reduce the quantity`
+                          : 'Out of stock - remove this item'}
+                      </p>
+                    )}
+                    
+                    {item.modifiers.length > 0 && (
+                      <OrderItemModifiers modifiers={item.modifiers} className="mt-3 pt-2 border-t border-primary/20" />
+                    )}
+                  </div>
                   
-                  {/* Flavor Display */}
-                  {item.flavors && item.flavors.length > 0 && (
-                    <div className="mt-3 pt-2 border-t border-primary/20">
-                      <div className="space-y-1">
-                        <p className="text-xs font-semibold text-primary/70">Flavor:</p>
-                        <div className="flex flex-wrap gap-2">
-                          {item.flavors.map((flavor, index) => (
-                              <div key={index} className="flex justify-between items-center text-xs bg-primary/5 px-2 py-1 rounded border border-primary/20">
-                              {flavor}
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Add-ons with individual prices */}
-                  {item.customizations.length > 0 && (
-                    <div className="mt-3 pt-2 border-t border-primary/20">
-                      <div className="space-y-2">
-                        <p className="text-xs font-semibold text-primary/70">Add-ons:</p>
+                  <div className="text-right">
+                    {(() => {
+                      const line = priceLine(item);
+                      
+                      return (
                         <div className="space-y-1">
-                          {item.customizations.map((custom, index) => {
-                            let displayText = custom;
-                            let price = 0;
-                            try {
-                              if (typeof custom === 'string' && custom.startsWith('{')) {
-                                const parsed = JSON.parse(custom);
-                                displayText = parsed.name || custom;
-                                price = parsed.price || 0;
-                              }
-                            } catch (e) {
-                              displayText = custom;
-                            }
-                            return (
-                              <div key={index} className="flex justify-between items-center text-xs bg-primary/5 px-2 py-1 rounded border border-primary/20">
-                                <span>{displayText}</span>
-                                {price > 0 && <span className="font-semibold">+₱{price.toFixed(2)}</span>}
-                              </div>
-                            );
-                          })}
+                       
+                          {line.modifiersUnitPrice === 0 && (
+                            <div className="text-sm font-bold text-primary neon-glow">
+                              {money(line.lineTotal)}
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-                
-                <div className="text-right">
-                  {(() => {
-                    const basePrice = item.menuItem.price * item.quantity;
-                    const customizationPrice = item.customizations.reduce((total, custom) => {
-                      try {
-                        if (typeof custom === 'string' && custom.startsWith('{')) {
-                          const parsed = JSON.parse(custom);
-                          return total + (parsed.price || 0);
-                        }
-                      } catch (e) {
-                        // If parsing fails, skip
-                      }
-                      return total;
-                    }, 0);
-                    const totalAddonsPrice = customizationPrice * item.quantity;
-                    const itemTotal = basePrice + totalAddonsPrice;
-                    
-                    return (
-                      <div className="space-y-1">
-                     
-                        {customizationPrice === 0 && (
-                          <div className="text-sm font-bold text-primary neon-glow">
-                            ₱{itemTotal.toFixed(2)}
-                          </div>
-                        )}
-                      </div>
-                    );
-                  })()}
+                      );
+                    })()}
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex items-center justify-between bg-primary/5 p-3 rounded border border-primary/30">
-                <span className="text-xs font-semibold text-muted-foreground">Qty:</span>
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => updateQuantity(item, item.quantity - 1)}
-                    className="h-8 w-8 p-0 border-primary/50 hover:border-primary hover:bg-primary/10"
-                  >
-                    <Minus className="h-4 w-4" />
-                  </Button>
-                  <span className="w-8 text-center text-base font-bold">{item.quantity}</span>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => updateQuantity(item, item.quantity + 1)}
-                    className="h-8 w-8 p-0 border-primary/50 hover:border-primary hover:bg-primary/10"
-                  >
-                    <Plus className="h-4 w-4" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeFromOrder(item.id)}
-                    className="h-8 w-8 p-0 ml-2 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
+                <div className="flex items-center justify-between bg-primary/5 p-3 rounded border border-primary/30">
+                  <span className="text-xs font-semibold text-muted-foreground">Qty:</span>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateQuantity(item, item.quantity - 1)}
+                      className="h-8 w-8 p-0 border-primary/50 hover:border-primary hover:bg-primary/10"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </Button>
+                    <span className="w-8 text-center text-base font-bold">{item.quantity}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateQuantity(item, item.quantity + 1)}
+                      className="h-8 w-8 p-0 border-primary/50 hover:border-primary hover:bg-primary/10"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeFromOrder(item.id)}
+                      className="h-8 w-8 p-0 ml-2 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </CardContent>
 
       {/* Footer with Total and Submit */}
       <div className="border-t border-primary/20 bg-gradient-to-t from-primary/5 to-transparent p-6 space-y-4 mt-auto">
+        {/* Promo Code */}
+        <div className="space-y-2">
+          {promoCode ? (
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 font-semibold text-accent">
+                <Tag className="h-4 w-4" />
+                {promoCode}
+                {!pricing.discounts.some(discount => discount.label.endsWith(`(${promoCode})`)) && (
+                  <span className="text-xs font-normal text-muted-foreground">(does not apply to this cart)</span>
+                )}
+              </span>
+              <Button variant="ghost" size="sm" onClick={handleRemoveCode} className="h-7 text-muted-foreground">
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Input
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleApplyCode()}
+                placeholder="Promo code"
+                className="border-primary/50 uppercase"
+              />
+              <Button variant="outline" onClick={handleApplyCode} disabled={!codeInput.trim()}>
+                Apply
+              </Button>
+            </div>
+          )}
+          {codeMessage && <p className="text-xs text-destructive">{codeMessage}</p>}
+        </div>
+
+        {/* Senior Citizen / PWD */}
+        <div className="space-y-2">
+          {taxExemption ? (
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 font-semibold text-accent">
+                <BadgePercent className="h-4 w-4" />
+                {TAX_EXEMPTION_LABELS[taxExemption.type]} · {taxExemption.idNumber}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => setTaxExemption(null)} className="h-7 text-muted-foreground">
+                Remove
+              </Button>
+            </div>
+          ) : showExemptionForm ? (
+            <div className="space-y-2 p-3 rounded border border-primary/30">
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={exemptionForm.type}
+                  onValueChange={(value) => setExemptionForm(prev => ({ ...prev, type: value as TaxExemptionType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TAX_EXEMPTION_LABELS) as TaxExemptionType[]).map(type => (
+                      <SelectItem key={type} value={type}>{TAX_EXEMPTION_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={exemptionForm.idNumber}
+                  onChange={(e) => setExemptionForm(prev => ({ ...prev, idNumber: e.target.value }))}
+                  placeholder="ID number"
+                />
+              </div>
+              <Input
+                value={exemptionForm.name}
+                onChange={(e) => setExemptionForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Name on the ID"
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="exemption-diners" className="text-xs">People sharing the order</Label>
+                  <Input
+                    id="exemption-diners"
+                    type="number"
+                    min="1"
+                    value={exemptionForm.diners}
+                    onChange={(e) => setExemptionForm(prev => ({ ...prev, diners: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="exemption-exempt-diners" className="text-xs">With an ID</Label>
+                  <Input
+                    id="exemption-exempt-diners"
+                    type="number"
+                    min="1"
+                    value={exemptionForm.exemptDiners}
+                    onChange={(e) => setExemptionForm(prev => ({ ...prev, exemptDiners: e.target.value }))}
+                  />
+                </div>
+              </div>
+              {exemptionMessage && <p className="text-xs text-destructive">{exemptionMessage}</p>}
+              <p className="text-xs text-muted-foreground">Show the ID to staff when you pay.</p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleApplyExemption} className="flex-1">
+                  Apply
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setShowExemptionForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowExemptionForm(true)}
+              className="h-7 px-0 gap-2 text-muted-foreground hover:text-primary"
+            >
+              <BadgePercent className="h-4 w-4" />
+              Senior citizen / PWD discount
+            </Button>
+          )}
+        </div>
+
         {/* Breakdown Summary */}
         <div className="tech-card p-4 bg-primary/5 border border-primary/30 space-y-2">
           <div className="flex justify-between items-center text-sm">
             <span className="text-muted-foreground">Subtotal (Items)</span>
-            <span className="font-semibold">₱{(() => {
-              const subtotal = currentOrder.reduce((total, item) => {
-                return total + (item.menuItem.price * item.quantity);
-              }, 0);
-              return subtotal.toFixed(2);
-            })()}</span>
+            <span className="font-semibold">{money(pricing.itemsSubtotal)}</span>
           </div>
           
-          {(() => {
-            const addonsTotal = currentOrder.reduce((total, item) => {
-              const customizationPrice = item.customizations.reduce((customTotal, custom) => {
-                try {
-                  if (typeof custom === 'string' && custom.startsWith('{')) {
-                    const parsed = JSON.parse(custom);
-                    return customTotal + (parsed.price || 0);
-                  }
-                } catch (e) {
-                  // If parsing fails, skip
-                }
-                return customTotal;
-              }, 0);
-              return total + (customizationPrice * item.quantity);
-            }, 0);
-            
-            return addonsTotal > 0 && (
-              <div className="flex justify-between items-center text-sm">
-                <span className="text-muted-foreground">Add-ons Total</span>
-                <span className="font-semibold text-accent">+₱{addonsTotal.toFixed(2)}</span>
-              </div>
-            );
-          })()}
+          {pricing.modifiersSubtotal > 0 && (
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-muted-foreground">Add-ons Total</span>
+              <span className="font-semibold text-accent">+{money(pricing.modifiersSubtotal)}</span>
+            </div>
+          )}
+
+          {pricing.discounts.map(discount => (
+            <div key={discount.label} className="flex justify-between items-center text-sm">
+              <span className="text-muted-foreground">{discount.label}</span>
+              <span className="font-semibold text-green-600">{money(-discount.amount)}</span>
+            </div>
+          ))}
+
+          <TaxBreakdown
+            currencySymbol={taxConfig.currencySymbol}
+            amounts={{
+              serviceCharge: pricing.serviceCharge,
+              vatRate: taxConfig.vatRate,
+              vatableSales: pricing.vatableSales,
+              vatAmount: pricing.tax,
+              vatExemptSales: pricing.vatExemptSales,
+              exemptionDiscount: pricing.exemptionDiscount,
+              taxExemption: taxExemption ?? undefined,
+            }}
+          />
           
           <div className="pt-2 border-t border-primary/30 flex justify-between items-center">
             <span className="text-base font-bold text-primary">Grand Total</span>
             <div className="text-2xl font-bold text-primary neon-glow">
-              ₱{total.toFixed(2)}
+              {money(total)}
             </div>
           </div>
         </div>
@@ -289,12 +505,19 @@ export function OrderCart({ onOrderSuccess }: OrderCartProps) {
             <span className="text-sm text-green-800">{successMessage}</span>
           </div>
         )}
+
+        {errorMessage && (
+          <div className="tech-card p-3 bg-red-50 border border-red-300 flex items-center gap-2">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <span className="text-sm text-red-800">{errorMessage}</span>
+          </div>
+        )}
         
         <Button 
           onClick={handleSubmitOrder} 
           className="w-full font-bold neon-glow-primary hover:shadow-lg transition-all duration-300 gap-2"
           size="lg"
-          disabled={currentOrder.length === 0 || !pcNumber.trim() || isSubmitting}
+          disabled={currentOrder.length === 0 || !orderPc || isSubmitting}
         >
           {isSubmitting ? (
             <>
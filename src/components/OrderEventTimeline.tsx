@@ -0,0 +1,53 @@
+import { Loader } from 'lucide-react';
+import { Order } from '@/types';
+import { useOrderEvents } from '@/hooks/useOrderEvents';
+import { getOrderStages } from '@/lib/orderEvents';
+import { ORDER_STATUS_LABELS } from '@/lib/orderTracking';
+import { isCancelledStatus } from '@/lib/orderCancellation';
+
+const formatDuration = (minutes: number) => {
+  if (minutes < 1) return `${Math.round(minutes * 60)}s`;
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+};
+
+/**
+ * Every status the order went through: when, who moved it and from which device,
+ * and how long it stayed there
+ */
+export function OrderEventTimeline({ order }: { order: Order }) {
+  const { events, loading } = useOrderEvents(order.id, order.status);
+  const stages = getOrderStages(events);
+  const finished = order.status === 'completed' || isCancelledStatus(order.status);
+
+  if (loading && events.length === 0) {
+    return <Loader className="h-4 w-4 animate-spin text-primary" />;
+  }
+  if (events.length === 0) {
+    return <p className="text-xs text-muted-foreground">No status history recorded</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {stages.map(({ event, minutes }, index) => {
+        const current = index === stages.length - 1;
+        return (
+          <li key={event.id} className="flex items-start gap-3 text-xs">
+            <div className={`mt-1 h-2 w-2 rounded-full flex-shrink-0 ${isCancelledStatus(event.toStatus) ? 'bg-destructive' : 'bg-primary'}`} />
+            <div className="flex-1">
+              <div className="flex justify-between gap-2">
+                <span className="font-semibold">{ORDER_STATUS_LABELS[event.toStatus]}</span>
+                <span className="text-muted-foreground">{event.createdAt.toLocaleString()}</span>
+              </div>
+              <div className="text-muted-foreground">
+                {event.changedBy ?? (event.fromStatus ? 'Unknown' : 'Placed')}
+                {event.device && ` · ${event.device}`}
+                {!(current && finished) && ` · ${current ? 'for' : 'took'} ${formatDuration(minutes)}`}
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,30 @@
+import { OrderItemModifier } from '@/types';
+import { formatModifier, groupModifiers } from '@/lib/modifiers';
+import { useOrderStore } from '@/store/orderStore';
+
+interface OrderItemModifiersProps {
+  modifiers: OrderItemModifier[];
+  showPrices?: boolean;
+  className?: string;
+}
+
+/**
+ * Chosen modifiers of an order item, one line per group ("Add-ons: 2x Cheese (+₱40.00), Egg")
+ */
+export function OrderItemModifiers({ modifiers, showPrices = true, className = '' }: OrderItemModifiersProps) {
+  const currencySymbol = useOrderStore(state => state.taxConfig.currencySymbol);
+  if (modifiers.length === 0) return null;
+
+  return (
+    <div className={`space-y-0.5 ${className}`}>
+      {groupModifiers(modifiers).map((group) => (
+        <div key={group.groupId} className="text-xs">
+          <span className="font-semibold text-primary/70">{group.groupName}:</span>{' '}
+          <span className="text-muted-foreground">
+            {group.modifiers.map((m) => formatModifier(m, showPrices, currencySymbol)).join(', ')}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
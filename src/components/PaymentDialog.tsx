@@ -0,0 +1,277 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader, AlertCircle } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useAuthStore } from '@/store/authStore';
+import { staffSessionManager } from '@/lib/sessionManager';
+import { Order, PaymentMethod } from '@/types';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { PAYMENT_METHOD_LABELS, getBalanceDue, getChange, getItemsShare, getPaidItemIds, validatePayment } from '@/lib/payments';
+import { priceLine } from '@/lib/pricing';
+import { formatMoney } from '@/lib/tax';
+import { PaymentStatusBadge } from '@/components/PaymentStatusBadge';
+
+interface PaymentDialogProps {
+  order: Order | null;
+  onClose: () => void;
+  onPaid?: (order: Order) => void; // called once the order is fully paid
+}
+
+/**
+ * Take a payment for an order: cash with change, e-wallet with its reference, or a charge to a PC account.
+ * The bill can be split between several payers, each paying for the items they pick
+ */
+export function PaymentDialog({ order, onClose, onPaid }: PaymentDialogProps) {
+  const { recordPayment, taxConfig } = useOrderStore();
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
+  const { user } = useAuthStore();
+  // Follow the store so a partial payment shows up while the dialog stays open
+  const liveOrder = useOrderStore(state => state.orders.find(o => o.id === order?.id)) ?? order;
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [amount, setAmount] = useState('');
+  const [tendered, setTendered] = useState('');
+  const [reference, setReference] = useState('');
+  const [payer, setPayer] = useState('');
+  const [splitByItems, setSplitByItems] = useState(false);
+  const [splitItemIds, setSplitItemIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const orderId = order?.id;
+  const balanceDue = liveOrder ? getBalanceDue(liveOrder) : 0;
+
+  // Start every payment from the balance that is still due
+  useEffect(() => {
+    if (!orderId) return;
+    setMethod('cash');
+    setAmount(balanceDue.toFixed(2));
+    setTendered('');
+    setReference('');
+    setPayer('');
+    setSplitByItems(false);
+    setSplitItemIds([]);
+    setErrorMessage('');
+  }, [orderId, balanceDue]);
+
+  if (!liveOrder) return null;
+
+  const amountValue = parseFloat(amount);
+  const change = method === 'cash' ? getChange(amountValue, parseFloat(tendered)) : null;
+  const paidItemIds = getPaidItemIds(liveOrder);
+
+  const handleSplitToggle = (checked: boolean) => {
+    setSplitByItems(checked);
+    setSplitItemIds([]);
+    setAmount(checked ? '0.00' : balanceDue.toFixed(2));
+  };
+
+  const handleSplitItemToggle = (itemId: string, checked: boolean) => {
+    const itemIds = checked ? [...splitItemIds, itemId] : splitItemIds.filter(id => id !== itemId);
+    setSplitItemIds(itemIds);
+    setAmount(getItemsShare(liveOrder, itemIds).toFixed(2));
+  };
+
+  const handleMethodChange = (value: PaymentMethod) => {
+    setMethod(value);
+    setErrorMessage('');
+    // Charging the PC the order came from is the usual case
+    setReference(value === 'pc_account' ? liveOrder.terminal : '');
+  };
+
+  const handleSubmit = async () => {
+    const payment = {
+      method,
+      amount: amountValue,
+      amountTendered: parseFloat(tendered),
+      reference,
+      receivedBy: user?.email || staffSessionManager.getSession()?.email || 'Staff',
+      payer,
+      itemIds: splitByItems ? splitItemIds : [],
+    };
+    const problem = validatePayment(payment, balanceDue, taxConfig.currencySymbol);
+    if (problem) {
+      setErrorMessage(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      const paidOrder = await recordPayment(liveOrder.id, payment);
+      if (paidOrder.paymentStatus === 'paid') {
+        onPaid?.(paidOrder);
+        onClose();
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="tech-card">
+        <DialogHeader>
+          <DialogTitle className="neon-glow">Payment for Order {formatOrderNumber(liveOrder.orderNumber)}</DialogTitle>
+          <DialogDescription>
+            {onPaid ? 'The order is completed once it is fully paid.' : 'Record a full or partial payment.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-2 rounded-lg bg-primary/5 tech-card">
+              <p className="text-xs text-muted-foreground">Total</p>
+              <p className="font-bold">{money(liveOrder.total)}</p>
+            </div>
+            <div className="p-2 rounded-lg bg-primary/5 tech-card">
+              <p className="text-xs text-muted-foreground">Paid</p>
+              <p className="font-bold">{money(liveOrder.amountPaid)}</p>
+            </div>
+            <div className="p-2 rounded-lg bg-primary/5 tech-card">
+              <p className="text-xs text-muted-foreground">Balance due</p>
+              <p className="font-bold text-primary">{money(balanceDue)}</p>
+            </div>
+          </div>
+          <PaymentStatusBadge status={liveOrder.paymentStatus} />
+
+          {liveOrder.payments.length > 0 && (
+            <div className="space-y-1">
+              {liveOrder.payments.map(payment => (
+                <div key={payment.id} className="flex justify-between text-xs text-muted-foreground">
+                  <span>{payment.payer || PAYMENT_METHOD_LABELS[payment.method]}</span>
+                  <span>{money(payment.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="split-by-items"
+              checked={splitByItems}
+              onCheckedChange={(checked) => handleSplitToggle(checked === true)}
+            />
+            <Label htmlFor="split-by-items">Split the bill - this payer pays for some items</Label>
+          </div>
+
+          {splitByItems && (
+            <div className="space-y-2 p-3 rounded-lg bg-muted/30 tech-card">
+              {liveOrder.items.map(item => {
+                const alreadyPaid = paidItemIds.has(item.id);
+                return (
+                  <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`split-item-${item.id}`}
+                        checked={alreadyPaid || splitItemIds.includes(item.id)}
+                        disabled={alreadyPaid}
+                        onCheckedChange={(checked) => handleSplitItemToggle(item.id, checked === true)}
+                      />
+                      <Label htmlFor={`split-item-${item.id}`} className={alreadyPaid ? 'line-through text-muted-foreground' : ''}>
+                        {item.quantity}x {item.menuItem.name}
+                      </Label>
+                    </div>
+                    <span className="text-muted-foreground">{money(priceLine(item).lineTotal)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-payer">Payer (optional)</Label>
+            <Input
+              id="payment-payer"
+              value={payer}
+              onChange={(e) => setPayer(e.target.value)}
+              placeholder="e.g. PC 12 or a name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={(value) => handleMethodChange(value as PaymentMethod)}>
+              <SelectTrigger className="tech-card">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(key => (
+                  <SelectItem key={key} value={key}>{PAYMENT_METHOD_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-amount">Amount</Label>
+            <Input
+              id="payment-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              readOnly={splitByItems}
+            />
+          </div>
+
+          {method === 'cash' && (
+            <div className="space-y-2">
+              <Label htmlFor="payment-tendered">Cash tendered</Label>
+              <Input
+                id="payment-tendered"
+                type="number"
+                min="0"
+                step="0.01"
+                value={tendered}
+                onChange={(e) => setTendered(e.target.value)}
+                placeholder="Amount handed over"
+              />
+              <p className="text-sm">
+                Change: <span className="font-bold text-primary">{change !== null ? money(change) : '—'}</span>
+              </p>
+            </div>
+          )}
+
+          {method !== 'cash' && (
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">
+                {method === 'ewallet' ? 'Reference number' : 'PC account'}
+              </Label>
+              <Input
+                id="payment-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder={method === 'ewallet' ? 'e.g. GCash reference no.' : 'e.g. PC 12'}
+              />
+            </div>
+          )}
+
+          {errorMessage && (
+            <div className="p-3 rounded border border-destructive/50 bg-destructive/10 flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 text-destructive" />
+              <span className="text-sm text-destructive">{errorMessage}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Back
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving || balanceDue === 0} className="gap-2">
+            {isSaving && <Loader className="h-4 w-4 animate-spin" />}
+            {onPaid && amountValue >= balanceDue ? 'Record Payment & Complete' : 'Record Payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
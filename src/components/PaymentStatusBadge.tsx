@@ -0,0 +1,20 @@
+import { Badge } from '@/components/ui/badge';
+import { PaymentStatus } from '@/types';
+import { PAYMENT_STATUS_LABELS } from '@/lib/payments';
+
+const statusClasses: Record<PaymentStatus, string> = {
+  unpaid: 'border-destructive/50 text-destructive',
+  partial: 'border-yellow-500/50 text-yellow-500',
+  paid: 'border-green-500/50 text-green-500',
+};
+
+/**
+ * Paid / partially paid / unpaid state of an order
+ */
+export function PaymentStatusBadge({ status, className = '' }: { status: PaymentStatus; className?: string }) {
+  return (
+    <Badge variant="outline" className={`w-fit ${statusClasses[status]} ${className}`}>
+      {PAYMENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Receipt, Ban, Loader, AlertCircle, Printer, MapPin } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useLiveOrders } from '@/hooks/useLiveOrders';
+import { Order } from '@/types';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { CUSTOMER_CANCEL_REASONS, getPlacedOrdersToday, isCancelledStatus } from '@/lib/orderCancellation';
+import { ORDER_STATUS_LABELS, getTrackingPath } from '@/lib/orderTracking';
+import { ReceiptDialog } from '@/components/ReceiptDialog';
+import { ReadyAlertSettings } from '@/components/ReadyAlertSettings';
+
+/**
+ * Orders placed from this device today, with a cancel option while the kitchen has not started
+ */
+export function PlacedOrders() {
+  const { orders, cancelOrder } = useOrderStore();
+  const [cancelTarget, setCancelTarget] = useState<Order | null>(null);
+  const [reason, setReason] = useState(CUSTOMER_CANCEL_REASONS[0]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [receiptOrder, setReceiptOrder] = useState<Order | null>(null);
+
+  const placedOrders = getPlacedOrdersToday(orders);
+
+  // Keep the statuses fresh while the customer is on the menu
+  useLiveOrders(placedOrders.length > 0);
+
+  if (placedOrders.length === 0) return null;
+
+  const openCancelDialog = (order: Order) => {
+    setCancelTarget(order);
+    setReason(CUSTOMER_CANCEL_REASONS[0]);
+    setErrorMessage('');
+  };
+
+  const handleCancel = async () => {
+    if (!cancelTarget) return;
+
+    setIsCancelling(true);
+    setErrorMessage('');
+    try {
+      await cancelOrder(cancelTarget.id, 'cancelled', reason, `Customer (${cancelTarget.terminal})`);
+      setCancelTarget(null);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to cancel order');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border-t border-primary/20 space-y-3">
+      <h3 className="text-sm font-bold text-primary neon-glow flex items-center gap-2">
+        <Receipt className="h-4 w-4" />
+        Your Orders
+      </h3>
+      <ReadyAlertSettings />
+      {placedOrders.map(order => (
+        <div key={order.id} className="flex items-center justify-between gap-2 text-sm">
+          <div>
+            <span className="font-bold">{formatOrderNumber(order.orderNumber)}</span>
+            <Badge
+              variant="outline"
+              className={`ml-2 ${isCancelledStatus(order.status) ? 'border-destructive/50 text-destructive' : ''}`}
+            >
+              {ORDER_STATUS_LABELS[order.status]}
+            </Badge>
+          </div>
+          <div className="flex items-center">
+            {order.orderNumber > 0 && (
+              <Button asChild variant="ghost" size="sm" className="gap-1 h-7 px-2">
+                <Link to={getTrackingPath(order.id)}>
+                  <MapPin className="h-3 w-3" />
+                  Track
+                </Link>
+              </Button>
+            )}
+            {order.orderNumber > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setReceiptOrder(order)}
+                className="gap-1 h-7 px-2"
+              >
+                <Printer className="h-3 w-3" />
+                Receipt
+              </Button>
+            )}
+            {order.status === 'pending' && order.orderNumber > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => openCancelDialog(order)}
+                className="gap-1 text-destructive hover:text-destructive h-7 px-2"
+              >
+                <Ban className="h-3 w-3" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <ReceiptDialog order={receiptOrder} onClose={() => setReceiptOrder(null)} reprint />
+
+      <Dialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+        <DialogContent className="tech-card corner-bracket border-2 border-primary/50">
+          <DialogHeader>
+            <DialogTitle className="cyber-text neon-glow">
+              Cancel Order {cancelTarget && formatOrderNumber(cancelTarget.orderNumber)}?
+            </DialogTitle>
+            <DialogDescription>
+              You can cancel until the kitchen starts preparing your order.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUSTOMER_CANCEL_REASONS.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {errorMessage && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/30 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{errorMessage}</span>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelTarget(null)} disabled={isCancelling}>
+              Keep Order
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={isCancelling} className="gap-2">
+              {isCancelling && <Loader className="h-4 w-4 animate-spin" />}
+              Cancel Order
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,10 +3,11 @@ import { useAuthStore } from '@/store/authStore';
 
 interface ProtectedRouteProps {
   element: React.ReactElement;
+  allowStaff?: boolean; // signed-in staff may open it too, not only admins
 }
 
-export function ProtectedRoute({ element }: ProtectedRouteProps) {
-  const { isAdminAuthenticated, isLoading } = useAuthStore();
+export function ProtectedRoute({ element, allowStaff = false }: ProtectedRouteProps) {
+  const { isAdminAuthenticated, isStaffAuthenticated, isLoading } = useAuthStore();
 
   if (isLoading) {
     return (  
@@ -19,7 +20,7 @@ export function ProtectedRoute({ element }: ProtectedRouteProps) {
     );
   }
 
-  if (!isAdminAuthenticated) {
+  if (!isAdminAuthenticated && !(allowStaff && isStaffAuthenticated)) {
     return <Navigate to="/" replace />;
   }
 
@@ -1,8 +1,12 @@
-import { Order } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Clock, CheckCircle, AlertCircle, Coffee } from 'lucide-react';
+import { Clock, CheckCircle, AlertCircle, Coffee, Footprints } from 'lucide-react';
 import { useOrderStore } from '@/store/orderStore';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { formatModifier } from '@/lib/modifiers';
+import { priceLine } from '@/lib/pricing';
+import { formatMoney } from '@/lib/tax';
+import { useWaitEstimates } from '@/hooks/useWaitEstimates';
 import { useEffect } from 'react';
 
 const statusConfig = {
@@ -24,6 +28,18 @@ const statusConfig = {
     color: 'bg-ready text-success-foreground',
     description: 'Your order is ready! Please collect it'
   },
+  out_for_delivery: {
+    label: 'On the Way',
+    icon: Footprints,
+    color: 'bg-ready text-success-foreground',
+    description: 'A runner is bringing your order to your PC'
+  },
+  delivered: {
+    label: 'Delivered',
+    icon: CheckCircle,
+    color: 'bg-completed text-white',
+    description: 'Your order was delivered to your PC'
+  },
   completed: {
     label: 'Completed',
     icon: CheckCircle,
@@ -33,7 +49,9 @@ const statusConfig = {
 };
 
 export function QueueDisplay() {
-  const { getPendingOrders, loadOrdersFromDatabase } = useOrderStore();
+  const { getPendingOrders, loadOrdersFromDatabase, taxConfig } = useOrderStore();
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
+  const { estimateMinutes } = useWaitEstimates();
   
     useEffect(() => {
       loadOrdersFromDatabase();
@@ -44,12 +62,6 @@ export function QueueDisplay() {
 
   const pendingOrders = getPendingOrders();
 
-  const getEstimatedTime = (order: Order, index: number) => {
-    const baseTime = 10; // 10 minutes base
-    const additionalTime = index * 5; // 5 minutes per order ahead
-    return baseTime + additionalTime;
-  };
-
   if (pendingOrders.length === 0) {
     return (
       <div className="tech-card corner-bracket edge-pulse h-full">
@@ -80,10 +92,10 @@ export function QueueDisplay() {
       </CardHeader>
       <CardContent className="pb-6">
         <div className="space-y-5 max-h-96 overflow-y-auto">
-          {pendingOrders.map((order, index) => {
+          {pendingOrders.map((order) => {
             const config = statusConfig[order.status];
             const StatusIcon = config.icon;
-            const estimatedTime = getEstimatedTime(order, index);
+            const estimatedTime = estimateMinutes(order);
             
             return (
               <div key={order.id} className="border-2 border-primary/30 rounded-lg p-5 bg-card/50 backdrop-blur-sm relative">
@@ -91,7 +103,7 @@ export function QueueDisplay() {
                 <div className="relative z-10 flex items-center justify-between mb-4">
                   <div className="flex items-center gap-4">
                     <div className="text-2xl font-bold text-primary neon-glow">
-                      #{order.orderNumber}
+                      {formatOrderNumber(order.orderNumber)}
                     </div>
                     <div>
                       <Badge className="neon-glow-primary border-primary/50">
@@ -106,10 +118,12 @@ export function QueueDisplay() {
                     </div>
                   </div>
                   <div className="text-right">
-                    <div className="text-sm font-bold text-primary neon-glow">₱{order.total.toFixed(2)}</div>
-                    <div className="text-xs text-muted-foreground font-semibold mt-1">
-                      ~{estimatedTime} min
-                    </div>
+                    <div className="text-sm font-bold text-primary neon-glow">{money(order.total)}</div>
+                    {estimatedTime !== null && (
+                      <div className="text-xs text-muted-foreground font-semibold mt-1">
+                        ~{estimatedTime} min
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -118,34 +132,14 @@ export function QueueDisplay() {
                     <div key={item.id} className="flex justify-between text-sm">
                       <span>
                         {item.quantity}x {item.menuItem.name}
-                        {item.customizations.length > 0 && (
+                        {item.modifiers.length > 0 && (
                           <span className="text-muted-foreground ml-2">
-                            ({item.customizations.map(c => {
-                              try {
-                                return typeof c === 'string' && c.startsWith('{') ? JSON.parse(c).name : c;
-                              } catch (e) {
-                                return c;
-                              }
-                            }).join(', ')})
+                            ({item.modifiers.map(m => formatModifier(m, false)).join(', ')})
                           </span>
                         )}
                       </span>
                       <span className="font-semibold text-primary neon-glow">
-                        ₱{(() => {
-                          const basePrice = item.menuItem.price * item.quantity;
-                          const customizationPrice = item.customizations.reduce((total, custom) => {
-                            try {
-                              if (typeof custom === 'string' && custom.startsWith('{')) {
-                                const parsed = JSON.parse(custom);
-                                return total + (parsed.price || 0);
-                              }
-                            } catch (e) {
-                              // If parsing fails, skip
-                            }
-                            return total;
-                          }, 0);
-                          return (basePrice + (customizationPrice * item.quantity)).toFixed(2);
-                        })()}
+                        {money(priceLine(item).lineTotal)}
                       </span>
                     </div>
                   ))}
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Volume2 } from 'lucide-react';
+import {
+  CHIME_LABELS,
+  ChimeId,
+  ReadyAlertPrefs,
+  getReadyAlertPrefs,
+  notificationsSupported,
+  playChime,
+  saveReadyAlertPrefs,
+  unlockChime,
+} from '@/lib/readyAlerts';
+
+/**
+ * Per-device opt-in for the desktop notification and chime when an order is ready
+ */
+export function ReadyAlertSettings() {
+  const [prefs, setPrefs] = useState<ReadyAlertPrefs>(getReadyAlertPrefs);
+  const [permission, setPermission] = useState(notificationsSupported() ? Notification.permission : 'denied');
+
+  const updatePrefs = (next: ReadyAlertPrefs) => {
+    setPrefs(next);
+    saveReadyAlertPrefs(next);
+  };
+
+  const handleToggle = async (enabled: boolean) => {
+    updatePrefs({ ...prefs, enabled });
+    if (!enabled) return;
+
+    // Both need the click that turned alerts on
+    unlockChime();
+    if (notificationsSupported() && Notification.permission === 'default') {
+      setPermission(await Notification.requestPermission());
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="ready-alerts" className="text-xs">Alert me when my order is ready</Label>
+        <Switch id="ready-alerts" checked={prefs.enabled} onCheckedChange={handleToggle} />
+      </div>
+      {prefs.enabled && (
+        <>
+          <div className="flex items-center gap-2">
+            <Select value={prefs.chime} onValueChange={(value) => updatePrefs({ ...prefs, chime: value as ChimeId })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CHIME_LABELS) as ChimeId[]).map(chime => (
+                  <SelectItem key={chime} value={chime}>{CHIME_LABELS[chime]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => playChime(prefs.chime)} className="h-8 gap-1">
+              <Volume2 className="h-3 w-3" />
+              Test
+            </Button>
+          </div>
+          {permission !== 'granted' && (
+            <p className="text-xs text-muted-foreground">
+              Desktop notifications are blocked in this browser; you still get the chime and the banner.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
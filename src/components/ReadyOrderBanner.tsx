@@ -0,0 +1,35 @@
+import { Button } from '@/components/ui/button';
+import { Bell, Check } from 'lucide-react';
+import { useReadyAlerts } from '@/hooks/useReadyAlerts';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+
+/**
+ * Banner on every page for this device's orders that are ready, until the customer
+ * confirms they picked them up
+ */
+export function ReadyOrderBanner() {
+  const { readyOrders, acknowledge } = useReadyAlerts();
+
+  if (readyOrders.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-md px-4 space-y-2 animate-in slide-in-from-top-4 duration-300">
+      {readyOrders.map(order => (
+        <div
+          key={order.id}
+          className="tech-card corner-bracket p-4 bg-gradient-to-r from-primary/30 to-accent/20 border-2 border-primary flex items-center gap-3 shadow-2xl"
+        >
+          <Bell className="h-6 w-6 text-primary neon-glow animate-pulse flex-shrink-0" />
+          <div className="flex-1">
+            <div className="font-bold text-primary neon-glow">Order {formatOrderNumber(order.orderNumber)} is ready!</div>
+            <div className="text-xs text-muted-foreground">Please collect it at the counter.</div>
+          </div>
+          <Button size="sm" onClick={() => acknowledge(order.id)} className="gap-1 font-bold">
+            <Check className="h-4 w-4" />
+            Picked up
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Printer, Download } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { Order } from '@/types';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import {
+  PaperWidth,
+  RECEIPT_CONFIG_KEY,
+  buildReceiptLines,
+  downloadEscPos,
+  parseReceiptConfig,
+  printReceiptHtml,
+  renderReceiptEscPos,
+  renderReceiptHtml,
+} from '@/lib/receipts';
+
+interface ReceiptDialogProps {
+  order: Order | null;
+  onClose: () => void;
+  reprint?: boolean; // marks the printout as a copy
+}
+
+/**
+ * Receipt preview with printing through the browser or as an ESC/POS file for a thermal printer
+ */
+export function ReceiptDialog({ order, onClose, reprint = false }: ReceiptDialogProps) {
+  const { taxConfig } = useOrderStore();
+  const { settings } = useAppSettings();
+  // Follow the store so payments taken meanwhile are on the receipt
+  const liveOrder = useOrderStore(state => state.orders.find(o => o.id === order?.id)) ?? order;
+  const storedConfig = settings[RECEIPT_CONFIG_KEY];
+  const config = useMemo(() => parseReceiptConfig(storedConfig), [storedConfig]);
+  const [paperWidth, setPaperWidth] = useState<PaperWidth>(config.paperWidth);
+
+  // Start from the shop's paper width once the settings have loaded
+  useEffect(() => {
+    setPaperWidth(config.paperWidth);
+  }, [config.paperWidth]);
+
+  const lines = useMemo(
+    () => liveOrder ? buildReceiptLines(liveOrder, { config, taxConfig, reprint }) : [],
+    [liveOrder, config, taxConfig, reprint]
+  );
+
+  if (!liveOrder) return null;
+
+  const html = renderReceiptHtml(lines, paperWidth);
+  const fileName = `receipt-${liveOrder.orderNumber || liveOrder.id}.bin`;
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="tech-card max-w-md">
+        <DialogHeader>
+          <DialogTitle className="neon-glow">Receipt for Order {formatOrderNumber(liveOrder.orderNumber)}</DialogTitle>
+          <DialogDescription>
+            Print it from the browser, or save the ESC/POS file for a thermal printer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Label>Paper</Label>
+            <Select value={paperWidth} onValueChange={(value) => setPaperWidth(value as PaperWidth)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="58mm">58 mm</SelectItem>
+                <SelectItem value="80mm">80 mm</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-center bg-muted/30 rounded-lg p-3 max-h-[55vh] overflow-y-auto">
+            <iframe
+              title="Receipt preview"
+              srcDoc={html}
+              className="bg-white shadow"
+              style={{ width: paperWidth === '58mm' ? 220 : 302, height: 600, border: 0 }}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button variant="outline" onClick={() => downloadEscPos(renderReceiptEscPos(lines, paperWidth), fileName)} className="gap-2">
+            <Download className="h-4 w-4" />
+            ESC/POS
+          </Button>
+          <Button onClick={() => printReceiptHtml(html)} className="gap-2">
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,273 @@
+import { useMemo, useState } from 'react';
+import { DeliveryAction, Order } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Footprints, MapPin, Undo2, Users } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useAuthStore } from '@/store/authStore';
+import { staffSessionManager } from '@/lib/sessionManager';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { PaymentDialog } from '@/components/PaymentDialog';
+import { PaymentStatusBadge } from '@/components/PaymentStatusBadge';
+import { useToast } from '@/hooks/use-toast';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { useLiveOrders } from '@/hooks/useLiveOrders';
+import { DELIVERY_ZONES_KEY, parseDeliveryZones, planDeliveryRoute } from '@/lib/deliveries';
+
+const minutesSince = (date?: Date) => date ? Math.max(0, Math.floor((Date.now() - date.getTime()) / 60000)) : null;
+
+/**
+ * Floor staff view: ready orders to walk to the PCs grouped by zone in route order,
+ * the runner's own deliveries, and delivered orders still to be paid and completed
+ */
+export function RunnerDashboard() {
+  const { orders, updateDelivery, updateOrderStatus } = useOrderStore();
+  const { user } = useAuthStore();
+  const { toast } = useToast();
+  const { settings } = useAppSettings();
+  const [paymentTarget, setPaymentTarget] = useState<Order | null>(null);
+  const [busyOrderIds, setBusyOrderIds] = useState<string[]>([]);
+  const storedZones = settings[DELIVERY_ZONES_KEY];
+  const zones = useMemo(() => parseDeliveryZones(storedZones), [storedZones]);
+  useLiveOrders();
+
+  const runner = user?.email || staffSessionManager.getSession()?.email || 'Staff';
+
+  const readyGroups = planDeliveryRoute(orders.filter(order => order.status === 'ready'), zones);
+  const outForDelivery = orders.filter(order => order.status === 'out_for_delivery');
+  const myGroups = planDeliveryRoute(outForDelivery.filter(order => order.deliveryClaimedBy === runner), zones);
+  const othersDeliveries = outForDelivery.filter(order => order.deliveryClaimedBy !== runner);
+  const deliveredOrders = orders.filter(order => order.status === 'delivered');
+
+  const handleDelivery = async (ordersToUpdate: Order[], action: DeliveryAction) => {
+    const ids = ordersToUpdate.map(order => order.id);
+    setBusyOrderIds(current => [...current, ...ids]);
+    // One at a time, so a claim another runner won still lets the rest through
+    for (const order of ordersToUpdate) {
+      try {
+        await updateDelivery(order.id, action, runner);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : 'Failed to update the delivery',
+          variant: "destructive"
+        });
+      }
+    }
+    setBusyOrderIds(current => current.filter(id => !ids.includes(id)));
+  };
+
+  const markCompleted = async (orderId: string) => {
+    try {
+      await updateOrderStatus(orderId, 'completed');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update order',
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Orders that are not paid yet go through the payment dialog first
+  const handleComplete = (order: Order) => {
+    if (order.paymentStatus === 'paid') {
+      markCompleted(order.id);
+    } else {
+      setPaymentTarget(order);
+    }
+  };
+
+  const DeliveryCard = ({ order, stop, actions, note }: { order: Order; stop?: number; actions?: React.ReactNode; note?: string }) => (
+    <div className="tech-card corner-bracket p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-3">
+          {stop !== undefined && (
+            <div className="h-8 w-8 rounded-full bg-primary/20 border border-primary/50 flex items-center justify-center font-bold text-primary">
+              {stop}
+            </div>
+          )}
+          <div>
+            <div className="font-bold text-primary neon-glow">Order {formatOrderNumber(order.orderNumber)}</div>
+            {order.customerName && <div className="text-xs text-muted-foreground">{order.customerName}</div>}
+          </div>
+        </div>
+        <Badge className="text-base neon-glow-primary">{order.terminal}</Badge>
+      </div>
+      <div className="text-sm space-y-0.5">
+        {order.items.map(item => (
+          <div key={item.id}>{item.quantity}x {item.menuItem.name}</div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <PaymentStatusBadge status={order.paymentStatus} />
+        {note && <span className="text-xs text-muted-foreground">{note}</span>}
+      </div>
+      {actions}
+    </div>
+  );
+
+  const EmptyState = ({ icon: Icon, text }: { icon: typeof Footprints; text: string }) => (
+    <div className="tech-card corner-bracket p-8 text-center">
+      <Icon className="h-12 w-12 mx-auto mb-3 text-muted-foreground opacity-50" />
+      <p className="text-muted-foreground">{text}</p>
+    </div>
+  );
+
+  return (
+    <div className="p-6 bg-background min-h-screen grid-pattern relative">
+      <div className="absolute inset-0 bg-gradient-to-b from-primary/10 to-transparent pointer-events-none -z-10" />
+
+      <div className="container mx-auto px-4 relative z-10">
+        <div className="mb-8">
+          <h1 className="text-4xl md:text-2xl font-bold neon-glow cyber-text flex items-center gap-3 mb-2">
+            <Footprints className="h-10 w-10" />
+            Runner
+          </h1>
+          <p className="text-muted-foreground text-lg">Bring ready orders to the PCs, following the route. Delivering as {runner}</p>
+        </div>
+
+        <div className="grid gap-8 lg:grid-cols-2">
+          <div className="space-y-8">
+            {/* The runner's own deliveries */}
+            <section className="space-y-4">
+              <h2 className="text-2xl font-bold cyber-text pb-3 border-b-2 border-primary/30">
+                My Deliveries ({myGroups.reduce((count, group) => count + group.stops.length, 0)})
+              </h2>
+              {myGroups.length === 0 ? (
+                <EmptyState icon={Footprints} text="Claim ready orders below to start a run" />
+              ) : (
+                myGroups.flatMap(group => group.stops).map(({ stop, order }) => (
+                  <DeliveryCard
+                    key={order.id}
+                    order={order}
+                    stop={stop}
+                    note={`Claimed ${minutesSince(order.outForDeliveryAt) ?? 0} min ago`}
+                    actions={
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={() => handleDelivery([order], 'deliver')}
+                          disabled={busyOrderIds.includes(order.id)}
+                          className="flex-1 gap-2 font-bold neon-glow-primary"
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                          Delivered
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => handleDelivery([order], 'release')}
+                          disabled={busyOrderIds.includes(order.id)}
+                          className="gap-2"
+                        >
+                          <Undo2 className="h-4 w-4" />
+                          Give Back
+                        </Button>
+                      </div>
+                    }
+                  />
+                ))
+              )}
+            </section>
+
+            {/* Ready orders by zone, in route order */}
+            <section className="space-y-4">
+              <h2 className="text-2xl font-bold cyber-text pb-3 border-b-2 border-primary/30">
+                Ready to Deliver ({readyGroups.reduce((count, group) => count + group.stops.length, 0)})
+              </h2>
+              {readyGroups.length === 0 ? (
+                <EmptyState icon={CheckCircle} text="No orders waiting for a runner" />
+              ) : (
+                readyGroups.map(group => (
+                  <div key={group.zone?.id ?? 'unzoned'} className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-bold flex items-center gap-2">
+                        <MapPin className="h-4 w-4 text-primary" />
+                        {group.zone?.name ?? 'Other PCs'}
+                      </h3>
+                      {group.stops.length > 1 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelivery(group.stops.map(({ order }) => order), 'claim')}
+                          disabled={group.stops.some(({ order }) => busyOrderIds.includes(order.id))}
+                        >
+                          Claim All
+                        </Button>
+                      )}
+                    </div>
+                    {group.stops.map(({ stop, order }) => (
+                      <DeliveryCard
+                        key={order.id}
+                        order={order}
+                        stop={stop}
+                        note={`Ready ${minutesSince(order.readyAt) ?? 0} min`}
+                        actions={
+                          <Button
+                            onClick={() => handleDelivery([order], 'claim')}
+                            disabled={busyOrderIds.includes(order.id)}
+                            className="w-full font-bold neon-glow-primary"
+                          >
+                            Claim
+                          </Button>
+                        }
+                      />
+                    ))}
+                  </div>
+                ))
+              )}
+            </section>
+          </div>
+
+          <div className="space-y-8">
+            {/* Delivered but not completed */}
+            <section className="space-y-4">
+              <h2 className="text-2xl font-bold cyber-text pb-3 border-b-2 border-primary/30">
+                Delivered ({deliveredOrders.length})
+              </h2>
+              {deliveredOrders.length === 0 ? (
+                <EmptyState icon={CheckCircle} text="Nothing left to complete" />
+              ) : (
+                deliveredOrders.map(order => (
+                  <DeliveryCard
+                    key={order.id}
+                    order={order}
+                    note={order.deliveredBy ? `By ${order.deliveredBy}` : undefined}
+                    actions={
+                      <Button onClick={() => handleComplete(order)} className="w-full font-bold neon-glow-primary">
+                        {order.paymentStatus === 'paid' ? 'Complete Order' : 'Take Payment & Complete'}
+                      </Button>
+                    }
+                  />
+                ))
+              )}
+            </section>
+
+            {/* Other runners */}
+            <section className="space-y-4">
+              <h2 className="text-2xl font-bold cyber-text pb-3 border-b-2 border-primary/30">
+                Out with Others ({othersDeliveries.length})
+              </h2>
+              {othersDeliveries.length === 0 ? (
+                <EmptyState icon={Users} text="No other runners are out" />
+              ) : (
+                othersDeliveries.map(order => (
+                  <DeliveryCard
+                    key={order.id}
+                    order={order}
+                    note={`${order.deliveryClaimedBy} · ${minutesSince(order.outForDeliveryAt) ?? 0} min`}
+                  />
+                ))
+              )}
+            </section>
+          </div>
+        </div>
+      </div>
+
+      <PaymentDialog
+        order={paymentTarget}
+        onClose={() => setPaymentTarget(null)}
+        onPaid={(paidOrder) => markCompleted(paidOrder.id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Order } from '@/types';
+import { TAX_EXEMPTION_LABELS, formatMoney } from '@/lib/tax';
+
+export type TaxBreakdownAmounts = Pick<
+  Order,
+  'serviceCharge' | 'vatRate' | 'vatableSales' | 'vatAmount' | 'vatExemptSales' | 'exemptionDiscount' | 'taxExemption'
+>;
+
+interface TaxBreakdownProps {
+  amounts: TaxBreakdownAmounts;
+  currencySymbol: string;
+  className?: string;
+}
+
+/**
+ * Service charge, senior citizen / PWD discount and the VAT lines an official receipt needs
+ */
+export function TaxBreakdown({ amounts, currencySymbol, className = '' }: TaxBreakdownProps) {
+  const { serviceCharge, vatRate, vatableSales, vatAmount, vatExemptSales, exemptionDiscount, taxExemption } = amounts;
+  const showVat = vatRate > 0 || vatExemptSales > 0;
+
+  return (
+    <div className={`space-y-1 text-sm ${className}`}>
+      {serviceCharge > 0 && (
+        <div className="flex justify-between items-center">
+          <span className="text-muted-foreground">Service charge</span>
+          <span className="font-semibold">+{formatMoney(serviceCharge, currencySymbol)}</span>
+        </div>
+      )}
+      {exemptionDiscount > 0 && (
+        <div className="flex justify-between items-center">
+          <span className="text-muted-foreground">
+            {taxExemption ? TAX_EXEMPTION_LABELS[taxExemption.type] : 'Senior citizen / PWD'} discount
+          </span>
+          <span className="font-semibold text-green-600">{formatMoney(-exemptionDiscount, currencySymbol)}</span>
+        </div>
+      )}
+      {showVat && (
+        <div className="space-y-0.5 text-xs text-muted-foreground">
+          <div className="flex justify-between">
+            <span>VATable sales</span>
+            <span>{formatMoney(vatableSales, currencySymbol)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>VAT ({vatRate}%)</span>
+            <span>{formatMoney(vatAmount, currencySymbol)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>VAT-exempt sales</span>
+            <span>{formatMoney(vatExemptSales, currencySymbol)}</span>
+          </div>
+          {taxExemption && (
+            <div className="flex justify-between">
+              <span>{TAX_EXEMPTION_LABELS[taxExemption.type]} ID</span>
+              <span>
+                {taxExemption.idNumber} · {taxExemption.name} ({taxExemption.exemptDiners} of {taxExemption.diners})
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
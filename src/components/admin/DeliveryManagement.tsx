@@ -0,0 +1,372 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Edit, Trash2, MapPin, Loader, ArrowUp, ArrowDown, Timer } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { PC, useComputerShopDatabase } from '@/hooks/useComputerShopDatabase';
+import { DELIVERY_ZONES_KEY, DeliveryZone, getDeliveryMetrics, parseDeliveryZones } from '@/lib/deliveries';
+import { useToast } from '@/hooks/use-toast';
+
+type MetricsRange = 'today' | '7d' | '30d';
+
+const RANGE_DAYS: Record<MetricsRange, number> = { today: 0, '7d': 7, '30d': 30 };
+
+const EMPTY_FORM = { name: '', pcs: [] as string[] };
+
+const toZoneId = (name: string, taken: string[]) => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'zone';
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+const formatMinutes = (minutes: number | null) => minutes === null ? '—' : `${minutes.toFixed(1)} min`;
+
+// Move one entry of a list up or down by one place
+const moveEntry = <T,>(list: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export default function DeliveryManagement() {
+  const { orders } = useOrderStore();
+  const { settings, updateSetting } = useAppSettings();
+  const { getAllPCs } = useComputerShopDatabase();
+  const { toast } = useToast();
+  const storedZones = settings[DELIVERY_ZONES_KEY];
+  const zones = useMemo(() => parseDeliveryZones(storedZones), [storedZones]);
+  const [pcs, setPcs] = useState<PC[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [range, setRange] = useState<MetricsRange>('today');
+
+  useEffect(() => {
+    getAllPCs().then(setPcs);
+  }, [getAllPCs]);
+
+  const metrics = useMemo(() => {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - RANGE_DAYS[range]);
+    return getDeliveryMetrics(orders.filter(order => order.deliveredAt && order.deliveredAt >= since));
+  }, [orders, range]);
+
+  // A PC belongs to one zone; the zone being edited may keep its own
+  const takenPcs = zones.filter(zone => zone.id !== editingZone?.id).flatMap(zone => zone.pcs);
+
+  const openNew = () => {
+    setEditingZone(null);
+    setFormData(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (zone: DeliveryZone) => {
+    setEditingZone(zone);
+    setFormData({ name: zone.name, pcs: zone.pcs });
+    setIsDialogOpen(true);
+  };
+
+  const togglePc = (pcNumber: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      pcs: checked ? [...prev.pcs, pcNumber] : prev.pcs.filter(pc => pc !== pcNumber),
+    }));
+  };
+
+  const saveZones = async (next: DeliveryZone[], message: string) => {
+    setIsSubmitting(true);
+    const result = await updateSetting(DELIVERY_ZONES_KEY, next);
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      toast({ title: "Error", description: "Failed to save delivery zones", variant: "destructive" });
+      return false;
+    }
+    toast({ title: "Success", description: message });
+    return true;
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      toast({ title: "Error", description: "Enter a name", variant: "destructive" });
+      return;
+    }
+    if (formData.pcs.length === 0) {
+      toast({ title: "Error", description: "Pick the PCs in this zone", variant: "destructive" });
+      return;
+    }
+
+    const zone: DeliveryZone = {
+      id: editingZone?.id ?? toZoneId(formData.name, zones.map(z => z.id)),
+      name: formData.name.trim(),
+      pcs: formData.pcs,
+    };
+    const next = editingZone
+      ? zones.map(z => (z.id === editingZone.id ? zone : z))
+      : [...zones, zone];
+
+    if (await saveZones(next, `Zone ${editingZone ? 'updated' : 'added'} successfully`)) {
+      setIsDialogOpen(false);
+    }
+  };
+
+  const handleDelete = async (zone: DeliveryZone) => {
+    if (!confirm(`Delete "${zone.name}"? Its PCs are listed under Other PCs.`)) {
+      return;
+    }
+    await saveZones(zones.filter(z => z.id !== zone.id), "Zone deleted successfully");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Delivery Zones
+            </CardTitle>
+            <Button onClick={openNew} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Zone
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Runners walk the zones from top to bottom, passing each zone's PCs in the order listed.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {zones.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">
+              No zones yet. Runners see ready orders sorted by PC number.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>PCs</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {zones.map((zone, index) => (
+                  <TableRow key={zone.id}>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => saveZones(moveEntry(zones, index, -1), "Route updated")}
+                          disabled={index === 0 || isSubmitting}
+                        >
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => saveZones(moveEntry(zones, index, 1), "Route updated")}
+                          disabled={index === zones.length - 1 || isSubmitting}
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-medium">{zone.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {zone.pcs.map(pc => (
+                          <Badge key={pc} variant="outline">{pc}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleEdit(zone)} className="gap-1">
+                          <Edit className="h-3 w-3" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(zone)}
+                          className="gap-1 text-destructive hover:text-destructive"
+                          disabled={isSubmitting}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              Delivery Times
+            </CardTitle>
+            <Select value={range} onValueChange={(value) => setRange(value as MetricsRange)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="today">Today</SelectItem>
+                <SelectItem value="7d">Last 7 days</SelectItem>
+                <SelectItem value="30d">Last 30 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground">Delivered</div>
+              <div className="text-2xl font-bold">{metrics.delivered}</div>
+            </div>
+            <div className="border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground">Wait for a runner</div>
+              <div className="text-2xl font-bold">{formatMinutes(metrics.avgWaitMinutes)}</div>
+            </div>
+            <div className="border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground">Walk to the PC</div>
+              <div className="text-2xl font-bold">{formatMinutes(metrics.avgRunMinutes)}</div>
+            </div>
+            <div className="border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground">Ready to delivered</div>
+              <div className="text-2xl font-bold">{formatMinutes(metrics.avgTotalMinutes)}</div>
+            </div>
+          </div>
+
+          {metrics.runners.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Runner</TableHead>
+                  <TableHead>Delivered</TableHead>
+                  <TableHead>Average walk</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {metrics.runners.map(runner => (
+                  <TableRow key={runner.runner}>
+                    <TableCell className="font-medium">{runner.runner}</TableCell>
+                    <TableCell>{runner.delivered}</TableCell>
+                    <TableCell>{formatMinutes(runner.avgRunMinutes)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingZone ? 'Edit Zone' : 'Add Zone'}</DialogTitle>
+            <DialogDescription>
+              Pick the PCs in this zone, then put them in the order a runner walks past them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="zone-name">Name *</Label>
+              <Input
+                id="zone-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Front row"
+              />
+            </div>
+
+            <div>
+              <Label>PCs</Label>
+              <div className="grid grid-cols-3 gap-2 mt-2">
+                {pcs.map(pc => (
+                  <div key={pc.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`zone-pc-${pc.id}`}
+                      checked={formData.pcs.includes(pc.pc_number)}
+                      disabled={takenPcs.includes(pc.pc_number)}
+                      onCheckedChange={(checked) => togglePc(pc.pc_number, checked === true)}
+                    />
+                    <Label htmlFor={`zone-pc-${pc.id}`} className="font-normal">{pc.pc_number}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {formData.pcs.length > 0 && (
+              <div>
+                <Label>Walking order</Label>
+                <div className="space-y-1 mt-2">
+                  {formData.pcs.map((pc, index) => (
+                    <div key={pc} className="flex items-center justify-between border rounded px-3 py-1">
+                      <span className="text-sm">{index + 1}. {pc}</span>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setFormData(prev => ({ ...prev, pcs: moveEntry(prev.pcs, index, -1) }))}
+                          disabled={index === 0}
+                        >
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setFormData(prev => ({ ...prev, pcs: moveEntry(prev.pcs, index, 1) }))}
+                          disabled={index === formData.pcs.length - 1}
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSubmit} className="flex-1 gap-2" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader className="h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>{editingZone ? 'Update' : 'Add'} Zone</>
+                )}
+              </Button>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
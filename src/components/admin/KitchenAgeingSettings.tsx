@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Hourglass, Loader } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { useToast } from '@/hooks/use-toast';
+import { KITCHEN_AGEING_KEY, countSlaBreaches, parseAgeingThresholds } from '@/lib/kitchenAlerts';
+
+export default function KitchenAgeingSettings() {
+  const { orders } = useOrderStore();
+  const { settings, updateSetting } = useAppSettings();
+  const { toast } = useToast();
+  const storedThresholds = settings[KITCHEN_AGEING_KEY];
+  const thresholds = useMemo(() => parseAgeingThresholds(storedThresholds), [storedThresholds]);
+  const [formData, setFormData] = useState({ warnMinutes: '', lateMinutes: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setFormData({ warnMinutes: String(thresholds.warnMinutes), lateMinutes: String(thresholds.lateMinutes) });
+  }, [thresholds]);
+
+  const breachesToday = useMemo(() => {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    return countSlaBreaches(orders, thresholds, since);
+  }, [orders, thresholds]);
+
+  const handleSave = async () => {
+    const warnMinutes = Number(formData.warnMinutes);
+    const lateMinutes = Number(formData.lateMinutes);
+    if (!(warnMinutes > 0) || !(lateMinutes > 0)) {
+      toast({ title: "Error", description: "Enter the minutes as positive numbers", variant: "destructive" });
+      return;
+    }
+    if (warnMinutes >= lateMinutes) {
+      toast({ title: "Error", description: "The warning must come before an order is late", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await updateSetting(KITCHEN_AGEING_KEY, { warnMinutes, lateMinutes });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      toast({ title: "Error", description: "Failed to save the order ageing times", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Success", description: "Order ageing times saved" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="h-5 w-5" />
+          Order Ageing
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Kitchen cards turn amber, then red, as orders wait. An order not ready by the late time breaches the SLA;
+          {' '}{breachesToday} did today.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 md:grid-cols-3 items-end">
+          <div>
+            <Label htmlFor="ageing-warn">Amber after (minutes)</Label>
+            <Input
+              id="ageing-warn"
+              type="number"
+              min="1"
+              value={formData.warnMinutes}
+              onChange={(e) => setFormData(prev => ({ ...prev, warnMinutes: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="ageing-late">Late after (minutes)</Label>
+            <Input
+              id="ageing-late"
+              type="number"
+              min="1"
+              value={formData.lateMinutes}
+              onChange={(e) => setFormData(prev => ({ ...prev, lateMinutes: e.target.value }))}
+            />
+          </div>
+          <Button onClick={handleSave} className="gap-2" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader className="h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save'
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
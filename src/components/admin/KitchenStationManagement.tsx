@@ -0,0 +1,357 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Edit, Trash2, Printer, Loader, ChefHat } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import {
+  KITCHEN_STATIONS_KEY,
+  KitchenStation,
+  PRINT_TARGET_LABELS,
+  PrintTarget,
+  parseKitchenStations,
+} from '@/lib/kitchenStations';
+import { PaperWidth } from '@/lib/receipts';
+import { useToast } from '@/hooks/use-toast';
+
+const EMPTY_FORM = {
+  name: '',
+  categories: [] as string[],
+  items: [] as string[],
+  printTarget: 'browser' as PrintTarget,
+  printerUrl: '',
+  paperWidth: '80mm' as PaperWidth,
+};
+
+// Station ids show up in ticket file names and print bridge paths, so keep them readable
+const toStationId = (name: string, taken: string[]) => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'station';
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+export default function KitchenStationManagement() {
+  const { menuCategories, menuItems } = useOrderStore();
+  const { settings, updateSetting } = useAppSettings();
+  const { toast } = useToast();
+  const storedStations = settings[KITCHEN_STATIONS_KEY];
+  const stations = useMemo(() => parseKitchenStations(storedStations), [storedStations]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingStation, setEditingStation] = useState<KitchenStation | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const getCategoryName = (categoryId: string) =>
+    menuCategories.find(category => category.id === categoryId)?.name || categoryId;
+
+  const getItemName = (itemId: string) =>
+    menuItems.find(item => item.id === itemId)?.name || itemId;
+
+  // An item is assigned to one station; the station being edited may keep its own
+  const takenItems = stations.filter(station => station.id !== editingStation?.id).flatMap(station => station.items);
+
+  const openNew = () => {
+    setEditingStation(null);
+    setFormData(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (station: KitchenStation) => {
+    setEditingStation(station);
+    setFormData({
+      name: station.name,
+      categories: station.categories,
+      items: station.items,
+      printTarget: station.printTarget,
+      printerUrl: station.printerUrl || '',
+      paperWidth: station.paperWidth,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const toggleCategory = (categoryId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      categories: checked
+        ? [...prev.categories, categoryId]
+        : prev.categories.filter(id => id !== categoryId),
+    }));
+  };
+
+  const toggleItem = (itemId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      items: checked ? [...prev.items, itemId] : prev.items.filter(id => id !== itemId),
+    }));
+  };
+
+  const saveStations = async (next: KitchenStation[], message: string) => {
+    setIsSubmitting(true);
+    const result = await updateSetting(KITCHEN_STATIONS_KEY, next);
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      toast({ title: "Error", description: "Failed to save kitchen stations", variant: "destructive" });
+      return false;
+    }
+    toast({ title: "Success", description: message });
+    return true;
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      toast({ title: "Error", description: "Enter a name", variant: "destructive" });
+      return;
+    }
+    if (formData.printTarget === 'network' && !formData.printerUrl.trim()) {
+      toast({ title: "Error", description: "Enter the print bridge address for a network printer", variant: "destructive" });
+      return;
+    }
+
+    const station: KitchenStation = {
+      id: editingStation?.id ?? toStationId(formData.name, stations.map(s => s.id)),
+      name: formData.name.trim(),
+      categories: formData.categories,
+      items: formData.items,
+      printTarget: formData.printTarget,
+      printerUrl: formData.printerUrl.trim() || undefined,
+      paperWidth: formData.paperWidth,
+    };
+    const next = editingStation
+      ? stations.map(s => (s.id === editingStation.id ? station : s))
+      : [...stations, station];
+
+    if (await saveStations(next, `Station ${editingStation ? 'updated' : 'added'} successfully`)) {
+      setIsDialogOpen(false);
+    }
+  };
+
+  const handleDelete = async (station: KitchenStation) => {
+    if (stations.length === 1) {
+      toast({ title: "Error", description: "Keep at least one station", variant: "destructive" });
+      return;
+    }
+    if (!confirm(`Delete "${station.name}"? Its items go to the catch-all station.`)) {
+      return;
+    }
+    await saveStations(stations.filter(s => s.id !== station.id), "Station deleted successfully");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Printer className="h-5 w-5" />
+            Kitchen Stations
+          </CardTitle>
+          <Button onClick={openNew} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Station
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Takes</TableHead>
+              <TableHead>Printer</TableHead>
+              <TableHead>Paper</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stations.map((station) => (
+              <TableRow key={station.id}>
+                <TableCell className="font-medium">{station.name}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {station.categories.length === 0 && (
+                      <span className="text-sm text-muted-foreground">Everything else</span>
+                    )}
+                    {station.categories.map(categoryId => (
+                      <Badge key={categoryId} variant="outline">{getCategoryName(categoryId)}</Badge>
+                    ))}
+                    {station.items.map(itemId => (
+                      <Badge key={itemId} variant="secondary">{getItemName(itemId)}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm">
+                  <div>{PRINT_TARGET_LABELS[station.printTarget]}</div>
+                  {station.printTarget === 'network' && station.printerUrl && (
+                    <div className="text-xs text-muted-foreground">{station.printerUrl}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">{station.paperWidth}</TableCell>
+                <TableCell>
+                  <div className="flex gap-2">
+                    <Button asChild variant="outline" size="sm" className="gap-1">
+                      <Link to={`/kitchen?station=${station.id}`}>
+                        <ChefHat className="h-3 w-3" />
+                        Board
+                      </Link>
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(station)} className="gap-1">
+                      <Edit className="h-3 w-3" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(station)}
+                      className="gap-1 text-destructive hover:text-destructive"
+                      disabled={isSubmitting}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      Delete
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingStation ? 'Edit Station' : 'Add Station'}</DialogTitle>
+            <DialogDescription>
+              A ticket prints at each station that has items on the order when the kitchen starts preparing it. The order is ready once every station is done.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="station-name">Name *</Label>
+              <Input
+                id="station-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Drinks"
+              />
+            </div>
+
+            <div>
+              <Label>Categories</Label>
+              <p className="text-xs text-muted-foreground mb-2">
+                Leave all unticked to take every item no other station takes.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {menuCategories.map(category => (
+                  <div key={category.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`station-category-${category.id}`}
+                      checked={formData.categories.includes(category.id)}
+                      onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                    />
+                    <Label htmlFor={`station-category-${category.id}`} className="font-normal">{category.name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label>Items</Label>
+              <p className="text-xs text-muted-foreground mb-2">
+                Items ticked here come to this station whatever their category.
+              </p>
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                {menuItems.map(item => (
+                  <div key={item.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`station-item-${item.id}`}
+                      checked={formData.items.includes(item.id)}
+                      disabled={takenItems.includes(item.id)}
+                      onCheckedChange={(checked) => toggleItem(item.id, checked === true)}
+                    />
+                    <Label htmlFor={`station-item-${item.id}`} className="font-normal">{item.name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Print to</Label>
+                <Select
+                  value={formData.printTarget}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, printTarget: value as PrintTarget }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PRINT_TARGET_LABELS) as PrintTarget[]).map(target => (
+                      <SelectItem key={target} value={target}>{PRINT_TARGET_LABELS[target]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Paper</Label>
+                <Select
+                  value={formData.paperWidth}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, paperWidth: value as PaperWidth }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="58mm">58 mm</SelectItem>
+                    <SelectItem value="80mm">80 mm</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.printTarget === 'network' && (
+              <div>
+                <Label htmlFor="station-printer-url">Print bridge address *</Label>
+                <Input
+                  id="station-printer-url"
+                  value={formData.printerUrl}
+                  onChange={(e) => setFormData(prev => ({ ...prev, printerUrl: e.target.value }))}
+                  placeholder="http://localhost:9101/drinks"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Run <code>npm run print-bridge</code> on a computer on the printer's network.
+                  To send this station to its own printer, list it in the bridge's <code>PRINTERS</code>
+                  (e.g. <code>drinks=host:9100</code>).
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSubmit} className="flex-1 gap-2" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader className="h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>{editingStation ? 'Update' : 'Add'} Station</>
+                )}
+              </Button>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -5,20 +5,46 @@ import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Eye, Edit, Trash2, ClipboardList } from 'lucide-react';
+import { Eye, Edit, Trash2, ClipboardList, CloudOff, Ban, Loader, Wallet, Merge, Printer } from 'lucide-react';
 import { useOrderStore } from '@/store/orderStore';
-import { Order } from '@/types';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { priceLine } from '@/lib/pricing';
+import { OrderItemModifiers } from '@/components/OrderItemModifiers';
+import { Order, CancellationStatus, PaymentStatus } from '@/types';
+import { useAuthStore } from '@/store/authStore';
+import { isCancelledStatus } from '@/lib/orderCancellation';
 import { useToast } from '@/hooks/use-toast';
+import { PaymentDialog } from '@/components/PaymentDialog';
+import { BillPaymentDialog } from '@/components/BillPaymentDialog';
+import { PaymentStatusBadge } from '@/components/PaymentStatusBadge';
+import { PAYMENT_METHOD_LABELS, getBalanceDue } from '@/lib/payments';
+import { formatMoney } from '@/lib/tax';
+import { TaxBreakdown } from '@/components/TaxBreakdown';
+import { ReceiptDialog } from '@/components/ReceiptDialog';
+import { OrderEventTimeline } from '@/components/OrderEventTimeline';
 
 export default function OrderManagement() {
-  const { orders, updateOrderStatus, deleteOrder } = useOrderStore();
+  const { orders, updateOrderStatus, deleteOrder, cancelOrder, pendingSyncOrderIds, taxConfig } = useOrderStore();
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
+  const { user } = useAuthStore();
   const { toast } = useToast();
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [selectedOrders, setSelectedOrders] = useState<Set<string>>(new Set());
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [cancelTarget, setCancelTarget] = useState<Order | null>(null);
+  const [cancelStatus, setCancelStatus] = useState<CancellationStatus>('cancelled');
+  const [cancelReason, setCancelReason] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [paymentFilter, setPaymentFilter] = useState<'all' | 'outstanding' | PaymentStatus>('all');
+  const [paymentTarget, setPaymentTarget] = useState<Order | null>(null);
+  const [completeWhenPaid, setCompleteWhenPaid] = useState(false);
+  const [isBillOpen, setIsBillOpen] = useState(false);
+  const [receiptTarget, setReceiptTarget] = useState<Order | null>(null);
 
   // Update time every second for real-time display
   useEffect(() => {
@@ -29,9 +55,16 @@ export default function OrderManagement() {
     return () => clearInterval(interval);
   }, []);
 
-  const filteredOrders = statusFilter === 'all' 
-    ? orders 
-    : orders.filter(order => order.status === statusFilter);
+  const matchesPaymentFilter = (order: Order) => {
+    if (paymentFilter === 'all') return true;
+    // Cancelled orders are not owed anymore
+    if (paymentFilter === 'outstanding') return order.paymentStatus !== 'paid' && !isCancelledStatus(order.status);
+    return order.paymentStatus === paymentFilter;
+  };
+
+  const filteredOrders = orders.filter(order =>
+    (statusFilter === 'all' || order.status === statusFilter) && matchesPaymentFilter(order)
+  );
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
@@ -53,12 +86,37 @@ export default function OrderManagement() {
 
   const isAllSelected = filteredOrders.length > 0 && selectedOrders.size === filteredOrders.length;
 
-  const handleStatusUpdate = (orderId: string, newStatus: Order['status']) => {
-    updateOrderStatus(orderId, newStatus);
-    toast({
-      title: "Success",
-      description: `Order status updated to ${newStatus}`
-    });
+  // Selected orders that can still go on a merged bill
+  const billOrders = orders.filter(order =>
+    selectedOrders.has(order.id) && order.paymentStatus !== 'paid' && !isCancelledStatus(order.status)
+  );
+
+  const handleStatusUpdate = async (orderId: string, newStatus: Order['status']) => {
+    const order = orders.find(o => o.id === orderId);
+    // An unpaid order is completed from the payment dialog once it is settled
+    if (newStatus === 'completed' && order && order.paymentStatus !== 'paid') {
+      openPaymentDialog(order, true);
+      return;
+    }
+
+    try {
+      await updateOrderStatus(orderId, newStatus);
+      toast({
+        title: "Success",
+        description: `Order status updated to ${newStatus}`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update order status',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openPaymentDialog = (order: Order, completeAfter: boolean) => {
+    setPaymentTarget(order);
+    setCompleteWhenPaid(completeAfter);
   };
 
   const handleDeleteOrder = (orderId: string) => {
@@ -80,12 +138,45 @@ export default function OrderManagement() {
     });
   };
 
+  const openCancelDialog = (order: Order) => {
+    setCancelTarget(order);
+    // Orders that were already served can only be voided
+    setCancelStatus(order.status === 'completed' ? 'voided' : 'cancelled');
+    setCancelReason('');
+  };
+
+  const handleCancelOrder = async () => {
+    if (!cancelTarget || !cancelReason.trim()) return;
+
+    setIsCancelling(true);
+    try {
+      const cancelled = await cancelOrder(cancelTarget.id, cancelStatus, cancelReason.trim(), user?.email || 'Admin');
+      toast({
+        title: "Success",
+        description: `Order ${formatOrderNumber(cancelled.orderNumber)} ${cancelStatus}${cancelled.stockRestored ? ', stock restored' : ''}`
+      });
+      setCancelTarget(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to cancel order',
+        variant: "destructive"
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   const getStatusBadgeVariant = (status: Order['status']) => {
     switch (status) {
       case 'pending': return 'destructive';
       case 'preparing': return 'outline';
       case 'ready': return 'secondary';
+      case 'out_for_delivery': return 'secondary';
+      case 'delivered': return 'default';
       case 'completed': return 'default';
+      case 'cancelled': return 'outline';
+      case 'voided': return 'outline';
       default: return 'outline';
     }
   };
@@ -122,6 +213,17 @@ export default function OrderManagement() {
             )}
           </div>
           <div className="flex gap-2 flex-wrap justify-end">
+            {billOrders.length >= 2 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsBillOpen(true)}
+                className="gap-2 tech-card font-bold"
+              >
+                <Merge className="h-4 w-4" />
+                Merge Bill ({billOrders.length})
+              </Button>
+            )}
             {selectedOrders.size > 0 && (
               <AlertDialog>
                 <AlertDialogTrigger asChild>
@@ -162,7 +264,23 @@ export default function OrderManagement() {
                 <SelectItem value="pending">Pending</SelectItem>
                 <SelectItem value="preparing">Preparing</SelectItem>
                 <SelectItem value="ready">Ready</SelectItem>
+                <SelectItem value="out_for_delivery">Out for Delivery</SelectItem>
+                <SelectItem value="delivered">Delivered</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+                <SelectItem value="voided">Voided</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={paymentFilter} onValueChange={(value) => setPaymentFilter(value as typeof paymentFilter)}>
+              <SelectTrigger className="w-44 tech-card corner-bracket">
+                <SelectValue placeholder="Filter by payment" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Payments</SelectItem>
+                <SelectItem value="outstanding">Not Fully Paid</SelectItem>
+                <SelectItem value="unpaid">Unpaid</SelectItem>
+                <SelectItem value="partial">Partially Paid</SelectItem>
+                <SelectItem value="paid">Paid</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -190,6 +308,7 @@ export default function OrderManagement() {
                 <TableHead className="font-bold text-primary neon-glow">Items</TableHead>
                 <TableHead className="font-bold text-primary neon-glow">Total</TableHead>
                 <TableHead className="font-bold text-primary neon-glow">Status</TableHead>
+                <TableHead className="font-bold text-primary neon-glow">Payment</TableHead>
                 <TableHead className="font-bold text-primary neon-glow">Date</TableHead>
                 <TableHead className="font-bold text-primary neon-glow">Actions</TableHead>
               </TableRow>
@@ -208,7 +327,16 @@ export default function OrderManagement() {
                       onCheckedChange={(checked) => handleSelectOrder(order.id, checked as boolean)}
                     />
                   </TableCell>
-                  <TableCell className="font-bold text-primary">#{order.orderNumber}</TableCell>
+                  <TableCell className="font-bold text-primary">
+                    <div className="flex items-center gap-2">
+                      {formatOrderNumber(order.orderNumber)}
+                      {pendingSyncOrderIds.includes(order.id) && (
+                        <span title="Pending sync - saved on this device only">
+                          <CloudOff className="h-3 w-3 text-yellow-500" />
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell>
                     <div>
                       <p className="font-medium">{order.customerName || 'Walk-in'}</p>
@@ -220,27 +348,43 @@ export default function OrderManagement() {
                       {order.items.length} item{order.items.length !== 1 ? 's' : ''}
                     </Badge>
                   </TableCell>
-                  <TableCell className="font-bold text-primary">₱{order.total.toFixed(2)}</TableCell>
+                  <TableCell className="font-bold text-primary">{money(order.total)}</TableCell>
                   <TableCell>
-                    <Select
-                      value={order.status}
-                      onValueChange={(newStatus) => handleStatusUpdate(order.id, newStatus as Order['status'])}
-                    >
-                      <SelectTrigger className="w-32 tech-card">
-                        <Badge 
-                          variant={getStatusBadgeVariant(order.status)}
-                          className="neon-glow-primary"
-                        >
-                          {order.status}
-                        </Badge>
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="preparing">Preparing</SelectItem>
-                        <SelectItem value="ready">Ready</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    {isCancelledStatus(order.status) ? (
+                      <Badge
+                        variant={getStatusBadgeVariant(order.status)}
+                        className="border-destructive/50 text-destructive"
+                        title={order.cancelReason}
+                      >
+                        {order.status}
+                      </Badge>
+                    ) : (
+                      <Select
+                        value={order.status}
+                        onValueChange={(newStatus) => handleStatusUpdate(order.id, newStatus as Order['status'])}
+                      >
+                        <SelectTrigger className="w-32 tech-card">
+                          <Badge 
+                            variant={getStatusBadgeVariant(order.status)}
+                            className="neon-glow-primary"
+                          >
+                            {order.status}
+                          </Badge>
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="pending">Pending</SelectItem>
+                          <SelectItem value="preparing">Preparing</SelectItem>
+                          <SelectItem value="ready">Ready</SelectItem>
+                          <SelectItem value="completed">Completed</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <PaymentStatusBadge status={order.paymentStatus} />
+                    {order.paymentStatus === 'partial' && (
+                      <p className="text-xs text-muted-foreground mt-1">Due {money(getBalanceDue(order))}</p>
+                    )}
                   </TableCell>
                   <TableCell className="text-xs text-muted-foreground">
                     {formatDate(order.createdAt)}
@@ -259,9 +403,9 @@ export default function OrderManagement() {
                             View
                           </Button>
                         </DialogTrigger>
-                        <DialogContent className="tech-card">
+                        <DialogContent className="tech-card max-h-[90vh] overflow-y-auto">
                           <DialogHeader>
-                            <DialogTitle className="neon-glow">Order #{selectedOrder?.orderNumber} Details</DialogTitle>
+                            <DialogTitle className="neon-glow">Order {selectedOrder && formatOrderNumber(selectedOrder.orderNumber)} Details</DialogTitle>
                           </DialogHeader>
                           {selectedOrder && (
                             <div className="space-y-4">
@@ -286,10 +430,70 @@ export default function OrderManagement() {
                                 </div>
                                 <div className="p-3 rounded-lg bg-accent/5 tech-card">
                                   <h4 className="font-medium text-sm text-primary neon-glow">Total</h4>
-                                  <p className="text-sm font-bold text-primary">₱{selectedOrder.total.toFixed(2)}</p>
+                                  <p className="text-sm font-bold text-primary">{money(selectedOrder.total)}</p>
+                                  {selectedOrder.discountTotal > 0 && (
+                                    <p className="text-xs text-muted-foreground">after {money(selectedOrder.discountTotal)} promotions</p>
+                                  )}
+                                </div>
+                              </div>
+
+                              {/* Orders placed before the tax breakdown was stored have none */}
+                              {selectedOrder.vatableSales + selectedOrder.vatExemptSales > 0 && (
+                                <div className="p-3 rounded-lg bg-accent/5 tech-card space-y-2">
+                                  <h4 className="font-medium text-sm text-primary neon-glow">
+                                    Tax ({selectedOrder.taxInclusive ? 'VAT-inclusive' : 'VAT-exclusive'} prices)
+                                  </h4>
+                                  <TaxBreakdown amounts={selectedOrder} currencySymbol={taxConfig.currencySymbol} />
                                 </div>
+                              )}
+
+                              <div className="p-3 rounded-lg bg-primary/5 tech-card space-y-2">
+                                <div className="flex items-center justify-between">
+                                  <h4 className="font-medium text-sm text-primary neon-glow">Payment</h4>
+                                  <PaymentStatusBadge status={selectedOrder.paymentStatus} />
+                                </div>
+                                {selectedOrder.payments.length === 0 ? (
+                                  <p className="text-xs text-muted-foreground">
+                                    {selectedOrder.paymentStatus === 'paid' ? 'Settled before payments were recorded' : 'No payments yet'}
+                                  </p>
+                                ) : (
+                                  selectedOrder.payments.map(payment => (
+                                    <div key={payment.id} className="flex justify-between text-xs">
+                                      <span>
+                                        {PAYMENT_METHOD_LABELS[payment.method]}
+                                        {payment.reference && ` (${payment.reference})`}
+                                        {payment.amountTendered !== undefined && ` - tendered ${money(payment.amountTendered)}, change ${money(payment.changeGiven ?? 0)}`}
+                                        {payment.payer && ` - paid by ${payment.payer}`}
+                                        {payment.itemIds.length > 0 && ` for ${payment.itemIds.length} item${payment.itemIds.length !== 1 ? 's' : ''}`}
+                                        {payment.billId && ' - merged bill'}
+                                        <span className="text-muted-foreground"> by {payment.receivedBy}</span>
+                                      </span>
+                                      <span className="font-semibold">{money(payment.amount)}</span>
+                                    </div>
+                                  ))
+                                )}
+                                {selectedOrder.paymentStatus !== 'paid' && (
+                                  <p className="text-xs font-semibold">Balance due: {money(getBalanceDue(selectedOrder))}</p>
+                                )}
                               </div>
+
+                              {isCancelledStatus(selectedOrder.status) && (
+                                <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/30 space-y-1">
+                                  <h4 className="font-medium text-sm text-destructive capitalize">{selectedOrder.status}</h4>
+                                  <p className="text-sm">Reason: {selectedOrder.cancelReason}</p>
+                                  <p className="text-xs text-muted-foreground">
+                                    By {selectedOrder.cancelledBy}
+                                    {selectedOrder.cancelledAt && ` on ${formatDate(selectedOrder.cancelledAt)}`}
+                                    {selectedOrder.stockRestored ? ' - stock restored' : ' - stock not restored'}
+                                  </p>
+                                </div>
+                              )}
                               
+                              <div className="p-3 rounded-lg bg-accent/5 tech-card space-y-2">
+                                <h4 className="font-medium text-sm text-primary neon-glow">Status History</h4>
+                                <OrderEventTimeline order={selectedOrder} />
+                              </div>
+
                               <div className="p-4 rounded-lg bg-muted/30 tech-card">
                                 <h4 className="font-bold mb-3 text-primary neon-glow">Order Items</h4>
                                 <div className="space-y-2">
@@ -300,11 +504,7 @@ export default function OrderManagement() {
                                         <p className="text-xs text-muted-foreground">
                                           Qty: {item.quantity}
                                         </p>
-                                        {item.customizations && item.customizations.length > 0 && (
-                                          <p className="text-xs text-muted-foreground">
-                                            {item.customizations.join(', ')}
-                                          </p>
-                                        )}
+                                        <OrderItemModifiers modifiers={item.modifiers} />
                                         {item.notes && (
                                           <p className="text-xs text-muted-foreground">
                                             Note: {item.notes}
@@ -312,7 +512,7 @@ export default function OrderManagement() {
                                         )}
                                       </div>
                                       <p className="font-bold text-primary">
-                                        ₱{(item.menuItem.price * item.quantity).toFixed(2)}
+                                        {money(priceLine(item).lineTotal)}
                                       </p>
                                     </div>
                                   ))}
@@ -323,6 +523,44 @@ export default function OrderManagement() {
                         </DialogContent>
                       </Dialog>
                       
+                      {!isCancelledStatus(order.status) && order.paymentStatus !== 'paid' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openPaymentDialog(order, false)}
+                          disabled={pendingSyncOrderIds.includes(order.id)}
+                          className="gap-1 tech-card transition-all"
+                        >
+                          <Wallet className="h-3 w-3" />
+                          Pay
+                        </Button>
+                      )}
+
+                      {order.orderNumber > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setReceiptTarget(order)}
+                          className="gap-1 tech-card transition-all"
+                        >
+                          <Printer className="h-3 w-3" />
+                          Receipt
+                        </Button>
+                      )}
+
+                      {!isCancelledStatus(order.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openCancelDialog(order)}
+                          disabled={pendingSyncOrderIds.includes(order.id)}
+                          className="gap-1 tech-card transition-all"
+                        >
+                          <Ban className="h-3 w-3" />
+                          {order.status === 'completed' ? 'Void' : 'Cancel'}
+                        </Button>
+                      )}
+
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
                           <Button
@@ -338,7 +576,7 @@ export default function OrderManagement() {
                           <AlertDialogHeader>
                             <AlertDialogTitle className="neon-glow">Delete Order</AlertDialogTitle>
                             <AlertDialogDescription>
-                              Are you sure you want to delete order #{order.orderNumber}? This action cannot be undone.
+                              Are you sure you want to delete order {formatOrderNumber(order.orderNumber)}? This action cannot be undone.
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter>
@@ -371,6 +609,80 @@ export default function OrderManagement() {
         )}
       </CardContent>
     </Card>
+
+      <PaymentDialog
+        order={paymentTarget}
+        onClose={() => setPaymentTarget(null)}
+        onPaid={completeWhenPaid ? (paidOrder) => handleStatusUpdate(paidOrder.id, 'completed') : undefined}
+      />
+
+      <ReceiptDialog order={receiptTarget} onClose={() => setReceiptTarget(null)} reprint />
+
+      <BillPaymentDialog
+        orders={billOrders}
+        open={isBillOpen}
+        onClose={() => setIsBillOpen(false)}
+        onPaid={(paidOrders) => {
+          setSelectedOrders(new Set());
+          toast({
+            title: "Success",
+            description: `Merged bill paid for ${paidOrders.length} orders`
+          });
+        }}
+      />
+
+      {/* Cancel / Void Dialog */}
+      <Dialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+        <DialogContent className="tech-card">
+          <DialogHeader>
+            <DialogTitle className="neon-glow">
+              {cancelStatus === 'voided' ? 'Void' : 'Cancel'} Order {cancelTarget && formatOrderNumber(cancelTarget.orderNumber)}
+            </DialogTitle>
+            <DialogDescription>
+              The order stays in history. {cancelTarget?.status === 'pending'
+                ? 'Nothing was prepared yet, so its stock will be restored.'
+                : 'The kitchen has already started on it, so stock will not be restored.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={cancelStatus} onValueChange={(value) => setCancelStatus(value as CancellationStatus)}>
+                <SelectTrigger className="tech-card">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cancelled" disabled={cancelTarget?.status === 'completed'}>Cancel (not served)</SelectItem>
+                  <SelectItem value="voided">Void (invalidate)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cancel-reason">Reason *</Label>
+              <Textarea
+                id="cancel-reason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder="e.g. Customer left, wrong item entered"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelTarget(null)} disabled={isCancelling}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleCancelOrder}
+              disabled={isCancelling || !cancelReason.trim()}
+              className="gap-2"
+            >
+              {isCancelling && <Loader className="h-4 w-4 animate-spin" />}
+              {cancelStatus === 'voided' ? 'Void Order' : 'Cancel Order'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
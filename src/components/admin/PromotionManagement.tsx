@@ -0,0 +1,444 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Edit, Trash2, Tag, Loader } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { usePromotions, PromotionRedemptionCount } from '@/hooks/usePromotions';
+import { describePromotion } from '@/lib/promotions';
+import { formatMoney } from '@/lib/tax';
+import { Promotion, PromotionType } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+
+const ALL_CATEGORIES = 'all';
+
+const EMPTY_FORM = {
+  name: '',
+  code: '',
+  discountType: 'percent' as PromotionType,
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  category: ALL_CATEGORIES,
+  minSpend: '',
+  startsAt: '',
+  endsAt: '',
+  maxUsesPerDevice: '',
+  stackable: false,
+  active: true,
+};
+
+// <input type="datetime-local"> works in local time without seconds
+const toLocalInput = (date?: Date) => {
+  if (!date) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const formatWindow = (promotion: Promotion) => {
+  if (!promotion.startsAt && !promotion.endsAt) return 'Always';
+  const from = promotion.startsAt ? promotion.startsAt.toLocaleDateString() : '…';
+  const to = promotion.endsAt ? promotion.endsAt.toLocaleDateString() : '…';
+  return `${from} – ${to}`;
+};
+
+export default function PromotionManagement() {
+  const { menuCategories, loadPromotionsFromDatabase, taxConfig } = useOrderStore();
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
+  const { loadPromotions, loadRedemptionCounts, savePromotion, deletePromotion } = usePromotions();
+  const { toast } = useToast();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [redemptionCounts, setRedemptionCounts] = useState<Record<string, PromotionRedemptionCount>>({});
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const refresh = useCallback(async () => {
+    const [loadedPromotions, counts] = await Promise.all([loadPromotions(), loadRedemptionCounts()]);
+    setPromotions(loadedPromotions);
+    setRedemptionCounts(counts);
+  }, [loadPromotions, loadRedemptionCounts]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getCategoryName = (categoryId?: string) =>
+    categoryId ? menuCategories.find(category => category.id === categoryId)?.name || categoryId : undefined;
+
+  const openNew = () => {
+    setEditingPromotion(null);
+    setFormData(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (promotion: Promotion) => {
+    setEditingPromotion(promotion);
+    setFormData({
+      name: promotion.name,
+      code: promotion.code || '',
+      discountType: promotion.discountType,
+      value: promotion.value.toString(),
+      buyQuantity: promotion.buyQuantity?.toString() || '',
+      getQuantity: promotion.getQuantity?.toString() || '',
+      category: promotion.category || ALL_CATEGORIES,
+      minSpend: promotion.minSpend ? promotion.minSpend.toString() : '',
+      startsAt: toLocalInput(promotion.startsAt),
+      endsAt: toLocalInput(promotion.endsAt),
+      maxUsesPerDevice: promotion.maxUsesPerDevice?.toString() || '',
+      stackable: promotion.stackable,
+      active: promotion.active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const getFormProblem = (): string | null => {
+    if (!formData.name.trim()) return 'Enter a name';
+    if (formData.discountType === 'buy_x_get_y') {
+      if (!(parseInt(formData.buyQuantity) > 0) || !(parseInt(formData.getQuantity) > 0)) {
+        return 'Enter how many to buy and how many are free';
+      }
+    } else {
+      const value = parseFloat(formData.value);
+      if (!(value > 0)) return 'Enter the discount';
+      if (formData.discountType === 'percent' && value > 100) return 'A percentage discount cannot be more than 100%';
+    }
+    if (formData.startsAt && formData.endsAt && new Date(formData.endsAt) <= new Date(formData.startsAt)) {
+      return 'The promotion must end after it starts';
+    }
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    const problem = getFormProblem();
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const saved = await savePromotion({
+      name: formData.name,
+      code: formData.code || undefined,
+      discountType: formData.discountType,
+      value: parseFloat(formData.value) || 0,
+      buyQuantity: parseInt(formData.buyQuantity) || undefined,
+      getQuantity: parseInt(formData.getQuantity) || undefined,
+      category: formData.category === ALL_CATEGORIES ? undefined : formData.category,
+      minSpend: parseFloat(formData.minSpend) || 0,
+      startsAt: formData.startsAt ? new Date(formData.startsAt) : undefined,
+      endsAt: formData.endsAt ? new Date(formData.endsAt) : undefined,
+      maxUsesPerDevice: parseInt(formData.maxUsesPerDevice) || undefined,
+      stackable: formData.stackable,
+      active: formData.active,
+    }, editingPromotion?.id);
+    setIsSubmitting(false);
+
+    if (!saved) {
+      toast({ title: "Error", description: "Failed to save promotion (is the code already used?)", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Success", description: `Promotion ${editingPromotion ? 'updated' : 'added'} successfully` });
+    setIsDialogOpen(false);
+    await refresh();
+    await loadPromotionsFromDatabase();
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirm(`Delete "${promotion.name}"? Its redemption history is deleted too; switch it off instead to keep it.`)) {
+      return;
+    }
+    if (await deletePromotion(promotion.id)) {
+      toast({ title: "Success", description: "Promotion deleted successfully" });
+      await refresh();
+      await loadPromotionsFromDatabase();
+    } else {
+      toast({ title: "Error", description: "Failed to delete promotion", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            Promotions
+          </CardTitle>
+          <Button onClick={openNew} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Promotion
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Code</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>Valid</TableHead>
+              <TableHead>Redemptions</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {promotions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No promotions yet
+                </TableCell>
+              </TableRow>
+            )}
+            {promotions.map((promotion) => {
+              const count = redemptionCounts[promotion.id];
+              return (
+                <TableRow key={promotion.id}>
+                  <TableCell>
+                    <div className="font-medium">{promotion.name}</div>
+                    {promotion.stackable && <div className="text-xs text-muted-foreground">Stackable</div>}
+                  </TableCell>
+                  <TableCell>
+                    {promotion.code ? <Badge variant="outline">{promotion.code}</Badge> : <span className="text-sm text-muted-foreground">Automatic</span>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{describePromotion(promotion, getCategoryName(promotion.category), taxConfig.currencySymbol)}</div>
+                    {promotion.minSpend > 0 && (
+                      <div className="text-xs text-muted-foreground">Min. spend {money(promotion.minSpend)}</div>
+                    )}
+                    {promotion.maxUsesPerDevice && (
+                      <div className="text-xs text-muted-foreground">{promotion.maxUsesPerDevice}x per device</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatWindow(promotion)}</TableCell>
+                  <TableCell className="text-sm">
+                    <div className="font-medium">{count?.redemptions || 0}</div>
+                    <div className="text-xs text-muted-foreground">{money(count?.discountTotal || 0)} off</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={promotion.active ? "default" : "secondary"}>
+                      {promotion.active ? "Active" : "Off"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(promotion)} className="gap-1">
+                        <Edit className="h-3 w-3" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(promotion)}
+                        className="gap-1 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPromotion ? 'Edit Promotion' : 'Add Promotion'}</DialogTitle>
+            <DialogDescription>
+              Promotions without a code apply automatically to every cart that qualifies.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promo-name">Name *</Label>
+                <Input
+                  id="promo-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. Happy Hour"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-code">Code</Label>
+                <Input
+                  id="promo-code"
+                  value={formData.code}
+                  onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                  placeholder="Leave empty for automatic"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Type *</Label>
+                <Select
+                  value={formData.discountType}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, discountType: value as PromotionType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage off</SelectItem>
+                    <SelectItem value="fixed">Amount off</SelectItem>
+                    <SelectItem value="buy_x_get_y">Buy X get Y free</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.discountType === 'buy_x_get_y' ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="promo-buy">Buy *</Label>
+                    <Input
+                      id="promo-buy"
+                      type="number"
+                      min="1"
+                      value={formData.buyQuantity}
+                      onChange={(e) => setFormData(prev => ({ ...prev, buyQuantity: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="promo-get">Free *</Label>
+                    <Input
+                      id="promo-get"
+                      type="number"
+                      min="1"
+                      value={formData.getQuantity}
+                      onChange={(e) => setFormData(prev => ({ ...prev, getQuantity: e.target.value }))}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="promo-value">{formData.discountType === 'percent' ? 'Percent *' : `Amount (${taxConfig.currencySymbol}) *`}</Label>
+                  <Input
+                    id="promo-value"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.value}
+                    onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Category</Label>
+                <Select value={formData.category} onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CATEGORIES}>Whole order</SelectItem>
+                    {menuCategories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="promo-min-spend">Minimum spend ({taxConfig.currencySymbol})</Label>
+                <Input
+                  id="promo-min-spend"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.minSpend}
+                  onChange={(e) => setFormData(prev => ({ ...prev, minSpend: e.target.value }))}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promo-starts">Starts</Label>
+                <Input
+                  id="promo-starts"
+                  type="datetime-local"
+                  value={formData.startsAt}
+                  onChange={(e) => setFormData(prev => ({ ...prev, startsAt: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-ends">Ends</Label>
+                <Input
+                  id="promo-ends"
+                  type="datetime-local"
+                  value={formData.endsAt}
+                  onChange={(e) => setFormData(prev => ({ ...prev, endsAt: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="promo-max-uses">Uses per device</Label>
+              <Input
+                id="promo-max-uses"
+                type="number"
+                min="1"
+                value={formData.maxUsesPerDevice}
+                onChange={(e) => setFormData(prev => ({ ...prev, maxUsesPerDevice: e.target.value }))}
+                placeholder="Unlimited"
+              />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="promo-stackable"
+                checked={formData.stackable}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, stackable: checked }))}
+              />
+              <Label htmlFor="promo-stackable">Can be combined with other stackable promotions</Label>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="promo-active"
+                checked={formData.active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, active: checked }))}
+              />
+              <Label htmlFor="promo-active">Active</Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSubmit} className="flex-1 gap-2" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader className="h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>{editingPromotion ? 'Update' : 'Add'} Promotion</>
+                )}
+              </Button>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import { useMemo, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Hourglass, Loader } from 'lucide-react';
+import { Order } from '@/types';
+import { useStageDurations } from '@/hooks/useStageDurations';
+import { ORDER_STATUS_LABELS } from '@/lib/orderTracking';
+
+type StageRange = 'today' | '7d' | '30d';
+
+const RANGE_DAYS: Record<StageRange, number> = { today: 0, '7d': 7, '30d': 30 };
+
+// Statuses in the order an order moves through them; final ones never end, so have no duration
+const STAGE_ORDER: Order['status'][] = ['pending', 'preparing', 'ready', 'out_for_delivery', 'delivered'];
+
+/**
+ * How long orders wait in each status, from the order status history
+ */
+export default function StageDurations() {
+  const [range, setRange] = useState<StageRange>('7d');
+  const since = useMemo(() => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - RANGE_DAYS[range]);
+    return date;
+  }, [range]);
+  const { stats, loading } = useStageDurations(since);
+
+  const rows = STAGE_ORDER
+    .map(status => stats.find(stat => stat.status === status))
+    .filter(stat => stat !== undefined);
+
+  return (
+    <div className="tech-card corner-bracket p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-primary neon-glow font-bold">
+          <Hourglass className="h-5 w-5" />
+          Time in Each Stage
+        </h3>
+        <Select value={range} onValueChange={(value) => setRange(value as StageRange)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="today">Today</SelectItem>
+            <SelectItem value="7d">Last 7 days</SelectItem>
+            <SelectItem value="30d">Last 30 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <Loader className="h-5 w-5 animate-spin text-primary mx-auto" />
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No status changes recorded yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Stage</TableHead>
+              <TableHead>Orders</TableHead>
+              <TableHead>Average</TableHead>
+              <TableHead>Longest</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(stat => (
+              <TableRow key={stat.status}>
+                <TableCell className="font-medium">{ORDER_STATUS_LABELS[stat.status]}</TableCell>
+                <TableCell>{stat.orders}</TableCell>
+                <TableCell>{stat.avgMinutes.toFixed(1)} min</TableCell>
+                <TableCell>{stat.maxMinutes.toFixed(1)} min</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
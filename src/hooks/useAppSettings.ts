@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+
+export function useAppSettings() {
+  const [settings, setSettings] = useState<Record<string, unknown>>({});
+  const [loading, setLoading] = useState(true);
+
+  /**
+   * Fetch every shared setting from `app_settings`
+   */
+  const fetchSettings = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('key, value');
+
+      if (error) throw error;
+
+      const byKey: Record<string, unknown> = {};
+      (data || []).forEach((row) => {
+        byKey[row.key] = row.value;
+      });
+      setSettings(byKey);
+    } catch (error) {
+      console.error('Error fetching app settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  /**
+   * Create or change one setting (admin only, enforced by RLS)
+   */
+  const updateSetting = async (key: string, value: unknown) => {
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({ key, value });
+
+      if (error) throw error;
+
+      setSettings((current) => ({ ...current, [key]: value }));
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating app setting:', error);
+      return { success: false, error };
+    }
+  };
+
+  return {
+    settings,
+    loading,
+    updateSetting,
+    refreshSettings: fetchSettings,
+  };
+}
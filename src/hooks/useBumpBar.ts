@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  BumpAction,
+  BumpKeyMap,
+  getBumpAction,
+  getBumpKeyMap,
+  getSelectionIndex,
+  saveBumpKeyMap,
+} from '@/lib/bumpBar';
+
+interface BumpBarHandlers {
+  onAction: (action: BumpAction) => void;
+  onSelect: (index: number) => void;
+}
+
+// Typing in a field is never a bump
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Listen for bump bar keys while enabled (turn it off while a dialog is open)
+ * and keep this device's key map
+ */
+export function useBumpBar(enabled: boolean, handlers: BumpBarHandlers) {
+  const [keyMap, setKeyMap] = useState<BumpKeyMap>(getBumpKeyMap);
+  // Latest handlers, so the listener is not re-attached on every render
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return;
+
+      const action = getBumpAction(event.key, keyMap);
+      if (action) {
+        event.preventDefault();
+        handlersRef.current.onAction(action);
+        return;
+      }
+      const index = getSelectionIndex(event.key);
+      if (index !== null) {
+        event.preventDefault();
+        handlersRef.current.onSelect(index);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, keyMap]);
+
+  const updateKeyMap = (next: BumpKeyMap) => {
+    saveBumpKeyMap(next);
+    setKeyMap(next);
+  };
+
+  return {
+    keyMap,
+    updateKeyMap,
+  };
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { CurrentPc, resolveCurrentPc } from '@/lib/currentPc';
+
+export function useCurrentPc() {
+  const [currentPc, setCurrentPc] = useState<CurrentPc | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    resolveCurrentPc().then((pc) => {
+      if (!active) return;
+      setCurrentPc(pc);
+      setLoading(false);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return {
+    currentPc,
+    loading,
+  };
+}
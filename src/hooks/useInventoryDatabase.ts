@@ -1,80 +1,36 @@
 import { supabase } from '@/lib/supabase';
-import { MenuItem } from '@/types';
+import { decrementStock, incrementStock, InsufficientStockError } from '@/lib/inventoryStock';
 
 export function useInventoryDatabase() {
   /**
-   * Reduce product quantity when added to cart
+   * Reduce product quantity atomically; refuses to go below zero
    */
   const reduceQuantity = async (menuItemId: string, quantity: number) => {
     try {
-      // Get current quantity
-      const { data: items, error: fetchError } = await supabase
-        .from('menu_items')
-        .select('quantity')
-        .eq('id', menuItemId)
-        .single();
-
-      if (fetchError) {
-        console.warn('Could not fetch item quantity - table may not exist:', fetchError);
-        return { success: true }; // Don't fail, just warn
-      }
-
-      const currentQuantity = items?.quantity || 0;
-      const newQuantity = Math.max(0, currentQuantity - quantity);
-
-      // Update quantity
-      const { error: updateError } = await supabase
-        .from('menu_items')
-        .update({ quantity: newQuantity })
-        .eq('id', menuItemId);
-
-      if (updateError) {
-        console.warn('Could not update quantity:', updateError);
-        return { success: true }; // Don't fail, just warn
-      }
-
-      console.log(`Reduced ${menuItemId} quantity by ${quantity} (now: ${newQuantity})`);
+      await decrementStock([{ menuItemId, quantity }]);
+      console.log(`Reduced ${menuItemId} quantity by ${quantity}`);
       return { success: true };
     } catch (error) {
       console.error('Error reducing quantity:', error);
-      return { success: true }; // Don't fail, just warn
+      return {
+        success: false,
+        error,
+        shortages: error instanceof InsufficientStockError ? error.shortages : [],
+      };
     }
   };
 
   /**
-   * Restore product quantity when removed from cart
+   * Restore product quantity atomically
    */
   const restoreQuantity = async (menuItemId: string, quantity: number) => {
     try {
-      const { data: items, error: fetchError } = await supabase
-        .from('menu_items')
-        .select('quantity')
-        .eq('id', menuItemId)
-        .single();
-
-      if (fetchError) {
-        console.warn('Could not fetch item quantity:', fetchError);
-        return { success: true };
-      }
-
-      const currentQuantity = items?.quantity || 0;
-      const newQuantity = currentQuantity + quantity;
-
-      const { error: updateError } = await supabase
-        .from('menu_items')
-        .update({ quantity: newQuantity })
-        .eq('id', menuItemId);
-
-      if (updateError) {
-        console.warn('Could not restore quantity:', updateError);
-        return { success: true };
-      }
-
-      console.log(`Restored ${menuItemId} quantity by ${quantity} (now: ${newQuantity})`);
+      await incrementStock([{ menuItemId, quantity }]);
+      console.log(`Restored ${menuItemId} quantity by ${quantity}`);
       return { success: true };
     } catch (error) {
       console.error('Error restoring quantity:', error);
-      return { success: true };
+      return { success: false, error };
     }
   };
 
@@ -111,17 +67,19 @@ export function useInventoryDatabase() {
   };
 
   /**
-   * Bulk reduce quantities when order is submitted
+   * Bulk reduce quantities in one transaction; nothing changes if any item is short
    */
   const reduceQuantitiesForOrder = async (items: Array<{ id: string; quantity: number }>) => {
     try {
-      for (const item of items) {
-        await reduceQuantity(item.id, item.quantity);
-      }
+      await decrementStock(items.map((item) => ({ menuItemId: item.id, quantity: item.quantity })));
       return { success: true };
     } catch (error) {
       console.error('Error reducing quantities for order:', error);
-      return { success: true };
+      return {
+        success: false,
+        error,
+        shortages: error instanceof InsufficientStockError ? error.shortages : [],
+      };
     }
   };
 
@@ -0,0 +1,69 @@
+import { useEffect } from 'react';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { useOrderStore } from '@/store/orderStore';
+
+// Every mounted screen shares one channel; it stays open while any of them needs it
+let subscribers = 0;
+let channel: RealtimeChannel | null = null;
+let catchUpInterval: ReturnType<typeof setInterval> | undefined;
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+const changedIds = new Set<string>();
+
+// One submission touches several rows; fetch the changed orders once they have all landed
+const scheduleFetch = (payload: RealtimePostgresChangesPayload<{ id: string }>) => {
+  const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+  const id = 'id' in row ? row.id : undefined;
+  if (!id) return;
+  changedIds.add(id);
+  clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => {
+    const ids = [...changedIds];
+    changedIds.clear();
+    useOrderStore.getState().loadOrdersById(ids);
+  }, 300);
+};
+
+const subscribe = () => {
+  subscribers += 1;
+  if (channel) return;
+
+  const { loadLiveOrders } = useOrderStore.getState();
+  loadLiveOrders();
+  channel = supabase
+    .channel('live-orders')
+    .on<{ id: string }>('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, scheduleFetch)
+    .subscribe();
+  // Catch up on anything missed while the connection was down
+  catchUpInterval = setInterval(loadLiveOrders, 60 * 1000);
+};
+
+const unsubscribe = () => {
+  subscribers -= 1;
+  if (subscribers > 0 || !channel) return;
+
+  channel.unsubscribe();
+  channel = null;
+  clearInterval(catchUpInterval);
+  clearTimeout(flushTimer);
+  changedIds.clear();
+};
+
+/**
+ * Keep the store's open and today's orders current while the calling screen is open:
+ * only the orders that change are fetched again. Pass an order id to also follow an
+ * older order, e.g. on its tracking page
+ */
+export function useLiveOrders(enabled = true, orderId?: string) {
+  const { loadOrdersById } = useOrderStore();
+
+  useEffect(() => {
+    if (!enabled) return;
+    subscribe();
+    return unsubscribe;
+  }, [enabled]);
+
+  useEffect(() => {
+    if (enabled && orderId) loadOrdersById([orderId]);
+  }, [enabled, orderId, loadOrdersById]);
+}
@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import { Order } from '@/types';
+import { getNewOrderSound, saveNewOrderSound } from '@/lib/kitchenAlerts';
+import { playChime, unlockChime } from '@/lib/readyAlerts';
+
+// How long a new order's card flashes
+const FLASH_MS = 10 * 1000;
+
+/**
+ * Flash (and, if this screen has sound on, chime for) pending orders that arrive
+ * while the board is open; the orders already there when it opens do not alert
+ */
+export function useNewOrderAlerts(pendingOrders: Order[]) {
+  const [soundEnabled, setSoundEnabled] = useState(getNewOrderSound);
+  const [newOrderIds, setNewOrderIds] = useState<string[]>([]);
+  const openedAt = useRef(Date.now());
+  const seenIds = useRef(new Set<string>());
+  const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  // Only placed after the board opened, so the backlog on screen does not count as new
+  const arrivedKey = pendingOrders
+    .filter(order => order.createdAt.getTime() >= openedAt.current)
+    .map(order => order.id)
+    .join(',');
+
+  useEffect(() => {
+    const arrived = (arrivedKey ? arrivedKey.split(',') : []).filter(id => !seenIds.current.has(id));
+    if (arrived.length === 0) return;
+    arrived.forEach(id => seenIds.current.add(id));
+
+    setNewOrderIds(current => [...current, ...arrived]);
+    timers.current.push(setTimeout(() => {
+      setNewOrderIds(current => current.filter(id => !arrived.includes(id)));
+    }, FLASH_MS));
+    if (getNewOrderSound()) {
+      playChime('arcade');
+    }
+  }, [arrivedKey]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  /**
+   * Turn the sound on or off for this screen; turning it on needs the click to unlock audio
+   */
+  const toggleSound = (enabled: boolean) => {
+    if (enabled) unlockChime();
+    saveNewOrderSound(enabled);
+    setSoundEnabled(enabled);
+  };
+
+  return {
+    newOrderIds,
+    soundEnabled,
+    toggleSound,
+  };
+}
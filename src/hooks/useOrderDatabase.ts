@@ -1,49 +1,32 @@
 import { supabase } from '@/lib/supabase';
 import { Order, OrderItem, MenuItem } from '@/types';
+import { toModifierRows } from '@/lib/modifiers';
 
 export function useOrderDatabase() {
   /**
-   * Save a new order to the database
+   * Save a new order, its items and stock decrements in one transaction
    */
   const saveOrder = async (order: Order) => {
     try {
-      // Insert order
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert([
-          {
-            order_number: order.orderNumber,
-            terminal: order.terminal,
-            customer_name: order.customerName,
-            total: order.total,
-            status: order.status,
-            created_at: order.createdAt,
-          },
-        ])
-        .select()
-        .single();
+      const { data, error } = await supabase.rpc('submit_order', {
+        p_terminal: order.terminal,
+        p_customer_name: order.customerName ?? null,
+        p_total: order.total,
+        p_items: order.items.map((item) => ({
+          menu_item_id: item.menuItem.id,
+          menu_item_name: item.menuItem.name,
+          menu_item_category: item.menuItem.category,
+          price: item.menuItem.price,
+          quantity: item.quantity,
+          modifiers: toModifierRows(item.modifiers),
+          notes: item.notes,
+        })),
+      });
 
-      if (orderError) throw orderError;
-
-      // Insert order items
-      const orderItems = order.items.map((item) => ({
-        order_id: orderData.id,
-        menu_item_id: item.menuItem.id,
-        menu_item_name: item.menuItem.name,
-        price: item.menuItem.price,
-        quantity: item.quantity,
-        customizations: item.customizations,
-        notes: item.notes,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
+      if (error) throw error;
 
-      console.log('Order saved successfully:', orderData.id);
-      return { success: true, orderId: orderData.id };
+      console.log('Order saved successfully:', data.id);
+      return { success: true, orderId: data.id };
     } catch (error) {
       console.error('Error saving order:', error);
       return { success: false, error };
@@ -66,9 +49,9 @@ export function useOrderDatabase() {
             order_id: tempOrderId,
             menu_item_id: menuItem.id,
             menu_item_name: menuItem.name,
+            menu_item_category: menuItem.category,
             price: menuItem.price,
             quantity: item.quantity,
-            customizations: item.customizations,
             notes: item.notes,
           },
         ])
@@ -77,6 +60,18 @@ export function useOrderDatabase() {
 
       if (error) throw error;
 
+      if (item.modifiers.length > 0) {
+        const { error: modifiersError } = await supabase
+          .from('order_item_modifiers')
+          .insert(toModifierRows(item.modifiers).map((row, position) => ({
+            ...row,
+            order_item_id: data.id,
+            position,
+          })));
+
+        if (modifiersError) throw modifiersError;
+      }
+
       console.log('Order item saved:', data.id);
       return { success: true, itemId: data.id };
     } catch (error) {
@@ -95,7 +90,8 @@ export function useOrderDatabase() {
         .select(
           `
           *,
-          order_items (*)
+          order_items (*, order_item_modifiers (*)),
+          order_payments (*)
         `
         )
         .in('status', ['pending', 'preparing', 'ready'])
@@ -120,7 +116,8 @@ export function useOrderDatabase() {
         .select(
           `
           *,
-          order_items (*)
+          order_items (*, order_item_modifiers (*)),
+          order_payments (*)
         `
         )
         .eq('status', status)
@@ -181,28 +178,6 @@ export function useOrderDatabase() {
     }
   };
 
-  /**
-   * Get next order number
-   */
-  const getNextOrderNumber = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('orders')
-        .select('order_number')
-        .order('order_number', { ascending: false })
-        .limit(1)
-        .single();
-
-      if (error && error.code !== 'PGRST116') throw error; // PGRST116 = no rows returned
-
-      const nextNumber = (data?.order_number || 0) + 1;
-      return { success: true, nextNumber };
-    } catch (error) {
-      console.error('Error getting next order number:', error);
-      return { success: true, nextNumber: 1 };
-    }
-  };
-
   /**
    * Subscribe to real-time orders updates
    */
@@ -233,7 +208,6 @@ export function useOrderDatabase() {
     fetchOrdersByStatus,
     updateOrderStatus,
     deleteOrder,
-    getNextOrderNumber,
     subscribeToOrders,
   };
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { OrderEvent } from '@/types';
+import { supabase } from '@/lib/supabase';
+import { fromOrderEventRow } from '@/lib/orderEvents';
+
+/**
+ * The status history of one order; reloads when its status changes so a new step
+ * shows up while it is open
+ */
+export function useOrderEvents(orderId: string | undefined, status?: string) {
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchEvents = useCallback(async () => {
+    if (!orderId) {
+      setEvents([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('order_events')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setEvents((data || []).map(fromOrderEventRow));
+    } catch (error) {
+      console.error('Error fetching order events:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents, status]);
+
+  return {
+    events,
+    loading,
+    refresh: fetchEvents,
+  };
+}
@@ -0,0 +1,112 @@
+import { useCallback, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { fromPromotionRow, toPromotionRow } from '@/lib/promotions';
+import type { Promotion } from '@/types';
+
+export interface PromotionRedemptionCount {
+  redemptions: number;
+  discountTotal: number;
+}
+
+export function usePromotions() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPromotions = useCallback(async (): Promise<Promotion[]> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: dbError } = await supabase
+        .from('promotions')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (dbError) throw dbError;
+      return (data || []).map(fromPromotionRow);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load promotions';
+      setError(message);
+      console.error('Error loading promotions:', err);
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Redemptions per promotion, not counting cancelled or voided orders
+  const loadRedemptionCounts = useCallback(async (): Promise<Record<string, PromotionRedemptionCount>> => {
+    try {
+      const { data, error: dbError } = await supabase
+        .from('promotion_redemption_counts')
+        .select('*');
+
+      if (dbError) throw dbError;
+
+      const counts: Record<string, PromotionRedemptionCount> = {};
+      (data || []).forEach((row: { promotion_id: string; redemptions: number; discount_total: string | number }) => {
+        counts[row.promotion_id] = {
+          redemptions: row.redemptions,
+          discountTotal: Number(row.discount_total),
+        };
+      });
+      return counts;
+    } catch (err) {
+      console.error('Error loading promotion redemptions:', err);
+      return {};
+    }
+  }, []);
+
+  const savePromotion = useCallback(async (promotion: Omit<Promotion, 'id'>, promotionId?: string): Promise<Promotion | null> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const row = toPromotionRow(promotion);
+      const { data, error: dbError } = promotionId
+        ? await supabase.from('promotions').update(row).eq('id', promotionId).select().single()
+        : await supabase.from('promotions').insert([row]).select().single();
+
+      if (dbError) throw dbError;
+      return fromPromotionRow(data);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save promotion';
+      setError(message);
+      console.error('Error saving promotion:', err);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const deletePromotion = useCallback(async (promotionId: string): Promise<boolean> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { error: dbError } = await supabase
+        .from('promotions')
+        .delete()
+        .eq('id', promotionId);
+
+      if (dbError) throw dbError;
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete promotion';
+      setError(message);
+      console.error('Error deleting promotion:', err);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    loading,
+    error,
+    loadPromotions,
+    loadRedemptionCounts,
+    savePromotion,
+    deletePromotion,
+  };
+}
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import { Order } from '@/types';
+import { useOrderStore } from '@/store/orderStore';
+import { useLiveOrders } from '@/hooks/useLiveOrders';
+import { getPlacedOrderIds, getPlacedOrdersToday } from '@/lib/orderCancellation';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { isInKitchen } from '@/lib/orderTracking';
+import { getItemPrepStatus } from '@/lib/itemPrep';
+import {
+  acknowledgeReadyOrder,
+  getAcknowledgedOrderIds,
+  getReadyAlertPrefs,
+  playChime,
+  showPartialReadyNotification,
+  showReadyNotification,
+} from '@/lib/readyAlerts';
+
+export function useReadyAlerts() {
+  const { orders } = useOrderStore();
+  const [acknowledgedIds, setAcknowledgedIds] = useState(getAcknowledgedOrderIds);
+  // Last status seen per order, so only a change to ready (not a page load) alerts
+  const seenStatuses = useRef<Record<string, Order['status']>>({});
+  // Items seen done per order, so each item finished early alerts once
+  const seenDoneItems = useRef<Record<string, string[]>>({});
+
+  // Only devices that placed orders need to follow them
+  useLiveOrders(getPlacedOrderIds().length > 0);
+
+  const placedOrders = getPlacedOrdersToday(orders);
+  const readyOrders = placedOrders.filter(order => order.status === 'ready' && !acknowledgedIds.includes(order.id));
+
+  useEffect(() => {
+    const prefs = getReadyAlertPrefs();
+    getPlacedOrdersToday(orders).forEach(order => {
+      const previous = seenStatuses.current[order.id];
+      seenStatuses.current[order.id] = order.status;
+      if (previous && previous !== 'ready' && order.status === 'ready' && prefs.enabled) {
+        showReadyNotification(order);
+        playChime(prefs.chime);
+      }
+
+      const doneItems = order.items.filter(item => getItemPrepStatus(item, order) === 'done');
+      const previousDone = seenDoneItems.current[order.id];
+      seenDoneItems.current[order.id] = doneItems.map(item => item.id);
+      const newlyDone = doneItems.filter(item => previousDone && !previousDone.includes(item.id));
+      if (newlyDone.length > 0 && isInKitchen(order) && prefs.enabled) {
+        showPartialReadyNotification(order, newlyDone, order.items.length - doneItems.length);
+        playChime(prefs.chime);
+      }
+    });
+  }, [orders]);
+
+  // Flash the tab title while a ready order has not been picked up
+  const readyTitle = readyOrders.length > 0
+    ? `🔔 Order ${readyOrders.map(order => formatOrderNumber(order.orderNumber)).join(', ')} ready!`
+    : '';
+  useEffect(() => {
+    if (!readyTitle) return;
+    const originalTitle = document.title;
+    let showingAlert = false;
+    const interval = setInterval(() => {
+      showingAlert = !showingAlert;
+      document.title = showingAlert ? readyTitle : originalTitle;
+    }, 1000);
+    return () => {
+      clearInterval(interval);
+      document.title = originalTitle;
+    };
+  }, [readyTitle]);
+
+  /**
+   * The customer picked the order up: stop alerting about it on this device
+   */
+  const acknowledge = (orderId: string) => {
+    acknowledgeReadyOrder(orderId);
+    setAcknowledgedIds(getAcknowledgedOrderIds());
+  };
+
+  return {
+    readyOrders,
+    acknowledge,
+  };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { StageDurationStats, summarizeStageDurations } from '@/lib/orderEvents';
+
+/**
+ * Average time orders spent in each status since the given date
+ */
+export function useStageDurations(since: Date) {
+  const [stats, setStats] = useState<StageDurationStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const sinceIso = since.toISOString();
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchStats = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('order_stage_durations')
+          .select('status, seconds')
+          .gte('entered_at', sinceIso);
+
+        if (error) throw error;
+        if (!cancelled) setStats(summarizeStageDurations(data || []));
+      } catch (error) {
+        console.error('Error fetching stage durations:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchStats();
+    return () => {
+      cancelled = true;
+    };
+  }, [sinceIso]);
+
+  return {
+    stats,
+    loading,
+  };
+}
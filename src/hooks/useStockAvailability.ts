@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+
+export interface StockAvailability {
+  quantity: number;
+  reserved: number;
+  available: number;
+}
+
+export function useStockAvailability() {
+  const [availability, setAvailability] = useState<Record<string, StockAvailability>>({});
+
+  /**
+   * Fetch reserved vs available counts for every menu item
+   */
+  const fetchAvailability = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('menu_item_availability')
+        .select('*');
+
+      if (error) throw error;
+
+      const byItem: Record<string, StockAvailability> = {};
+      (data || []).forEach((row) => {
+        byItem[row.menu_item_id] = {
+          quantity: row.quantity,
+          reserved: row.reserved,
+          available: row.available,
+        };
+      });
+      setAvailability(byItem);
+    } catch (error) {
+      console.error('Error fetching stock availability:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [fetchAvailability]);
+
+  // Real-time subscription: holds come and go as carts change, stock as orders land
+  useEffect(() => {
+    const subscription = supabase
+      .channel('stock-availability-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'stock_reservations' }, () => {
+        fetchAvailability();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'menu_items' }, () => {
+        fetchAvailability();
+      })
+      .subscribe();
+
+    // Expired holds disappear without a table change, so refresh periodically too
+    const interval = setInterval(fetchAvailability, 60 * 1000);
+
+    return () => {
+      subscription.unsubscribe();
+      clearInterval(interval);
+    };
+  }, [fetchAvailability]);
+
+  return {
+    availability,
+    refreshAvailability: fetchAvailability,
+  };
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Order } from '@/types';
+import { useOrderStore } from '@/store/orderStore';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { KITCHEN_STATIONS_KEY, parseKitchenStations } from '@/lib/kitchenStations';
+import { estimateReadyMinutes, getPrepHistoryKey, getPrepTimeStats } from '@/lib/waitTimes';
+
+/**
+ * Minutes until each order should be ready, from the kitchen's recent pace and the
+ * orders ahead; follows the store and counts down while the screen is open
+ */
+export function useWaitEstimates() {
+  const { orders } = useOrderStore();
+  const { settings } = useAppSettings();
+  const [now, setNow] = useState(() => new Date());
+  const [stats, setStats] = useState(() => getPrepTimeStats(orders));
+  const storedStations = settings[KITCHEN_STATIONS_KEY];
+  const stations = useMemo(() => parseKitchenStations(storedStations), [storedStations]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // The averages only change when an order finishes or is sent back, and as the days go by
+  const historyKey = getPrepHistoryKey(orders);
+  const day = now.toDateString();
+  useEffect(() => {
+    setStats(getPrepTimeStats(useOrderStore.getState().orders, stations));
+  }, [historyKey, day, stations]);
+
+  const estimateMinutes = useCallback(
+    (order: Order) => estimateReadyMinutes(order, orders, stats, now),
+    [orders, stats, now]
+  );
+
+  return {
+    stats,
+    estimateMinutes,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Bump bar
+ * Keyboard control of the kitchen board, for a USB bump bar, a numpad or a plain
+ * keyboard: number keys pick an order, the other keys move it along. Which key does
+ * what is saved per device, since each kitchen screen has its own controller
+ */
+
+const KEY_MAP_STORAGE_KEY = 'kitchen_bump_keys';
+
+export type BumpAction = 'next' | 'previous' | 'bump' | 'undo' | 'recall';
+
+// Keys are KeyboardEvent.key values
+export type BumpKeyMap = Record<BumpAction, string[]>;
+
+export const BUMP_ACTION_LABELS: Record<BumpAction, string> = {
+  next: 'Select next order',
+  previous: 'Select previous order',
+  bump: 'Bump (advance status)',
+  undo: 'Undo (step status back)',
+  recall: 'Recall last bumped',
+};
+
+// Numpad friendly: Enter or + bumps, - undoes, . recalls
+export const DEFAULT_BUMP_KEYS: BumpKeyMap = {
+  next: ['ArrowRight', 'ArrowDown', '*'],
+  previous: ['ArrowLeft', 'ArrowUp', '/'],
+  bump: ['Enter', '+'],
+  undo: ['Backspace', '-'],
+  recall: ['.', 'r'],
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+};
+
+/**
+ * This device's key map; actions it does not mention keep their default keys
+ */
+export function getBumpKeyMap(): BumpKeyMap {
+  try {
+    const stored = JSON.parse(localStorage.getItem(KEY_MAP_STORAGE_KEY) || '{}');
+    return Object.fromEntries(
+      (Object.keys(DEFAULT_BUMP_KEYS) as BumpAction[]).map((action) => {
+        const keys = stored[action];
+        const valid = Array.isArray(keys) && keys.every((key) => typeof key === 'string');
+        return [action, valid ? keys : DEFAULT_BUMP_KEYS[action]];
+      })
+    ) as BumpKeyMap;
+  } catch {
+    return DEFAULT_BUMP_KEYS;
+  }
+}
+
+export function saveBumpKeyMap(keyMap: BumpKeyMap): void {
+  localStorage.setItem(KEY_MAP_STORAGE_KEY, JSON.stringify(keyMap));
+}
+
+/**
+ * The action a key is mapped to, if any
+ */
+export function getBumpAction(key: string, keyMap: BumpKeyMap): BumpAction | null {
+  const action = (Object.keys(keyMap) as BumpAction[]).find((candidate) => keyMap[candidate].includes(key));
+  return action ?? null;
+}
+
+/**
+ * Assign a key to an action, taking it off any other action so one key does one thing
+ */
+export function assignBumpKey(keyMap: BumpKeyMap, action: BumpAction, key: string): BumpKeyMap {
+  return Object.fromEntries(
+    (Object.keys(keyMap) as BumpAction[]).map((candidate) => {
+      const keys = keyMap[candidate].filter((existing) => existing !== key);
+      return [candidate, candidate === action ? [...keys, key] : keys];
+    })
+  ) as BumpKeyMap;
+}
+
+/**
+ * Index of the numbered order a key selects: 1-9 pick the first nine, 0 the tenth
+ */
+export function getSelectionIndex(key: string): number | null {
+  if (!/^[0-9]$/.test(key)) return null;
+  return key === '0' ? 9 : Number(key) - 1;
+}
+
+/**
+ * How a key is shown on screen
+ */
+export function formatBumpKey(key: string): string {
+  return KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
@@ -0,0 +1,83 @@
+/**
+ * Current PC
+ * Works out which shop PC this browser runs on, so orders are tagged with the PC
+ * instead of a number the customer types: the PC of the approved device token
+ * first, then the PC the public IP is registered to
+ */
+
+import { supabase } from '@/lib/supabase';
+import { getDeviceTokenFromStorage } from '@/lib/deviceTokens';
+
+export interface CurrentPc {
+  id: number;
+  pcNumber: string;
+  source: 'device_token' | 'ip';
+}
+
+let currentPcRequest: Promise<CurrentPc | null> | null = null;
+
+const findDeviceTokenPcId = async (): Promise<number | null> => {
+  const token = getDeviceTokenFromStorage();
+  if (!token) return null;
+
+  const { data, error } = await supabase
+    .from('device_tokens')
+    .select('pc_id')
+    .eq('token', token)
+    .eq('status', 'approved')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.pc_id ?? null;
+};
+
+const findRegisteredIpPcId = async (): Promise<number | null> => {
+  const response = await fetch('https://api.ipify.org?format=json');
+  const { ip } = await response.json();
+
+  const { data, error } = await supabase
+    .from('detected_ips')
+    .select('assigned_pc_id')
+    .eq('ip_address', ip)
+    .eq('status', 'registered')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.assigned_pc_id ?? null;
+};
+
+const lookUpCurrentPc = async (): Promise<CurrentPc | null> => {
+  try {
+    let source: CurrentPc['source'] = 'device_token';
+    let pcId = await findDeviceTokenPcId();
+    if (pcId === null) {
+      source = 'ip';
+      pcId = await findRegisteredIpPcId();
+    }
+    if (pcId === null) return null;
+
+    const { data, error } = await supabase
+      .from('pcs')
+      .select('id, pc_number')
+      .eq('id', pcId)
+      .single();
+
+    if (error) throw error;
+    return { id: data.id, pcNumber: data.pc_number, source };
+  } catch (error) {
+    console.error('Error resolving the current PC:', error);
+    return null;
+  }
+};
+
+/**
+ * The PC this browser is registered to, or null when it is not registered (or the
+ * lookup failed). Looked up once per page load unless `refresh` is set
+ */
+export function resolveCurrentPc({ refresh = false } = {}): Promise<CurrentPc | null> {
+  if (!currentPcRequest || refresh) {
+    currentPcRequest = lookUpCurrentPc();
+  }
+  return currentPcRequest;
+}
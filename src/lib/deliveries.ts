@@ -0,0 +1,138 @@
+/**
+ * Runner deliveries
+ * Ready orders are walked to the customer's PC. PCs are grouped into zones, each
+ * listing its PCs in the order a runner passes them; zones are walked in list order.
+ * Stored in app_settings `delivery_zones`
+ */
+
+import { Order } from '@/types';
+
+export const DELIVERY_ZONES_KEY = 'delivery_zones';
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  pcs: string[]; // PC numbers (e.g. PC-01) in walking order
+}
+
+export interface DeliveryStop {
+  stop: number; // place on the route, from 1
+  order: Order;
+}
+
+export interface DeliveryZoneGroup {
+  zone?: DeliveryZone; // missing for PCs that are in no zone
+  stops: DeliveryStop[];
+}
+
+export interface RunnerDeliveryStats {
+  runner: string;
+  delivered: number;
+  avgRunMinutes: number | null;
+}
+
+export interface DeliveryMetrics {
+  delivered: number;
+  avgWaitMinutes: number | null; // ready until a runner claimed it
+  avgRunMinutes: number | null; // claimed until delivered
+  avgTotalMinutes: number | null; // ready until delivered
+  runners: RunnerDeliveryStats[];
+}
+
+/**
+ * Read the stored zones, skipping malformed entries; an empty list means every PC is unzoned
+ */
+export function parseDeliveryZones(value: unknown): DeliveryZone[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .filter((entry) => typeof entry.id === 'string' && typeof entry.name === 'string' && entry.name.trim() !== '')
+    .map((entry) => ({
+      id: entry.id as string,
+      name: (entry.name as string).trim(),
+      pcs: Array.isArray(entry.pcs) ? entry.pcs.filter((pc): pc is string => typeof pc === 'string') : [],
+    }));
+}
+
+/**
+ * The zone the order's PC is in, if any
+ */
+export function getOrderZone(order: Order, zones: DeliveryZone[]): DeliveryZone | undefined {
+  return zones.find((zone) => zone.pcs.includes(order.terminal));
+}
+
+/**
+ * Orders grouped by zone in walking order, numbered along the route; PCs in no zone
+ * come last, by PC number. Orders for the same PC stay oldest first
+ */
+export function planDeliveryRoute(orders: Order[], zones: DeliveryZone[]): DeliveryZoneGroup[] {
+  const groups: { zone?: DeliveryZone; orders: Order[] }[] = [
+    ...zones.map((zone) => ({ zone, orders: [] as Order[] })),
+    { orders: [] },
+  ];
+  orders.forEach((order) => {
+    const zoneIndex = zones.findIndex((zone) => zone.pcs.includes(order.terminal));
+    groups[zoneIndex === -1 ? zones.length : zoneIndex].orders.push(order);
+  });
+
+  let stop = 0;
+  return groups
+    .filter((group) => group.orders.length > 0)
+    .map(({ zone, orders: zoneOrders }) => ({
+      zone,
+      stops: [...zoneOrders]
+        .sort((a, b) => {
+          const byPc = zone
+            ? zone.pcs.indexOf(a.terminal) - zone.pcs.indexOf(b.terminal)
+            : a.terminal.localeCompare(b.terminal, undefined, { numeric: true });
+          return byPc || a.createdAt.getTime() - b.createdAt.getTime();
+        })
+        .map((order) => ({ stop: ++stop, order })),
+    }));
+}
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * How quickly the delivered orders among these reached their PC, overall and per runner
+ */
+export function getDeliveryMetrics(orders: Order[]): DeliveryMetrics {
+  const delivered = orders.filter((order) => order.deliveredAt);
+
+  const waits: number[] = [];
+  const runs: number[] = [];
+  const totals: number[] = [];
+  const byRunner = new Map<string, number[]>();
+
+  delivered.forEach((order) => {
+    const deliveredAt = order.deliveredAt as Date;
+    const runner = order.deliveredBy || 'Unknown';
+    if (!byRunner.has(runner)) byRunner.set(runner, []);
+
+    if (order.readyAt && order.outForDeliveryAt) waits.push(minutesBetween(order.readyAt, order.outForDeliveryAt));
+    if (order.readyAt) totals.push(minutesBetween(order.readyAt, deliveredAt));
+    if (order.outForDeliveryAt) {
+      const run = minutesBetween(order.outForDeliveryAt, deliveredAt);
+      runs.push(run);
+      byRunner.get(runner)?.push(run);
+    }
+  });
+
+  return {
+    delivered: delivered.length,
+    avgWaitMinutes: average(waits),
+    avgRunMinutes: average(runs),
+    avgTotalMinutes: average(totals),
+    runners: [...byRunner.entries()]
+      .map(([runner, runnerRuns]) => ({
+        runner,
+        delivered: delivered.filter((order) => (order.deliveredBy || 'Unknown') === runner).length,
+        avgRunMinutes: average(runnerRuns),
+      }))
+      .sort((a, b) => b.delivered - a.delivered),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Atomic stock adjustments
+ * All changes to menu_items.quantity go through database functions that lock the rows
+ * and refuse to go below zero, so concurrent orders cannot oversell an item
+ */
+
+import { supabase } from '@/lib/supabase';
+import { StockShortage } from '@/types';
+
+export interface StockAdjustment {
+  menuItemId: string;
+  quantity: number;
+}
+
+/**
+ * Thrown when one or more items do not have enough stock left
+ */
+export class InsufficientStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(formatShortages(shortages));
+    this.name = 'InsufficientStockError';
+    this.shortages = shortages;
+  }
+}
+
+/**
+ * Build a customer-facing conflict message, e.g. "Only 2 Iced Coffee left"
+ */
+export function formatShortages(shortages: StockShortage[]): string {
+  return shortages
+    .map((shortage) =>
+      shortage.available > 0
+        ? `Only ${shortage.available} ${shortage.name} left`
+        : `${shortage.name} is out of stock`
+    )
+    .join('. ');
+}
+
+/**
+ * Convert a database error into an InsufficientStockError when it carries a
+ * shortage list (raised by raise_insufficient_stock), or a plain Error otherwise
+ */
+export function toStockError(
+  error: { message?: string; details?: string; hint?: string } | null,
+  fallbackMessage: string
+): Error {
+  if (error?.hint === 'insufficient_stock' && error.details) {
+    try {
+      const rows = JSON.parse(error.details) as Array<{
+        menu_item_id: string;
+        name: string;
+        requested: number;
+        available: number;
+      }>;
+      return new InsufficientStockError(
+        rows.map((row) => ({
+          menuItemId: row.menu_item_id,
+          name: row.name,
+          requested: row.requested,
+          available: row.available,
+        }))
+      );
+    } catch (parseError) {
+      console.warn('Could not parse stock shortage details:', parseError);
+    }
+  }
+  return new Error(error?.message || fallbackMessage);
+}
+
+const toPayload = (items: StockAdjustment[]) =>
+  items.map((item) => ({ menu_item_id: item.menuItemId, quantity: item.quantity }));
+
+/**
+ * Decrement stock for all items at once; throws InsufficientStockError and changes nothing when any is short
+ */
+export async function decrementStock(items: StockAdjustment[]): Promise<void> {
+  const { error } = await supabase.rpc('decrement_stock', { p_items: toPayload(items) });
+  if (error) {
+    throw toStockError(error, 'Could not update stock');
+  }
+}
+
+/**
+ * Give stock back for all items at once
+ */
+export async function incrementStock(items: StockAdjustment[]): Promise<void> {
+  const { error } = await supabase.rpc('increment_stock', { p_items: toPayload(items) });
+  if (error) {
+    throw toStockError(error, 'Could not restore stock');
+  }
+}
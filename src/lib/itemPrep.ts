@@ -0,0 +1,46 @@
+/**
+ * Item preparation status
+ * The kitchen moves each item of an order from queued to cooking to done; the order
+ * turns ready once every item is done (the database decides, see update_item_status)
+ */
+
+import { ItemPrepStatus, Order, OrderItem } from '@/types';
+import { isInKitchen } from '@/lib/orderTracking';
+
+export const ITEM_PREP_LABELS: Record<ItemPrepStatus, string> = {
+  queued: 'Queued',
+  cooking: 'Cooking',
+  done: 'Done',
+};
+
+export interface ItemProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Status of an item on the order; everything counts as done once the order has left the kitchen
+ */
+export function getItemPrepStatus(item: OrderItem, order: Order): ItemPrepStatus {
+  if (!isInKitchen(order)) return 'done';
+  return item.prepStatus ?? 'queued';
+}
+
+/**
+ * The status a tap on the item moves it to: queued, cooking, done, then back to queued
+ */
+export function nextItemPrepStatus(status: ItemPrepStatus): ItemPrepStatus {
+  if (status === 'queued') return 'cooking';
+  if (status === 'cooking') return 'done';
+  return 'queued';
+}
+
+/**
+ * How many of the order's items (lines, not units) are done
+ */
+export function getItemProgress(order: Order, items: OrderItem[] = order.items): ItemProgress {
+  return {
+    done: items.filter((item) => getItemPrepStatus(item, order) === 'done').length,
+    total: items.length,
+  };
+}
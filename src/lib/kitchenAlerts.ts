@@ -0,0 +1,82 @@
+/**
+ * Kitchen alerts
+ * How long orders have been waiting on the kitchen board: each shop sets when an
+ * order turns amber and when it is late (its service level, SLA). Each kitchen
+ * screen also chooses whether new orders play a sound
+ */
+
+import { Order } from '@/types';
+import { isInKitchen } from '@/lib/orderTracking';
+import { isCancelledStatus } from '@/lib/orderCancellation';
+
+export const KITCHEN_AGEING_KEY = 'kitchen_ageing';
+const SOUND_STORAGE_KEY = 'kitchen_new_order_sound';
+
+export interface AgeingThresholds {
+  warnMinutes: number; // the card turns amber
+  lateMinutes: number; // the card turns red and the order breaches the SLA
+}
+
+export type AgeLevel = 'fresh' | 'warning' | 'late';
+
+export const DEFAULT_AGEING_THRESHOLDS: AgeingThresholds = { warnMinutes: 10, lateMinutes: 20 };
+
+const toMinutes = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+/**
+ * Read the shop's thresholds from the stored setting, falling back to the defaults
+ */
+export function parseAgeingThresholds(value: unknown): AgeingThresholds {
+  if (!value || typeof value !== 'object') return DEFAULT_AGEING_THRESHOLDS;
+  const stored = value as Record<string, unknown>;
+  const warnMinutes = toMinutes(stored.warnMinutes, DEFAULT_AGEING_THRESHOLDS.warnMinutes);
+  const lateMinutes = toMinutes(stored.lateMinutes, DEFAULT_AGEING_THRESHOLDS.lateMinutes);
+  return { warnMinutes: Math.min(warnMinutes, lateMinutes), lateMinutes };
+}
+
+/**
+ * Whole minutes since the order was placed
+ */
+export function getOrderAgeMinutes(order: Order, now = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - order.createdAt.getTime()) / 60000));
+}
+
+/**
+ * How worried the kitchen should be about an order; only orders it still has to make age
+ */
+export function getAgeLevel(order: Order, thresholds: AgeingThresholds, now = new Date()): AgeLevel {
+  if (!isInKitchen(order)) return 'fresh';
+  const minutes = getOrderAgeMinutes(order, now);
+  if (minutes >= thresholds.lateMinutes) return 'late';
+  if (minutes >= thresholds.warnMinutes) return 'warning';
+  return 'fresh';
+}
+
+/**
+ * True when the order took longer than the SLA to be ready, or is still in the kitchen past it
+ */
+export function isSlaBreached(order: Order, thresholds: AgeingThresholds, now = new Date()): boolean {
+  if (isCancelledStatus(order.status)) return false;
+  const readyBy = order.createdAt.getTime() + thresholds.lateMinutes * 60000;
+  if (isInKitchen(order)) return now.getTime() >= readyBy;
+  return !!order.readyAt && order.readyAt.getTime() > readyBy;
+}
+
+/**
+ * Orders placed since the given time that breached the SLA
+ */
+export function countSlaBreaches(orders: Order[], thresholds: AgeingThresholds, since: Date, now = new Date()): number {
+  return orders.filter((order) => order.createdAt >= since && isSlaBreached(order, thresholds, now)).length;
+}
+
+/**
+ * Whether this kitchen screen plays a sound for new orders
+ */
+export function getNewOrderSound(): boolean {
+  return localStorage.getItem(SOUND_STORAGE_KEY) === 'on';
+}
+
+export function saveNewOrderSound(enabled: boolean): void {
+  localStorage.setItem(SOUND_STORAGE_KEY, enabled ? 'on' : 'off');
+}
@@ -0,0 +1,98 @@
+/**
+ * Kitchen stations
+ * Stations (grill, drinks, ...) each take the menu categories and items they prepare,
+ * have their own ticket printer and their own board (/kitchen?station=<id>). An order
+ * is ready once every station with items on it has finished its ticket.
+ * Stored in app_settings `kitchen_stations`
+ */
+
+import { Order, OrderItem } from '@/types';
+import { PaperWidth } from '@/lib/receipts';
+
+export const KITCHEN_STATIONS_KEY = 'kitchen_stations';
+
+// browser: print dialog, file: save the ESC/POS file, network: POST the ESC/POS bytes to a print bridge
+export type PrintTarget = 'browser' | 'file' | 'network';
+
+export interface KitchenStation {
+  id: string;
+  name: string;
+  categories: string[]; // menu category ids; empty takes every item no other station claims
+  items: string[]; // menu item ids, taken here whatever their category
+  printTarget: PrintTarget;
+  printerUrl?: string; // print bridge endpoint for the network target
+  paperWidth: PaperWidth;
+}
+
+export const PRINT_TARGET_LABELS: Record<PrintTarget, string> = {
+  browser: 'Browser print dialog',
+  file: 'Save ESC/POS file',
+  network: 'Network printer (print bridge)',
+};
+
+// Used until stations are set up: one kitchen that makes everything
+export const DEFAULT_KITCHEN_STATION: KitchenStation = {
+  id: 'kitchen',
+  name: 'Kitchen',
+  categories: [],
+  items: [],
+  printTarget: 'browser',
+  paperWidth: '80mm',
+};
+
+const PRINT_TARGETS = Object.keys(PRINT_TARGET_LABELS) as PrintTarget[];
+
+/**
+ * Read the stored stations, skipping malformed entries; never returns an empty list
+ */
+export function parseKitchenStations(value: unknown): KitchenStation[] {
+  if (!Array.isArray(value)) return [DEFAULT_KITCHEN_STATION];
+
+  const stations = value
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .filter((entry) => typeof entry.id === 'string' && typeof entry.name === 'string' && entry.name.trim() !== '')
+    .map((entry) => ({
+      id: entry.id as string,
+      name: (entry.name as string).trim(),
+      categories: Array.isArray(entry.categories) ? entry.categories.filter((c): c is string => typeof c === 'string') : [],
+      items: Array.isArray(entry.items) ? entry.items.filter((i): i is string => typeof i === 'string') : [],
+      printTarget: PRINT_TARGETS.includes(entry.printTarget as PrintTarget) ? entry.printTarget as PrintTarget : 'browser',
+      printerUrl: typeof entry.printerUrl === 'string' && entry.printerUrl.trim() ? entry.printerUrl.trim() : undefined,
+      paperWidth: entry.paperWidth === '58mm' ? '58mm' : '80mm',
+    } as KitchenStation));
+
+  return stations.length > 0 ? stations : [DEFAULT_KITCHEN_STATION];
+}
+
+/**
+ * The station an item goes to: the one it is assigned to, otherwise the first one that
+ * takes its category, otherwise the first catch-all station (no categories), otherwise
+ * the first station, so no item is lost
+ */
+export function getItemStation(item: Pick<OrderItem, 'menuItem'>, stations: KitchenStation[]): KitchenStation | undefined {
+  return stations.find((station) => station.items.includes(item.menuItem.id))
+    ?? stations.find((station) => station.categories.includes(item.menuItem.category))
+    ?? stations.find((station) => station.categories.length === 0)
+    ?? stations[0];
+}
+
+/**
+ * The order's items that a station prepares
+ */
+export function getStationItems<T extends Pick<OrderItem, 'menuItem'>>(items: T[], station: KitchenStation, stations: KitchenStation[]): T[] {
+  return items.filter((item) => getItemStation(item, stations)?.id === station.id);
+}
+
+/**
+ * The stations that have items on the order, in station order
+ */
+export function getOrderStations(order: Pick<Order, 'items'>, stations: KitchenStation[]): KitchenStation[] {
+  return stations.filter((station) => getStationItems(order.items, station, stations).length > 0);
+}
+
+/**
+ * True once the station has finished its part of the order, or the whole order is ready
+ */
+export function isStationTicketDone(order: Order, stationId: string): boolean {
+  return !!order.stationsDone[stationId] || !['pending', 'preparing'].includes(order.status);
+}
@@ -0,0 +1,125 @@
+/**
+ * Kitchen tickets
+ * Paper tickets for the cooks, one per station with the items that station makes.
+ * Laid out as receipt lines so the HTML and ESC/POS renderers from receipts.ts apply
+ */
+
+import { Order } from '@/types';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { ReceiptLine, downloadEscPos, printReceiptHtml, renderReceiptEscPos, renderReceiptHtml } from '@/lib/receipts';
+import { KitchenStation, getStationItems } from '@/lib/kitchenStations';
+
+export interface KitchenTicket {
+  station: KitchenStation;
+  lines: ReceiptLine[];
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString('en-PH', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Lay out one station's ticket: large order number and PC, then the items with their
+ * modifiers and notes, and the time the order came in
+ */
+export function buildKitchenTicket(
+  order: Order,
+  station: KitchenStation,
+  stations: KitchenStation[],
+  { reprint = false, printedAt = new Date() } = {}
+): KitchenTicket | null {
+  const items = getStationItems(order.items, station, stations);
+  if (items.length === 0) return null;
+
+  const lines: ReceiptLine[] = [
+    { kind: 'text', text: station.name.toUpperCase(), align: 'center', bold: true },
+  ];
+  if (reprint) {
+    lines.push({ kind: 'text', text: '*** REPRINT ***', align: 'center', bold: true });
+  }
+  lines.push({ kind: 'text', text: `ORDER ${formatOrderNumber(order.orderNumber)}`, align: 'center', bold: true, large: true });
+  lines.push({ kind: 'text', text: order.terminal, align: 'center', bold: true, large: true });
+  if (order.customerName) {
+    lines.push({ kind: 'text', text: order.customerName, align: 'center' });
+  }
+  lines.push({ kind: 'divider' });
+
+  items.forEach((item) => {
+    lines.push({ kind: 'text', text: `${item.quantity}x ${item.menuItem.name}`, bold: true, large: true });
+    item.modifiers.forEach((modifier) => {
+      const label = modifier.quantity > 1 ? `${modifier.quantity}x ${modifier.name}` : modifier.name;
+      lines.push({ kind: 'row', left: `+ ${label}`, right: '', indent: true });
+    });
+    if (item.notes) {
+      lines.push({ kind: 'row', left: `NOTE: ${item.notes}`, right: '', bold: true, indent: true });
+    }
+  });
+  lines.push({ kind: 'divider' });
+
+  const count = items.reduce((total, item) => total + item.quantity, 0);
+  lines.push({ kind: 'row', left: `${count} item${count !== 1 ? 's' : ''}`, right: `In ${formatTime(order.createdAt)}` });
+  lines.push({ kind: 'row', left: '', right: `Printed ${formatTime(printedAt)}` });
+
+  return { station, lines };
+}
+
+/**
+ * Tickets for every station that has items on the order
+ */
+export function buildKitchenTickets(order: Order, stations: KitchenStation[], options: { reprint?: boolean } = {}): KitchenTicket[] {
+  return stations
+    .map((station) => buildKitchenTicket(order, station, stations, options))
+    .filter((ticket): ticket is KitchenTicket => ticket !== null);
+}
+
+/**
+ * Send a ticket to its station's print target. The network target POSTs the raw
+ * ESC/POS bytes to the station's print bridge (see scripts/print-bridge.mjs)
+ */
+export async function printKitchenTicket(ticket: KitchenTicket, order: Order): Promise<void> {
+  const { station, lines } = ticket;
+
+  if (station.printTarget === 'browser') {
+    printReceiptHtml(renderReceiptHtml(lines, station.paperWidth));
+    return;
+  }
+
+  const bytes = renderReceiptEscPos(lines, station.paperWidth);
+  if (station.printTarget === 'file') {
+    downloadEscPos(bytes, `ticket-${order.orderNumber || order.id}-${station.id}.bin`);
+    return;
+  }
+
+  if (!station.printerUrl) {
+    throw new Error(`No printer address set for ${station.name}`);
+  }
+  const response = await fetch(station.printerUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: bytes,
+  });
+  if (!response.ok) {
+    throw new Error(`${station.name} printer answered ${response.status}`);
+  }
+}
+
+/**
+ * Print the order's tickets at every station, or only at `stationId`; returns the
+ * stations that failed with why
+ */
+export async function printKitchenTickets(
+  order: Order,
+  stations: KitchenStation[],
+  options: { reprint?: boolean; stationId?: string } = {}
+): Promise<{ station: KitchenStation; error: string }[]> {
+  const failures: { station: KitchenStation; error: string }[] = [];
+  const tickets = buildKitchenTickets(order, stations, options)
+    .filter((ticket) => !options.stationId || ticket.station.id === options.stationId);
+  for (const ticket of tickets) {
+    try {
+      await printKitchenTicket(ticket, order);
+    } catch (error) {
+      console.error(`Error printing kitchen ticket for ${ticket.station.name}:`, error);
+      failures.push({ station: ticket.station, error: error instanceof Error ? error.message : 'Failed to print' });
+    }
+  }
+  return failures;
+}
@@ -0,0 +1,153 @@
+/**
+ * Order item modifiers
+ * Menu items expose their add-ons and flavors as modifier groups with selection limits;
+ * the chosen options travel with the order item and are stored in `order_item_modifiers`
+ */
+
+import { MenuItem, ModifierGroup, OrderItemModifier } from '@/types';
+import { formatMoney } from '@/lib/tax';
+
+export const ADD_ONS_GROUP_ID = 'add-ons';
+export const FLAVOR_GROUP_ID = 'flavor';
+
+/**
+ * The modifier groups a customer can choose from for a menu item
+ */
+export function getModifierGroups(item: MenuItem): ModifierGroup[] {
+  const groups: ModifierGroup[] = [];
+
+  if (item.customization && item.customization.length > 0) {
+    groups.push({
+      id: ADD_ONS_GROUP_ID,
+      name: 'Add-ons',
+      minSelections: 0,
+      maxSelections: item.customization.length,
+      allowQuantity: true,
+      options: item.customization.map((option) =>
+        typeof option === 'string' ? { name: option, price: 0 } : { name: option.name, price: option.price || 0 }
+      ),
+    });
+  }
+
+  if (item.flavors && item.flavors.length > 0) {
+    groups.push({
+      id: FLAVOR_GROUP_ID,
+      name: 'Flavor',
+      minSelections: 0,
+      maxSelections: 1,
+      allowQuantity: false,
+      options: item.flavors.map((flavor) => ({ name: flavor, price: 0 })),
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * Check the selection against each group's limits; returns the first problem or null
+ */
+export function validateModifiers(groups: ModifierGroup[], modifiers: OrderItemModifier[]): string | null {
+  for (const group of groups) {
+    const selected = modifiers.filter((m) => m.groupId === group.id && m.quantity > 0).length;
+    if (selected < group.minSelections) {
+      return group.minSelections === 1
+        ? `Please choose a ${group.name.toLowerCase()}`
+        : `Please choose at least ${group.minSelections} ${group.name.toLowerCase()}`;
+    }
+    if (selected > group.maxSelections) {
+      return `Choose at most ${group.maxSelections} ${group.name.toLowerCase()}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Modifiers grouped for display, keeping the order in which groups were chosen
+ */
+export function groupModifiers(modifiers: OrderItemModifier[]) {
+  const groups: { groupId: string; groupName: string; modifiers: OrderItemModifier[] }[] = [];
+  modifiers.forEach((modifier) => {
+    let group = groups.find((g) => g.groupId === modifier.groupId);
+    if (!group) {
+      group = { groupId: modifier.groupId, groupName: modifier.groupName, modifiers: [] };
+      groups.push(group);
+    }
+    group.modifiers.push(modifier);
+  });
+  return groups;
+}
+
+/**
+ * "2x Cheese (+₱40.00)", in the shop's currency
+ */
+export function formatModifier(modifier: OrderItemModifier, withPrice = true, currencySymbol?: string): string {
+  const label = modifier.quantity > 1 ? `${modifier.quantity}x ${modifier.name}` : modifier.name;
+  const price = modifier.price * modifier.quantity;
+  return withPrice && price > 0 ? `${label} (+${formatMoney(price, currencySymbol)})` : label;
+}
+
+/**
+ * Modifiers in the shape submit_order stores in `order_item_modifiers`
+ */
+export function toModifierRows(modifiers: OrderItemModifier[]) {
+  return modifiers.map((m) => ({
+    group_id: m.groupId,
+    group_name: m.groupName,
+    name: m.name,
+    price: m.price,
+    quantity: m.quantity,
+  }));
+}
+
+interface ModifierRow {
+  group_id: string;
+  group_name: string;
+  name: string;
+  price: string | number;
+  quantity: number;
+  position: number | null;
+}
+
+interface OrderItemModifierSource {
+  order_item_modifiers?: ModifierRow[] | null;
+  customizations?: string[] | null;
+  flavors?: string[] | null;
+}
+
+/**
+ * Read the modifiers of an `order_items` row. Rows saved before modifiers had their own
+ * table carry them as JSON strings in `customizations` and plain names in `flavors`.
+ */
+export function fromModifierRows(orderItem: OrderItemModifierSource): OrderItemModifier[] {
+  if (Array.isArray(orderItem.order_item_modifiers) && orderItem.order_item_modifiers.length > 0) {
+    return [...orderItem.order_item_modifiers]
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map((row) => ({
+        groupId: row.group_id,
+        groupName: row.group_name,
+        name: row.name,
+        price: Number(row.price) || 0,
+        quantity: row.quantity,
+      }));
+  }
+
+  const legacy: OrderItemModifier[] = [];
+  (orderItem.customizations || []).forEach((custom) => {
+    try {
+      const parsed = custom.startsWith('{') ? JSON.parse(custom) : { name: custom };
+      legacy.push({
+        groupId: ADD_ONS_GROUP_ID,
+        groupName: 'Add-ons',
+        name: parsed.name,
+        price: parsed.price || 0,
+        quantity: parsed.quantity || 1,
+      });
+    } catch (e) {
+      legacy.push({ groupId: ADD_ONS_GROUP_ID, groupName: 'Add-ons', name: custom, price: 0, quantity: 1 });
+    }
+  });
+  (orderItem.flavors || []).forEach((flavor) => {
+    legacy.push({ groupId: FLAVOR_GROUP_ID, groupName: 'Flavor', name: flavor, price: 0, quantity: 1 });
+  });
+  return legacy;
+}
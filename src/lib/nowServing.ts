@@ -0,0 +1,107 @@
+/**
+ * Now Serving display
+ * What the wall TV shows: the order numbers being prepared and ready for pickup,
+ * spoken announcements of newly ready orders, and slides of promotions and menu
+ * items while there is nothing to show
+ */
+
+import { MenuCategory, MenuItem, Order, Promotion } from '@/types';
+import { describePromotion } from '@/lib/promotions';
+import { formatMoney } from '@/lib/tax';
+
+const ANNOUNCE_STORAGE_KEY = 'now_serving_announce';
+// Orders older than this are left off the screen, so one nobody closed does not stay up for days
+const MAX_ORDER_AGE_HOURS = 12;
+
+export interface NowServingOrders {
+  preparing: Order[]; // oldest first
+  ready: Order[]; // most recently ready first
+}
+
+export interface ServingSlide {
+  id: string;
+  title: string;
+  subtitle: string;
+  image?: string;
+}
+
+/**
+ * The orders to show, split into the two columns; orders out with a runner are left out
+ */
+export function getNowServingOrders(orders: Order[], now = new Date()): NowServingOrders {
+  const since = now.getTime() - MAX_ORDER_AGE_HOURS * 60 * 60 * 1000;
+  const recent = orders.filter((order) => order.createdAt.getTime() >= since && order.orderNumber > 0);
+  return {
+    preparing: recent
+      .filter((order) => order.status === 'pending' || order.status === 'preparing')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    ready: recent
+      .filter((order) => order.status === 'ready')
+      .sort((a, b) => (b.readyAt ?? b.createdAt).getTime() - (a.readyAt ?? a.createdAt).getTime()),
+  };
+}
+
+/**
+ * Slides for an idle screen: running promotions first, then available menu items with a photo
+ */
+export function getServingSlides(
+  promotions: Promotion[],
+  menuItems: MenuItem[],
+  categories: MenuCategory[],
+  now = new Date(),
+  currencySymbol?: string
+): ServingSlide[] {
+  const running = promotions.filter((promotion) =>
+    promotion.active &&
+    (!promotion.startsAt || promotion.startsAt <= now) &&
+    (!promotion.endsAt || promotion.endsAt > now)
+  );
+  const categoryName = (categoryId?: string) =>
+    categoryId ? categories.find((category) => category.id === categoryId)?.name || categoryId : undefined;
+
+  return [
+    ...running.map((promotion) => ({
+      id: `promotion-${promotion.id}`,
+      title: promotion.name,
+      subtitle: promotion.code
+        ? `${describePromotion(promotion, categoryName(promotion.category), currencySymbol)} with code ${promotion.code}`
+        : describePromotion(promotion, categoryName(promotion.category), currencySymbol),
+    })),
+    ...menuItems
+      .filter((item) => item.available && item.image)
+      .map((item) => ({
+        id: `item-${item.id}`,
+        title: item.name,
+        subtitle: formatMoney(item.price, currencySymbol),
+        image: item.image,
+      })),
+  ];
+}
+
+/**
+ * Whether this screen reads newly ready order numbers aloud
+ */
+export function getAnnounceReady(): boolean {
+  return localStorage.getItem(ANNOUNCE_STORAGE_KEY) === 'on';
+}
+
+export function saveAnnounceReady(enabled: boolean): void {
+  localStorage.setItem(ANNOUNCE_STORAGE_KEY, enabled ? 'on' : 'off');
+}
+
+/**
+ * True when the browser can speak at all
+ */
+export function speechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Read "Order number 12 is ready" aloud through the browser's speech synthesis
+ */
+export function announceReady(orderNumber: number): void {
+  if (!speechSupported()) return;
+  const utterance = new SpeechSynthesisUtterance(`Order number ${orderNumber} is ready for pickup`);
+  utterance.rate = 0.9;
+  window.speechSynthesis.speak(utterance);
+}
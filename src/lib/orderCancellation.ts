@@ -0,0 +1,76 @@
+/**
+ * Order cancellation helpers
+ * Cancelled and voided orders stay in history but no longer count as sales,
+ * and customers can cancel the orders placed from their own device while still pending
+ */
+
+import { Order, CancellationStatus } from '@/types';
+
+const PLACED_ORDERS_STORAGE_KEY = 'placed_order_ids';
+const OWNER_TOKEN_STORAGE_KEY = 'order_owner_token';
+const MAX_PLACED_ORDERS = 20;
+
+export const CUSTOMER_CANCEL_REASONS = [
+  'Ordered by mistake',
+  'Changed my mind',
+  'Taking too long',
+  'Leaving the shop',
+];
+
+/**
+ * True for orders that were cancelled or voided
+ */
+export function isCancelledStatus(status: Order['status']): status is CancellationStatus {
+  return status === 'cancelled' || status === 'voided';
+}
+
+/**
+ * Secret this device submits its orders with; the server keeps only a hash of it and
+ * asks for it again before letting a customer cancel
+ */
+export function getOrderOwnerToken(): string {
+  let token = localStorage.getItem(OWNER_TOKEN_STORAGE_KEY);
+  if (!token) {
+    token = crypto.randomUUID();
+    localStorage.setItem(OWNER_TOKEN_STORAGE_KEY, token);
+  }
+  return token;
+}
+
+/**
+ * Remember an order placed from this device (by its client request id, which
+ * stays the same while an offline order is synced)
+ */
+export function rememberPlacedOrder(clientRequestId: string | undefined): void {
+  if (!clientRequestId) return;
+  const placed = getPlacedOrderIds().filter((id) => id !== clientRequestId);
+  localStorage.setItem(
+    PLACED_ORDERS_STORAGE_KEY,
+    JSON.stringify([clientRequestId, ...placed].slice(0, MAX_PLACED_ORDERS))
+  );
+}
+
+/**
+ * Client request ids of the orders placed from this device, newest first
+ */
+export function getPlacedOrderIds(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PLACED_ORDERS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Today's orders placed from this device
+ */
+export function getPlacedOrdersToday(orders: Order[]): Order[] {
+  const placedIds = getPlacedOrderIds();
+  const today = new Date().toDateString();
+  return orders.filter(order =>
+    order.clientRequestId &&
+    placedIds.includes(order.clientRequestId) &&
+    order.createdAt.toDateString() === today
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Order events
+ * The history of status changes kept in `order_events`: who moved an order, from
+ * which device and when, and how long it spent in each status
+ */
+
+import { Order, OrderEvent } from '@/types';
+import { adminSessionManager, staffSessionManager } from '@/lib/sessionManager';
+import { getDeviceNameFromStorage } from '@/lib/deviceTokens';
+import { getPromotionDeviceId } from '@/lib/promotions';
+
+// Shape of an `order_events` row
+interface OrderEventRow {
+  id: string;
+  order_id: string;
+  from_status: Order['status'] | null;
+  to_status: Order['status'];
+  changed_by: string | null;
+  device: string | null;
+  created_at: string;
+}
+
+// Shape of an `order_stage_durations` row
+interface StageDurationRow {
+  status: Order['status'];
+  seconds: string | number | null;
+}
+
+export interface OrderStage {
+  event: OrderEvent; // the change that moved the order into this status
+  leftAt?: Date; // missing for the status the order is in now
+  minutes: number; // so far, for the current status
+}
+
+export interface StageDurationStats {
+  status: Order['status'];
+  orders: number;
+  avgMinutes: number;
+  maxMinutes: number;
+}
+
+/**
+ * Convert an `order_events` row to the OrderEvent type
+ */
+export function fromOrderEventRow(row: OrderEventRow): OrderEvent {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    fromStatus: row.from_status || undefined,
+    toStatus: row.to_status,
+    changedBy: row.changed_by || undefined,
+    device: row.device || undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * The signed-in admin or staff member, recorded on the status changes they make;
+ * null on customer devices
+ */
+export function getStatusActor(): string | null {
+  return adminSessionManager.getSession()?.email || staffSessionManager.getSession()?.email || null;
+}
+
+/**
+ * How this device shows up in the history: its registered name, or a short id
+ */
+export function getStatusDevice(): string {
+  return getDeviceNameFromStorage() || `Device ${getPromotionDeviceId().slice(0, 8)}`;
+}
+
+/**
+ * Each status the order went through with how long it stayed there, oldest first
+ */
+export function getOrderStages(events: OrderEvent[], now = new Date()): OrderStage[] {
+  const sorted = [...events].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  return sorted.map((event, index) => {
+    const leftAt = sorted[index + 1]?.createdAt;
+    return {
+      event,
+      leftAt,
+      minutes: ((leftAt ?? now).getTime() - event.createdAt.getTime()) / 60000,
+    };
+  });
+}
+
+/**
+ * Average and longest time orders spent in each status, from `order_stage_durations`
+ * rows; statuses orders are still in are left out
+ */
+export function summarizeStageDurations(rows: StageDurationRow[]): StageDurationStats[] {
+  const byStatus = new Map<Order['status'], number[]>();
+  rows.forEach((row) => {
+    if (row.seconds === null) return;
+    const minutes = Number(row.seconds) / 60;
+    byStatus.set(row.status, [...(byStatus.get(row.status) ?? []), minutes]);
+  });
+
+  return [...byStatus.entries()].map(([status, minutes]) => ({
+    status,
+    orders: minutes.length,
+    avgMinutes: minutes.reduce((sum, value) => sum + value, 0) / minutes.length,
+    maxMinutes: Math.max(...minutes),
+  }));
+}
@@ -0,0 +1,15 @@
+/**
+ * Order number helpers
+ * Numbers are allocated by the database per business day (see submit_order),
+ * so every screen and printout shows them the same way
+ */
+
+export const BUSINESS_DAY_CUTOFF_KEY = 'business_day_cutoff';
+export const DEFAULT_BUSINESS_DAY_CUTOFF = '04:00';
+
+/**
+ * "#12", or "#—" for an offline order that has not been given a number yet
+ */
+export function formatOrderNumber(orderNumber: number): string {
+  return orderNumber > 0 ? `#${orderNumber}` : '#—';
+}
@@ -0,0 +1,120 @@
+/**
+ * Order outbox
+ * Persists order mutations in IndexedDB while Supabase is unreachable so they can be
+ * replayed in the original order once the connection is back
+ */
+
+export type OutboxMutationType = 'submit_order' | 'update_status' | 'delete_order';
+
+export interface OutboxMutation {
+  seq?: number; // assigned by IndexedDB, defines replay order
+  idempotencyKey: string; // sent with status changes so the server applies each one once; deletes are idempotent already
+  type: OutboxMutationType;
+  orderId: string;
+  payload: Record<string, unknown>;
+  baseVersion?: string; // orders.updated_at the change was made against
+  createdAt: number;
+}
+
+const DB_NAME = 'order_outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create on first use) the outbox database
+ */
+function getDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Run one request in a transaction and resolve once the transaction has committed
+ */
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await getDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * True when a Supabase response failed because the server could not be reached
+ * (the client reports those with HTTP status 0)
+ */
+export function isNetworkFailure(status: number | undefined): boolean {
+  return status === 0 || !navigator.onLine;
+}
+
+/**
+ * Queue a mutation behind everything already waiting
+ */
+export async function enqueueMutation(mutation: Omit<OutboxMutation, 'seq'>): Promise<void> {
+  await runTransaction('readwrite', (store) => store.add(mutation));
+}
+
+/**
+ * All queued mutations, oldest first
+ */
+export async function getPendingMutations(): Promise<OutboxMutation[]> {
+  const mutations = await runTransaction<OutboxMutation[]>('readonly', (store) => store.getAll());
+  return mutations || [];
+}
+
+/**
+ * Drop a mutation once it has been applied (or resolved as a conflict)
+ */
+export async function removeMutation(seq: number): Promise<void> {
+  await runTransaction('readwrite', (store) => store.delete(seq));
+}
+
+/**
+ * Point the queued mutations of an order at its new id and/or server version,
+ * e.g. after an offline order got its real id or an earlier change was applied
+ */
+export async function rebaseMutations(
+  orderId: string,
+  changes: { orderId?: string; baseVersion?: string }
+): Promise<void> {
+  await runTransaction('readwrite', (store) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      const mutation = cursor.value as OutboxMutation;
+      if (mutation.orderId === orderId) {
+        cursor.update({
+          ...mutation,
+          ...(changes.orderId && { orderId: changes.orderId }),
+          ...(changes.baseVersion && { baseVersion: changes.baseVersion }),
+        });
+      }
+      cursor.continue();
+    };
+  });
+}
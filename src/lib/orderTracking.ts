@@ -0,0 +1,107 @@
+/**
+ * Order tracking helpers
+ * What a customer sees about their own order: its status, how many orders are
+ * ahead of it in the kitchen, a rough wait and the steps it went through
+ */
+
+import { Order } from '@/types';
+
+export const ORDER_STATUS_LABELS: Record<Order['status'], string> = {
+  pending: 'Received',
+  preparing: 'Preparing',
+  ready: 'Ready for pickup',
+  out_for_delivery: 'On the way',
+  delivered: 'Delivered',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  voided: 'Voided',
+};
+
+const BASE_WAIT_MINUTES = 10;
+const MINUTES_PER_ORDER_AHEAD = 5;
+
+export interface TimelineStep {
+  status: Order['status'];
+  label: string;
+  at?: Date; // unknown for steps reached before the time was recorded
+  reached: boolean;
+}
+
+/**
+ * Public page that follows one order
+ */
+export function getTrackingPath(orderId: string): string {
+  return `/track/${orderId}`;
+}
+
+/**
+ * True while the kitchen still has to make the order
+ */
+export function isInKitchen(order: Order): boolean {
+  return order.status === 'pending' || order.status === 'preparing';
+}
+
+/**
+ * Place of the order in the kitchen queue (1 is next), or null once it has left the kitchen
+ */
+export function getQueuePosition(order: Order, orders: Order[]): number | null {
+  if (!isInKitchen(order)) return null;
+  const ahead = orders.filter(other =>
+    other.id !== order.id &&
+    isInKitchen(other) &&
+    other.createdAt.getTime() < order.createdAt.getTime()
+  );
+  return ahead.length + 1;
+}
+
+/**
+ * Flat guess of the minutes until an order is ready with this many orders ahead of it,
+ * used until the kitchen has timed orders to learn from (see waitTimes)
+ */
+export function estimateWaitMinutes(ordersAhead: number): number {
+  return BASE_WAIT_MINUTES + ordersAhead * MINUTES_PER_ORDER_AHEAD;
+}
+
+/**
+ * True once a runner has taken the order to bring it to the PC
+ */
+export function isDeliveryOrder(order: Order): boolean {
+  return order.status === 'out_for_delivery' || order.status === 'delivered' || !!order.outForDeliveryAt;
+}
+
+/**
+ * The steps of the order so far, then the ones still to come; an order a runner
+ * brings to the PC gets the delivery steps, and a cancelled or voided order ends
+ * with that step instead
+ */
+export function getOrderTimeline(order: Order): TimelineStep[] {
+  const delivery = isDeliveryOrder(order);
+  const flow: Order['status'][] = delivery
+    ? ['pending', 'preparing', 'ready', 'out_for_delivery', 'delivered', 'completed']
+    : ['pending', 'preparing', 'ready', 'completed'];
+  const reachedIndex = flow.indexOf(order.status);
+  const reached = (status: Order['status']) => reachedIndex >= flow.indexOf(status);
+
+  const steps: TimelineStep[] = [
+    { status: 'pending', label: 'Order received', at: order.createdAt, reached: true },
+    { status: 'preparing', label: 'Kitchen started', at: order.preparingAt, reached: reached('preparing') || !!order.preparingAt },
+    { status: 'ready', label: 'Ready for pickup', at: order.readyAt, reached: reached('ready') || !!order.readyAt },
+  ];
+  if (delivery) {
+    steps.push(
+      { status: 'out_for_delivery', label: 'On the way to your PC', at: order.outForDeliveryAt, reached: reached('out_for_delivery') || !!order.outForDeliveryAt },
+      { status: 'delivered', label: 'Delivered', at: order.deliveredAt, reached: reached('delivered') || !!order.deliveredAt },
+      { status: 'completed', label: 'Completed', at: order.completedAt, reached: reached('completed') },
+    );
+  } else {
+    steps.push({ status: 'completed', label: 'Picked up', at: order.completedAt, reached: reached('completed') });
+  }
+
+  if (order.status === 'cancelled' || order.status === 'voided') {
+    return [
+      ...steps.filter(step => step.reached),
+      { status: order.status, label: ORDER_STATUS_LABELS[order.status], at: order.cancelledAt, reached: true },
+    ];
+  }
+  return steps;
+}
@@ -0,0 +1,143 @@
+/**
+ * Order payments
+ * Payments are recorded against an order by the record_payment database function;
+ * an order can only be completed once they cover its total. A bill can be split
+ * between payers by items, or several orders merged into one bill (record_bill_payment)
+ */
+
+import { BillPaymentInput, Order, Payment, PaymentInput, PaymentMethod, PaymentStatus } from '@/types';
+import { priceLine, roundCentavos } from '@/lib/pricing';
+import { formatMoney } from '@/lib/tax';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  ewallet: 'E-wallet',
+  pc_account: 'Charge to PC account',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  partial: 'Partially paid',
+  paid: 'Paid',
+};
+
+/**
+ * What is still owed on an order
+ */
+export function getBalanceDue(order: Pick<Order, 'total' | 'amountPaid'>): number {
+  return Math.max(0, roundCentavos(order.total - order.amountPaid));
+}
+
+/**
+ * Change to hand back for a cash payment, or null while the tendered amount is short
+ */
+export function getChange(amount: number, amountTendered: number): number | null {
+  if (!Number.isFinite(amountTendered) || amountTendered < amount) return null;
+  return roundCentavos(amountTendered - amount);
+}
+
+/**
+ * Combined balance of the orders on a merged bill
+ */
+export function getBillBalance(orders: Pick<Order, 'total' | 'amountPaid'>[]): number {
+  return roundCentavos(orders.reduce((total, order) => total + getBalanceDue(order), 0));
+}
+
+/**
+ * Items already covered by earlier parts of a split bill
+ */
+export function getPaidItemIds(order: Pick<Order, 'payments'>): Set<string> {
+  return new Set(order.payments.flatMap((payment) => payment.itemIds));
+}
+
+/**
+ * Share of the bill for some of the order's items. Whoever takes the last unpaid
+ * items pays the exact balance, so the parts always add up to the order total
+ */
+export function getItemsShare(order: Order, itemIds: string[]): number {
+  const balanceDue = getBalanceDue(order);
+  const paidItemIds = getPaidItemIds(order);
+  const unpaidItems = order.items.filter((item) => !paidItemIds.has(item.id));
+  if (unpaidItems.length > 0 && unpaidItems.every((item) => itemIds.includes(item.id))) {
+    return balanceDue;
+  }
+
+  const share = order.items
+    .filter((item) => itemIds.includes(item.id))
+    .reduce((total, item) => total + priceLine(item).lineTotal, 0);
+  return Math.min(roundCentavos(share), balanceDue);
+}
+
+// Checks shared by single and merged bill payments
+const validateTender = (payment: BillPaymentInput, amount: number): string | null => {
+  if (payment.method === 'cash' && getChange(amount, payment.amountTendered ?? NaN) === null) {
+    return 'The cash tendered is less than the amount';
+  }
+  if (payment.method === 'ewallet' && !payment.reference?.trim()) {
+    return 'Enter the e-wallet reference number';
+  }
+  if (payment.method === 'pc_account' && !payment.reference?.trim()) {
+    return 'Enter the PC account to charge';
+  }
+  return null;
+};
+
+/**
+ * Check a payment before it is sent; returns the problem, or null when it can be recorded
+ */
+export function validatePayment(payment: PaymentInput, balanceDue: number, currencySymbol?: string): string | null {
+  if (!Number.isFinite(payment.amount) || payment.amount <= 0) {
+    return 'Enter the amount to pay';
+  }
+  if (roundCentavos(payment.amount) > balanceDue) {
+    return `The amount is more than the balance due (${formatMoney(balanceDue, currencySymbol)})`;
+  }
+  return validateTender(payment, payment.amount);
+}
+
+/**
+ * Check a merged bill payment, which always settles the combined balance
+ */
+export function validateBillPayment(payment: BillPaymentInput, orders: Order[]): string | null {
+  if (orders.length < 2) {
+    return 'Select at least two orders to merge';
+  }
+  if (getBillBalance(orders) === 0) {
+    return 'These orders are already paid';
+  }
+  return validateTender(payment, getBillBalance(orders));
+}
+
+// Shape of an `order_payments` row; DECIMAL columns arrive as strings
+interface PaymentRow {
+  id: string;
+  method: PaymentMethod;
+  amount: string | number;
+  amount_tendered: string | number | null;
+  change_given: string | number | null;
+  reference: string | null;
+  received_by: string;
+  payer: string | null;
+  item_ids: string[] | null;
+  bill_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Convert an `order_payments` row to the Payment type
+ */
+export function fromPaymentRow(row: PaymentRow): Payment {
+  return {
+    id: row.id,
+    method: row.method,
+    amount: Number(row.amount),
+    amountTendered: row.amount_tendered != null ? Number(row.amount_tendered) : undefined,
+    changeGiven: row.change_given != null ? Number(row.change_given) : undefined,
+    reference: row.reference || undefined,
+    receivedBy: row.received_by,
+    payer: row.payer || undefined,
+    itemIds: row.item_ids || [],
+    billId: row.bill_id || undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { OrderItemModifier } from '@/types';
+import { PricingItem, getModifiersUnitPrice, priceLine, priceOrder, roundCentavos } from '@/lib/pricing';
+
+const item = (price: number, quantity = 1, modifiers: OrderItemModifier[] = []): PricingItem => ({
+  id: `item-${price}-${quantity}`,
+  menuItem: { id: 'menu-1', name: 'Burger', description: '', price, category: 'meals', available: true },
+  quantity,
+  modifiers,
+});
+
+const modifier = (price: number, quantity = 1): OrderItemModifier => ({
+  groupId: 'add-ons',
+  groupName: 'Add-ons',
+  name: `Extra ${price}`,
+  price,
+  quantity,
+});
+
+describe('priceLine', () => {
+  it('prices the base and the modifiers per unit times the quantity', () => {
+    const line = priceLine(item(100, 2, [modifier(15, 2), modifier(10)]));
+
+    expect(line).toMatchObject({
+      quantity: 2,
+      unitPrice: 100,
+      modifiersUnitPrice: 40,
+      baseTotal: 200,
+      modifiersTotal: 80,
+      lineTotal: 280,
+    });
+  });
+
+  it('counts malformed prices and quantities as zero', () => {
+    expect(priceLine(item(NaN, 2)).lineTotal).toBe(0);
+    expect(priceLine(item(-50, 2)).lineTotal).toBe(0);
+    expect(priceLine(item(50, -3)).lineTotal).toBe(0);
+    expect(priceLine(item(50, Infinity)).lineTotal).toBe(0);
+    expect(getModifiersUnitPrice([modifier(NaN), modifier(-5), modifier(10, NaN)])).toBe(0);
+  });
+
+  it('reads numeric strings from old rows', () => {
+    const legacy = item(0, 1, [{ ...modifier(0), price: '12.50' as unknown as number }]);
+    legacy.menuItem = { ...legacy.menuItem, price: '99.99' as unknown as number };
+
+    expect(priceLine(legacy).lineTotal).toBe(112.49);
+  });
+
+  it('treats missing modifiers as none', () => {
+    expect(priceLine({ menuItem: item(45).menuItem, quantity: 1, modifiers: undefined as unknown as OrderItemModifier[] }).lineTotal).toBe(45);
+  });
+});
+
+describe('priceOrder', () => {
+  it('returns zeros for an empty order', () => {
+    const breakdown = priceOrder([]);
+
+    expect(breakdown.subtotal).toBe(0);
+    expect(breakdown.total).toBe(0);
+    expect(breakdown.lines).toEqual([]);
+  });
+
+  it('applies discounts in order and never below zero', () => {
+    const breakdown = priceOrder([item(100)], {
+      discounts: [
+        { label: 'Voucher', type: 'amount', value: 80 },
+        { label: 'Half off', type: 'percent', value: 50 },
+      ],
+    });
+
+    expect(breakdown.discounts).toEqual([
+      { label: 'Voucher', amount: 80 },
+      { label: 'Half off', amount: 10 },
+    ]);
+    expect(breakdown.discountTotal).toBe(90);
+    expect(breakdown.total).toBe(10);
+  });
+
+  it('caps amount discounts at the subtotal and percentages at 100%', () => {
+    expect(priceOrder([item(100)], { discounts: [{ label: 'Too much', type: 'amount', value: 150 }] }).total).toBe(0);
+    expect(priceOrder([item(100)], { discounts: [{ label: 'Too much', type: 'percent', value: 150 }] }).total).toBe(0);
+
+    const afterFree = priceOrder([item(100)], {
+      discounts: [
+        { label: 'Free', type: 'percent', value: 100 },
+        { label: 'Voucher', type: 'amount', value: 20 },
+      ],
+    });
+    expect(afterFree.discounts[1].amount).toBe(0);
+    expect(afterFree.discountTotal).toBe(100);
+  });
+
+  it('ignores malformed discount values', () => {
+    const breakdown = priceOrder([item(100)], { discounts: [{ label: 'Broken', type: 'amount', value: NaN }] });
+
+    expect(breakdown.discountTotal).toBe(0);
+    expect(breakdown.total).toBe(100);
+  });
+
+  it('charges the service charge on the discounted subtotal', () => {
+    const breakdown = priceOrder([item(200)], {
+      discounts: [{ label: 'Promo', type: 'percent', value: 10 }],
+      serviceChargeRate: 0.1,
+    });
+
+    expect(breakdown.serviceCharge).toBe(18);
+    expect(breakdown.total).toBe(198);
+  });
+
+  it('adds VAT on top of exclusive prices', () => {
+    const breakdown = priceOrder([item(100)], { taxRate: 0.12, taxInclusive: false });
+
+    expect(breakdown.vatableSales).toBe(100);
+    expect(breakdown.tax).toBe(12);
+    expect(breakdown.total).toBe(112);
+  });
+
+  it('extracts VAT from inclusive prices without changing the total', () => {
+    const breakdown = priceOrder([item(112)], { taxRate: 0.12, taxInclusive: true });
+
+    expect(breakdown.vatableSales).toBe(100);
+    expect(breakdown.tax).toBe(12);
+    expect(breakdown.total).toBe(112);
+  });
+
+  it('taxes the service charge along with the items', () => {
+    const breakdown = priceOrder([item(100)], { serviceChargeRate: 0.1, taxRate: 0.12, taxInclusive: false });
+
+    expect(breakdown.serviceCharge).toBe(10);
+    expect(breakdown.tax).toBe(13.2);
+    expect(breakdown.total).toBe(123.2);
+  });
+
+  it('removes VAT from the exempt share and discounts it', () => {
+    // One senior citizen out of four diners
+    const breakdown = priceOrder([item(400)], {
+      taxRate: 0.12,
+      taxInclusive: true,
+      exemptShare: 0.25,
+      exemptionDiscountRate: 0.2,
+    });
+
+    expect(breakdown.vatableSales).toBe(267.86);
+    expect(breakdown.tax).toBe(32.14);
+    expect(breakdown.vatExemptSales).toBe(89.29);
+    expect(breakdown.exemptionDiscount).toBe(17.86);
+    expect(breakdown.total).toBe(371.43);
+  });
+
+  it('exempts the share without taking VAT out of exclusive prices', () => {
+    const breakdown = priceOrder([item(100)], {
+      taxRate: 0.12,
+      taxInclusive: false,
+      exemptShare: 0.5,
+      exemptionDiscountRate: 0.2,
+    });
+
+    expect(breakdown.vatExemptSales).toBe(50);
+    expect(breakdown.exemptionDiscount).toBe(10);
+    expect(breakdown.tax).toBe(6);
+    expect(breakdown.total).toBe(96);
+  });
+
+  it('caps the exempt share and the exemption discount at the whole order', () => {
+    const breakdown = priceOrder([item(100)], { exemptShare: 3, exemptionDiscountRate: 5 });
+
+    expect(breakdown.vatExemptSales).toBe(100);
+    expect(breakdown.exemptionDiscount).toBe(100);
+    expect(breakdown.total).toBe(0);
+  });
+
+  it('keeps every amount in whole centavos', () => {
+    const breakdown = priceOrder([item(0.1), item(0.1), item(0.1)], {
+      discounts: [{ label: 'A third off', type: 'percent', value: 100 / 3 }],
+    });
+
+    expect(breakdown.subtotal).toBe(0.3);
+    expect(breakdown.discountTotal).toBe(0.1);
+    expect(breakdown.total).toBe(0.2);
+  });
+});
+
+describe('roundCentavos', () => {
+  it('rounds half centavos up', () => {
+    expect(roundCentavos(1.005)).toBe(1.01);
+    expect(roundCentavos(2.675)).toBe(2.68);
+    expect(roundCentavos(10)).toBe(10);
+  });
+});
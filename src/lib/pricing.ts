@@ -0,0 +1,160 @@
+/**
+ * Order pricing
+ * The single place where order money is calculated: line items, add-ons, discounts,
+ * service charge, VAT (with senior citizen / PWD exemptions) and rounding to centavos. Everything here is pure so the cart,
+ * store, kitchen cards and receipts always agree on the numbers
+ */
+
+import { OrderItem, OrderItemModifier } from '@/types';
+
+export type PricingItem = Pick<OrderItem, 'menuItem' | 'quantity' | 'modifiers'> & { id?: string };
+
+export interface PricedLine {
+  itemId?: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  modifiersUnitPrice: number;
+  baseTotal: number;
+  modifiersTotal: number;
+  lineTotal: number;
+}
+
+export interface PricingDiscount {
+  label: string;
+  type: 'percent' | 'amount';
+  value: number;
+}
+
+export interface AppliedDiscount {
+  label: string;
+  amount: number;
+}
+
+export interface PricingOptions {
+  discounts?: PricingDiscount[];
+  /** Fraction of the discounted subtotal, e.g. 0.1 for 10% */
+  serviceChargeRate?: number;
+  /** Fraction, e.g. 0.12 for 12% */
+  taxRate?: number;
+  /** Whether menu prices already include the tax */
+  taxInclusive?: boolean;
+  /** Fraction of the order that is VAT-exempt, e.g. 0.25 for one senior citizen out of four diners */
+  exemptShare?: number;
+  /** Fraction taken off the exempt sales after VAT is removed, e.g. 0.2 for the senior citizen / PWD discount */
+  exemptionDiscountRate?: number;
+}
+
+export interface PricingBreakdown {
+  lines: PricedLine[];
+  itemsSubtotal: number;
+  modifiersSubtotal: number;
+  subtotal: number;
+  discounts: AppliedDiscount[];
+  discountTotal: number;
+  serviceCharge: number;
+  /** Sales subject to VAT, without the VAT */
+  vatableSales: number;
+  tax: number;
+  /** Sales that are VAT-exempt, without VAT, before the exemption discount */
+  vatExemptSales: number;
+  exemptionDiscount: number;
+  total: number;
+}
+
+/**
+ * Round to centavos, avoiding the 1.005 -> 1.00 floating point trap
+ */
+export function roundCentavos(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+// Malformed prices and quantities (NaN, negative, strings from old rows) count as zero
+const toAmount = (value: unknown): number => {
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : 0;
+};
+
+/**
+ * Price the modifiers add to one unit of the item
+ */
+export function getModifiersUnitPrice(modifiers: OrderItemModifier[] = []): number {
+  return roundCentavos(
+    modifiers.reduce((total, m) => total + toAmount(m.price) * toAmount(m.quantity), 0)
+  );
+}
+
+/**
+ * Price one order line: (base price + modifiers per unit) x quantity
+ */
+export function priceLine(item: PricingItem): PricedLine {
+  const quantity = toAmount(item.quantity);
+  const unitPrice = roundCentavos(toAmount(item.menuItem.price));
+  const modifiersUnitPrice = getModifiersUnitPrice(item.modifiers);
+  const baseTotal = roundCentavos(unitPrice * quantity);
+  const modifiersTotal = roundCentavos(modifiersUnitPrice * quantity);
+
+  return {
+    itemId: item.id,
+    name: item.menuItem.name,
+    quantity,
+    unitPrice,
+    modifiersUnitPrice,
+    baseTotal,
+    modifiersTotal,
+    lineTotal: roundCentavos(baseTotal + modifiersTotal),
+  };
+}
+
+/**
+ * Price a whole order and return the itemised breakdown.
+ * Discounts apply in the given order and never take the subtotal below zero;
+ * the service charge is on the discounted subtotal. The exempt share of the discounted
+ * subtotal carries no VAT and gets the exemption discount; tax is on the rest plus the
+ * service charge (extracted from it when prices are tax-inclusive)
+ */
+export function priceOrder(items: PricingItem[], options: PricingOptions = {}): PricingBreakdown {
+  const lines = items.map(priceLine);
+  const itemsSubtotal = roundCentavos(lines.reduce((total, line) => total + line.baseTotal, 0));
+  const modifiersSubtotal = roundCentavos(lines.reduce((total, line) => total + line.modifiersTotal, 0));
+  const subtotal = roundCentavos(itemsSubtotal + modifiersSubtotal);
+
+  let remaining = subtotal;
+  const discounts = (options.discounts || []).map((discount) => {
+    const requested = discount.type === 'percent'
+      ? remaining * Math.min(toAmount(discount.value), 100) / 100
+      : toAmount(discount.value);
+    const amount = roundCentavos(Math.min(requested, remaining));
+    remaining = roundCentavos(remaining - amount);
+    return { label: discount.label, amount };
+  });
+  const discountTotal = roundCentavos(subtotal - remaining);
+
+  const serviceCharge = roundCentavos(remaining * toAmount(options.serviceChargeRate));
+  const exemptGross = roundCentavos(remaining * Math.min(toAmount(options.exemptShare), 1));
+  const taxable = roundCentavos(remaining - exemptGross + serviceCharge);
+  const taxRate = toAmount(options.taxRate);
+  const tax = options.taxInclusive
+    ? roundCentavos(taxable - taxable / (1 + taxRate))
+    : roundCentavos(taxable * taxRate);
+  const vatableSales = options.taxInclusive ? roundCentavos(taxable - tax) : taxable;
+
+  // Exempt sales are sold without VAT, so inclusive prices have it taken out first
+  const vatExemptSales = options.taxInclusive ? roundCentavos(exemptGross / (1 + taxRate)) : exemptGross;
+  const exemptionDiscount = roundCentavos(vatExemptSales * Math.min(toAmount(options.exemptionDiscountRate), 1));
+
+  return {
+    lines,
+    itemsSubtotal,
+    modifiersSubtotal,
+    subtotal,
+    discounts,
+    discountTotal,
+    serviceCharge,
+    vatableSales,
+    tax,
+    vatExemptSales,
+    exemptionDiscount,
+    total: roundCentavos(vatableSales + tax + vatExemptSales - exemptionDiscount),
+  };
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { OrderItemModifier, Promotion } from '@/types';
+import { PricingItem } from '@/lib/pricing';
+import { applyPromotions, getPromotionDiscount, getPromotionProblem } from '@/lib/promotions';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const item = (price: number, quantity = 1, category = 'meals', modifiers: OrderItemModifier[] = []): PricingItem => ({
+  id: `item-${category}-${price}-${quantity}`,
+  menuItem: { id: `menu-${category}-${price}`, name: 'Item', description: '', price, category, available: true },
+  quantity,
+  modifiers,
+});
+
+const promotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: 'promo-1',
+  name: 'Promo',
+  discountType: 'percent',
+  value: 10,
+  minSpend: 0,
+  stackable: false,
+  active: true,
+  ...overrides,
+});
+
+describe('getPromotionDiscount', () => {
+  it('takes a percentage off the eligible items only', () => {
+    const items = [item(100, 2), item(50, 1, 'drinks')];
+
+    expect(getPromotionDiscount(promotion({ value: 10, category: 'meals' }), items)).toBe(20);
+    expect(getPromotionDiscount(promotion({ value: 10 }), items)).toBe(25);
+    expect(getPromotionDiscount(promotion({ value: 150 }), items)).toBe(250);
+  });
+
+  it('caps a fixed discount at what the eligible items are worth', () => {
+    const items = [item(100), item(50, 1, 'drinks')];
+
+    expect(getPromotionDiscount(promotion({ discountType: 'fixed', value: 30 }), items)).toBe(30);
+    expect(getPromotionDiscount(promotion({ discountType: 'fixed', value: 80, category: 'drinks' }), items)).toBe(50);
+    expect(getPromotionDiscount(promotion({ discountType: 'fixed', value: 80, category: 'desserts' }), items)).toBe(0);
+  });
+
+  it('gives the cheapest units of each buy X get Y group for free', () => {
+    const buyTwoGetOne = promotion({ discountType: 'buy_x_get_y', value: 0, buyQuantity: 2, getQuantity: 1 });
+
+    expect(getPromotionDiscount(buyTwoGetOne, [item(100, 2), item(40)])).toBe(40);
+    // Two full groups out of seven units: the two cheapest are free
+    expect(getPromotionDiscount(buyTwoGetOne, [item(100, 4), item(40), item(30, 2)])).toBe(60);
+    expect(getPromotionDiscount(buyTwoGetOne, [item(100, 2)])).toBe(0);
+  });
+
+  it('prices buy X get Y units with their modifiers', () => {
+    const buyOneGetOne = promotion({ discountType: 'buy_x_get_y', value: 0, buyQuantity: 1, getQuantity: 1 });
+    const cheese: OrderItemModifier = { groupId: 'add-ons', groupName: 'Add-ons', name: 'Cheese', price: 15, quantity: 1 };
+
+    expect(getPromotionDiscount(buyOneGetOne, [item(100), item(50, 1, 'meals', [cheese])])).toBe(65);
+  });
+
+  it('gives nothing for buy X get Y without both quantities', () => {
+    const items = [item(100, 4)];
+
+    expect(getPromotionDiscount(promotion({ discountType: 'buy_x_get_y', value: 0, buyQuantity: 2 }), items)).toBe(0);
+    expect(getPromotionDiscount(promotion({ discountType: 'buy_x_get_y', value: 0, buyQuantity: 0, getQuantity: 1 }), items)).toBe(0);
+  });
+});
+
+describe('getPromotionProblem', () => {
+  const items = [item(100, 2)];
+
+  it('accepts a usable promotion', () => {
+    expect(getPromotionProblem(promotion(), items, 0, NOW)).toBeNull();
+  });
+
+  it('rejects inactive promotions and ones outside their window', () => {
+    expect(getPromotionProblem(promotion({ active: false }), items, 0, NOW)).toBe('This promotion is no longer available');
+    expect(getPromotionProblem(promotion({ startsAt: new Date('2026-03-02T00:00:00Z') }), items, 0, NOW))
+      .toBe('This promotion has not started yet');
+    expect(getPromotionProblem(promotion({ endsAt: new Date('2026-02-28T00:00:00Z') }), items, 0, NOW))
+      .toBe('This promotion has ended');
+  });
+
+  it('rejects a promotion used up on this device', () => {
+    expect(getPromotionProblem(promotion({ maxUsesPerDevice: 2 }), items, 1, NOW)).toBeNull();
+    expect(getPromotionProblem(promotion({ maxUsesPerDevice: 2 }), items, 2, NOW))
+      .toBe('This promotion has already been used on this device');
+  });
+
+  it('asks for the minimum spend in the configured currency', () => {
+    expect(getPromotionProblem(promotion({ minSpend: 250 }), items, 0, NOW, '$'))
+      .toBe('Spend at least $250.00 to use this promotion');
+    expect(getPromotionProblem(promotion({ minSpend: 200 }), items, 0, NOW)).toBeNull();
+  });
+
+  it('asks for eligible items when the promotion takes nothing off', () => {
+    expect(getPromotionProblem(promotion({ category: 'drinks' }), items, 0, NOW)).toBe('Add drinks items to use this promotion');
+    expect(getPromotionProblem(promotion({ discountType: 'buy_x_get_y', value: 0, buyQuantity: 2, getQuantity: 1 }), items, 0, NOW))
+      .toBe('Add more items to use this promotion');
+  });
+});
+
+describe('applyPromotions', () => {
+  const items = [item(100, 2)];
+
+  it('only uses a code promotion when its code is entered', () => {
+    const coded = promotion({ id: 'coded', code: 'SAVE10' });
+
+    expect(applyPromotions([coded], items, { now: NOW })).toEqual([]);
+    expect(applyPromotions([coded], items, { code: 'SAVE20', now: NOW })).toEqual([]);
+    expect(applyPromotions([coded], items, { code: ' save10 ', now: NOW })).toEqual([{ promotion: coded, amount: 20 }]);
+  });
+
+  it('skips promotions that cannot be used', () => {
+    const limited = promotion({ id: 'limited', maxUsesPerDevice: 1 });
+
+    expect(applyPromotions([limited], items, { usage: { limited: 1 }, now: NOW })).toEqual([]);
+  });
+
+  it('combines stackable promotions when they save more than the best single one', () => {
+    const tenPercent = promotion({ id: 'ten', value: 10, stackable: true });
+    const thirtyOff = promotion({ id: 'thirty', discountType: 'fixed', value: 30, stackable: true });
+    const fortyOff = promotion({ id: 'forty', discountType: 'fixed', value: 40 });
+
+    expect(applyPromotions([tenPercent, thirtyOff, fortyOff], items, { now: NOW })).toEqual([
+      { promotion: tenPercent, amount: 20 },
+      { promotion: thirtyOff, amount: 30 },
+    ]);
+  });
+
+  it('uses the best non-stackable promotion on its own when it saves more', () => {
+    const tenPercent = promotion({ id: 'ten', value: 10, stackable: true });
+    const sixtyOff = promotion({ id: 'sixty', discountType: 'fixed', value: 60 });
+    const fiftyOff = promotion({ id: 'fifty', discountType: 'fixed', value: 50 });
+
+    expect(applyPromotions([tenPercent, fiftyOff, sixtyOff], items, { now: NOW })).toEqual([
+      { promotion: sixtyOff, amount: 60 },
+    ]);
+  });
+
+  it('never takes off more than the order is worth', () => {
+    const first = promotion({ id: 'first', discountType: 'fixed', value: 150, stackable: true });
+    const second = promotion({ id: 'second', discountType: 'fixed', value: 150, stackable: true });
+    const third = promotion({ id: 'third', discountType: 'fixed', value: 10, stackable: true });
+
+    expect(applyPromotions([first, second, third], items, { now: NOW })).toEqual([
+      { promotion: first, amount: 150 },
+      { promotion: second, amount: 50 },
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Promotions
+ * Works out which admin-managed promotions apply to a cart and how much each takes off.
+ * The result feeds priceOrder() as discounts; submit_order re-checks the rules and the
+ * amounts when the order is saved (see PROMOTIONS_SETUP.sql), so the two must stay in step
+ */
+
+import { Promotion } from '@/types';
+import { PricingDiscount, PricingItem, priceLine, roundCentavos } from '@/lib/pricing';
+import { getDeviceTokenFromStorage } from '@/lib/deviceTokens';
+import { formatMoney } from '@/lib/tax';
+
+const PROMO_DEVICE_STORAGE_KEY = 'promo_device_id';
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  amount: number;
+}
+
+export interface PromotionContext {
+  code?: string;
+  usage?: Record<string, number>; // promotion id -> times used on this device
+  now?: Date;
+}
+
+/**
+ * Id that per-device usage limits are counted against: the registered device token,
+ * or a random id kept in this browser
+ */
+export function getPromotionDeviceId(): string {
+  const deviceToken = getDeviceTokenFromStorage();
+  if (deviceToken) return deviceToken;
+
+  let deviceId = localStorage.getItem(PROMO_DEVICE_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(PROMO_DEVICE_STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+/**
+ * Codes are compared case-insensitively
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * "10% off Drinks", "₱50.00 off", "Buy 2 get 1 free"
+ */
+export function describePromotion(promotion: Promotion, categoryName = promotion.category, currencySymbol?: string): string {
+  const scope = categoryName ? ` ${categoryName}` : '';
+  if (promotion.discountType === 'percent') {
+    return `${promotion.value}% off${scope || ' the order'}`;
+  }
+  if (promotion.discountType === 'fixed') {
+    return `${formatMoney(promotion.value, currencySymbol)} off${scope}`;
+  }
+  return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free${scope}`;
+}
+
+// Items the promotion counts (its category, or everything)
+const getEligibleItems = (promotion: Promotion, items: PricingItem[]) =>
+  promotion.category ? items.filter((item) => item.menuItem.category === promotion.category) : items;
+
+/**
+ * Amount the promotion takes off these items, ignoring whether it may be used right now
+ */
+export function getPromotionDiscount(promotion: Promotion, items: PricingItem[]): number {
+  const eligibleItems = getEligibleItems(promotion, items);
+  const eligibleSubtotal = eligibleItems.reduce((total, item) => total + priceLine(item).lineTotal, 0);
+
+  if (promotion.discountType === 'percent') {
+    return roundCentavos(eligibleSubtotal * Math.min(promotion.value, 100) / 100);
+  }
+  if (promotion.discountType === 'fixed') {
+    return eligibleSubtotal > 0 ? roundCentavos(Math.min(promotion.value, eligibleSubtotal)) : 0;
+  }
+
+  // Buy X get Y: in every group of X + Y units, the cheapest Y are free
+  const buy = promotion.buyQuantity || 0;
+  const get = promotion.getQuantity || 0;
+  if (buy <= 0 || get <= 0) return 0;
+
+  const unitPrices = eligibleItems
+    .flatMap((item) => {
+      const line = priceLine(item);
+      return Array<number>(line.quantity).fill(line.unitPrice + line.modifiersUnitPrice);
+    })
+    .sort((a, b) => a - b);
+  const freeUnits = Math.floor(unitPrices.length / (buy + get)) * get;
+  return roundCentavos(unitPrices.slice(0, freeUnits).reduce((total, price) => total + price, 0));
+}
+
+/**
+ * Why the promotion cannot be used on these items right now, or null when it can
+ */
+export function getPromotionProblem(
+  promotion: Promotion,
+  items: PricingItem[],
+  usedCount = 0,
+  now = new Date(),
+  currencySymbol?: string
+): string | null {
+  if (!promotion.active) return 'This promotion is no longer available';
+  if (promotion.startsAt && now < promotion.startsAt) return 'This promotion has not started yet';
+  if (promotion.endsAt && now > promotion.endsAt) return 'This promotion has ended';
+  if (promotion.maxUsesPerDevice && usedCount >= promotion.maxUsesPerDevice) {
+    return 'This promotion has already been used on this device';
+  }
+
+  const subtotal = items.reduce((total, item) => total + priceLine(item).lineTotal, 0);
+  if (subtotal < promotion.minSpend) {
+    return `Spend at least ${formatMoney(promotion.minSpend, currencySymbol)} to use this promotion`;
+  }
+  if (getPromotionDiscount(promotion, items) <= 0) {
+    return promotion.category
+      ? `Add ${promotion.category} items to use this promotion`
+      : 'Add more items to use this promotion';
+  }
+  return null;
+}
+
+/**
+ * Promotions to apply to the cart: automatic ones plus the entered code.
+ * Stackable promotions combine; a non-stackable one is only used on its own,
+ * so whichever of the two options saves more wins
+ */
+export function applyPromotions(
+  promotions: Promotion[],
+  items: PricingItem[],
+  { code, usage = {}, now = new Date() }: PromotionContext = {}
+): AppliedPromotion[] {
+  const enteredCode = code ? normalizePromoCode(code) : '';
+  const candidates = promotions
+    .filter((promotion) => !promotion.code || normalizePromoCode(promotion.code) === enteredCode)
+    .filter((promotion) => getPromotionProblem(promotion, items, usage[promotion.id] || 0, now) === null)
+    .map((promotion) => ({ promotion, amount: getPromotionDiscount(promotion, items) }));
+
+  const stacked = candidates.filter((candidate) => candidate.promotion.stackable);
+  const bestSingle = candidates
+    .filter((candidate) => !candidate.promotion.stackable)
+    .sort((a, b) => b.amount - a.amount)[0];
+
+  const stackedTotal = stacked.reduce((total, candidate) => total + candidate.amount, 0);
+  const chosen = bestSingle && bestSingle.amount > stackedTotal ? [bestSingle] : stacked;
+
+  // Together they can never take off more than the order is worth
+  let remaining = items.reduce((total, item) => total + priceLine(item).lineTotal, 0);
+  return chosen.map((candidate) => {
+    const amount = roundCentavos(Math.min(candidate.amount, remaining));
+    remaining = roundCentavos(remaining - amount);
+    return { promotion: candidate.promotion, amount };
+  }).filter((applied) => applied.amount > 0);
+}
+
+/**
+ * Applied promotions as discount lines for priceOrder()
+ */
+export function toPricingDiscounts(applied: AppliedPromotion[]): PricingDiscount[] {
+  return applied.map(({ promotion, amount }) => ({
+    label: promotion.code ? `${promotion.name} (${normalizePromoCode(promotion.code)})` : promotion.name,
+    type: 'amount',
+    value: amount,
+  }));
+}
+
+// Shape of a `promotions` row; DECIMAL columns arrive as strings
+interface PromotionRow {
+  id: string;
+  name: string;
+  code: string | null;
+  discount_type: Promotion['discountType'];
+  value: string | number;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  category: string | null;
+  min_spend: string | number;
+  starts_at: string | null;
+  ends_at: string | null;
+  max_uses_per_device: number | null;
+  stackable: boolean;
+  active: boolean;
+}
+
+/**
+ * Convert a `promotions` row to the Promotion type
+ */
+export function fromPromotionRow(row: PromotionRow): Promotion {
+  return {
+    id: row.id,
+    name: row.name,
+    code: row.code || undefined,
+    discountType: row.discount_type,
+    value: Number(row.value),
+    buyQuantity: row.buy_quantity ?? undefined,
+    getQuantity: row.get_quantity ?? undefined,
+    category: row.category || undefined,
+    minSpend: Number(row.min_spend),
+    startsAt: row.starts_at ? new Date(row.starts_at) : undefined,
+    endsAt: row.ends_at ? new Date(row.ends_at) : undefined,
+    maxUsesPerDevice: row.max_uses_per_device ?? undefined,
+    stackable: row.stackable,
+    active: row.active,
+  };
+}
+
+/**
+ * Promotion fields in the shape of a `promotions` row
+ */
+export function toPromotionRow(promotion: Omit<Promotion, 'id'>) {
+  return {
+    name: promotion.name.trim(),
+    code: promotion.code?.trim() ? normalizePromoCode(promotion.code) : null,
+    discount_type: promotion.discountType,
+    value: promotion.discountType === 'buy_x_get_y' ? 0 : promotion.value,
+    buy_quantity: promotion.discountType === 'buy_x_get_y' ? promotion.buyQuantity : null,
+    get_quantity: promotion.discountType === 'buy_x_get_y' ? promotion.getQuantity : null,
+    category: promotion.category || null,
+    min_spend: promotion.minSpend,
+    starts_at: promotion.startsAt?.toISOString() ?? null,
+    ends_at: promotion.endsAt?.toISOString() ?? null,
+    max_uses_per_device: promotion.maxUsesPerDevice ?? null,
+    stackable: promotion.stackable,
+    active: promotion.active,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Ready alerts
+ * Let customers with headphones on know their order is ready: a desktop
+ * notification and a chime (both opt-in per device), plus a flashing tab title
+ * until they confirm they picked the order up. Items the kitchen finishes early
+ * get a quieter notification of their own
+ */
+
+import { Order, OrderItem } from '@/types';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+
+const PREFS_STORAGE_KEY = 'ready_alert_prefs';
+const ACKNOWLEDGED_STORAGE_KEY = 'acknowledged_ready_orders';
+const MAX_ACKNOWLEDGED = 50;
+
+export type ChimeId = 'bell' | 'arcade' | 'soft';
+
+export interface ReadyAlertPrefs {
+  enabled: boolean; // desktop notification and chime
+  chime: ChimeId;
+}
+
+// Notes (Hz) played one after another
+const CHIMES: Record<ChimeId, { label: string; notes: number[]; wave: OscillatorType }> = {
+  bell: { label: 'Bell', notes: [880, 1320], wave: 'sine' },
+  arcade: { label: 'Arcade', notes: [523, 659, 784, 1047], wave: 'square' },
+  soft: { label: 'Soft', notes: [660, 550], wave: 'triangle' },
+};
+
+export const CHIME_LABELS = Object.fromEntries(
+  Object.entries(CHIMES).map(([id, chime]) => [id, chime.label])
+) as Record<ChimeId, string>;
+
+const DEFAULT_PREFS: ReadyAlertPrefs = { enabled: false, chime: 'bell' };
+
+/**
+ * This device's alert settings
+ */
+export function getReadyAlertPrefs(): ReadyAlertPrefs {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFS_STORAGE_KEY) || '{}');
+    return {
+      enabled: stored.enabled === true,
+      chime: stored.chime in CHIMES ? stored.chime : DEFAULT_PREFS.chime,
+    };
+  } catch {
+    return DEFAULT_PREFS;
+  }
+}
+
+export function saveReadyAlertPrefs(prefs: ReadyAlertPrefs): void {
+  localStorage.setItem(PREFS_STORAGE_KEY, JSON.stringify(prefs));
+}
+
+/**
+ * Ids of the ready orders the customer said they picked up
+ */
+export function getAcknowledgedOrderIds(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ACKNOWLEDGED_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function acknowledgeReadyOrder(orderId: string): void {
+  const acknowledged = getAcknowledgedOrderIds().filter((id) => id !== orderId);
+  localStorage.setItem(
+    ACKNOWLEDGED_STORAGE_KEY,
+    JSON.stringify([orderId, ...acknowledged].slice(0, MAX_ACKNOWLEDGED))
+  );
+}
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Browsers only allow sound after the user interacted with the page, so call this
+ * from the click that turns alerts on
+ */
+export function unlockChime(): void {
+  audioContext = audioContext ?? new AudioContext();
+  if (audioContext.state === 'suspended') {
+    audioContext.resume();
+  }
+}
+
+/**
+ * Play a chime through Web Audio (no sound files to ship)
+ */
+export function playChime(chimeId: ChimeId): void {
+  try {
+    unlockChime();
+    const context = audioContext as AudioContext;
+    const { notes, wave } = CHIMES[chimeId];
+    notes.forEach((frequency, index) => {
+      const start = context.currentTime + index * 0.18;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = wave;
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.25, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.5);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.5);
+    });
+  } catch (error) {
+    console.error('Error playing chime:', error);
+  }
+}
+
+/**
+ * True when the browser can show desktop notifications at all
+ */
+export function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Desktop notification for a ready order, if the customer allowed them
+ */
+export function showReadyNotification(order: Order): void {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const notification = new Notification(`Order ${formatOrderNumber(order.orderNumber)} is ready!`, {
+    body: 'Please collect it at the counter.',
+    tag: `order-ready-${order.id}`,
+    requireInteraction: true,
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+}
+
+/**
+ * Desktop notification for items done while the rest of the order is still being made
+ */
+export function showPartialReadyNotification(order: Order, doneItems: OrderItem[], remaining: number): void {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const names = doneItems.map((item) => item.menuItem.name).join(', ');
+  const notification = new Notification(`Order ${formatOrderNumber(order.orderNumber)}: ${names} done`, {
+    body: `${remaining} item${remaining !== 1 ? 's' : ''} still being made.`,
+    tag: `order-partial-${order.id}`,
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+}
@@ -0,0 +1,310 @@
+/**
+ * Customer receipts
+ * An order is laid out once as receipt lines, then rendered either as printable HTML
+ * (browser print dialog) or as an ESC/POS byte stream for thermal printers, so both
+ * always show the same content
+ */
+
+import { Order, TaxConfig } from '@/types';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { priceLine, priceOrder, roundCentavos } from '@/lib/pricing';
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS, getBalanceDue } from '@/lib/payments';
+import { TAX_EXEMPTION_LABELS, formatMoney } from '@/lib/tax';
+
+export const RECEIPT_CONFIG_KEY = 'receipt_config';
+
+export type PaperWidth = '58mm' | '80mm';
+
+// Shop details printed on every receipt (app_settings `receipt_config`)
+export interface ReceiptConfig {
+  shopName: string;
+  headerLines: string[]; // address, TIN, contact number...
+  footer: string;
+  paperWidth: PaperWidth;
+}
+
+export const DEFAULT_RECEIPT_CONFIG: ReceiptConfig = {
+  shopName: '4G HUB Cafe',
+  headerLines: [],
+  footer: 'Thank you! Please come again.',
+  paperWidth: '80mm',
+};
+
+// Characters per line in the printer's standard font
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  '58mm': 32,
+  '80mm': 48,
+};
+
+export type ReceiptLine =
+  | { kind: 'text'; text: string; align?: 'left' | 'center'; bold?: boolean; large?: boolean }
+  | { kind: 'row'; left: string; right: string; bold?: boolean; indent?: boolean }
+  | { kind: 'divider' };
+
+export interface ReceiptOptions {
+  config: ReceiptConfig;
+  taxConfig: TaxConfig;
+  reprint?: boolean;
+  printedAt?: Date;
+}
+
+/**
+ * Read the stored setting, falling back to the defaults for anything missing
+ */
+export function parseReceiptConfig(value: unknown): ReceiptConfig {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof ReceiptConfig, unknown>>;
+  return {
+    shopName: typeof stored.shopName === 'string' && stored.shopName.trim() ? stored.shopName.trim() : DEFAULT_RECEIPT_CONFIG.shopName,
+    headerLines: Array.isArray(stored.headerLines)
+      ? stored.headerLines.filter((line): line is string => typeof line === 'string' && line.trim() !== '')
+      : DEFAULT_RECEIPT_CONFIG.headerLines,
+    footer: typeof stored.footer === 'string' ? stored.footer : DEFAULT_RECEIPT_CONFIG.footer,
+    paperWidth: stored.paperWidth === '58mm' || stored.paperWidth === '80mm' ? stored.paperWidth : DEFAULT_RECEIPT_CONFIG.paperWidth,
+  };
+}
+
+/**
+ * Lay out an order as receipt lines: shop header, order details, items with their
+ * modifiers, totals with the VAT breakdown, payments and the footer
+ */
+export function buildReceiptLines(order: Order, { config, taxConfig, reprint = false, printedAt = new Date() }: ReceiptOptions): ReceiptLine[] {
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
+  const lines: ReceiptLine[] = [];
+
+  lines.push({ kind: 'text', text: config.shopName, align: 'center', bold: true, large: true });
+  config.headerLines.forEach((text) => lines.push({ kind: 'text', text, align: 'center' }));
+  if (reprint) {
+    lines.push({ kind: 'text', text: '*** REPRINT ***', align: 'center', bold: true });
+  }
+  lines.push({ kind: 'divider' });
+
+  lines.push({ kind: 'text', text: `ORDER ${formatOrderNumber(order.orderNumber)}`, align: 'center', bold: true, large: true });
+  if (order.status === 'cancelled' || order.status === 'voided') {
+    lines.push({ kind: 'text', text: `*** ${order.status.toUpperCase()} ***`, align: 'center', bold: true });
+  }
+  lines.push({ kind: 'row', left: 'Date', right: order.createdAt.toLocaleString('en-PH') });
+  lines.push({ kind: 'row', left: 'PC / Terminal', right: order.terminal });
+  if (order.customerName) {
+    lines.push({ kind: 'row', left: 'Customer', right: order.customerName });
+  }
+  lines.push({ kind: 'divider' });
+
+  order.items.forEach((item) => {
+    const line = priceLine(item);
+    lines.push({ kind: 'row', left: `${line.quantity}x ${line.name}`, right: money(line.baseTotal) });
+    item.modifiers.forEach((modifier) => {
+      const label = modifier.quantity > 1 ? `${modifier.quantity}x ${modifier.name}` : modifier.name;
+      const amount = roundCentavos(modifier.price * modifier.quantity * line.quantity);
+      lines.push({ kind: 'row', left: `+ ${label}`, right: amount > 0 ? money(amount) : '', indent: true });
+    });
+    if (item.notes) {
+      lines.push({ kind: 'row', left: `Note: ${item.notes}`, right: '', indent: true });
+    }
+  });
+  lines.push({ kind: 'divider' });
+
+  lines.push({ kind: 'row', left: 'Subtotal', right: money(priceOrder(order.items).subtotal) });
+  if (order.discountTotal > 0) {
+    lines.push({ kind: 'row', left: 'Promotions', right: money(-order.discountTotal) });
+  }
+  if (order.serviceCharge > 0) {
+    lines.push({ kind: 'row', left: 'Service charge', right: money(order.serviceCharge) });
+  }
+  if (order.exemptionDiscount > 0) {
+    const label = order.taxExemption ? TAX_EXEMPTION_LABELS[order.taxExemption.type] : 'Senior citizen / PWD';
+    lines.push({ kind: 'row', left: `${label} discount`, right: money(-order.exemptionDiscount) });
+  }
+  lines.push({ kind: 'row', left: 'TOTAL', right: money(order.total), bold: true });
+
+  // Orders placed before the tax breakdown was stored have none to print
+  if (order.vatableSales + order.vatExemptSales > 0) {
+    lines.push({ kind: 'divider' });
+    lines.push({ kind: 'row', left: 'VATable sales', right: money(order.vatableSales) });
+    lines.push({ kind: 'row', left: `VAT (${order.vatRate}%)`, right: money(order.vatAmount) });
+    lines.push({ kind: 'row', left: 'VAT-exempt sales', right: money(order.vatExemptSales) });
+    if (order.taxExemption) {
+      lines.push({ kind: 'row', left: `${TAX_EXEMPTION_LABELS[order.taxExemption.type]} ID`, right: order.taxExemption.idNumber });
+      lines.push({ kind: 'row', left: 'Name', right: order.taxExemption.name });
+      lines.push({ kind: 'text', text: 'Signature: ____________________' });
+    }
+  }
+  lines.push({ kind: 'divider' });
+
+  order.payments.forEach((payment) => {
+    lines.push({ kind: 'row', left: PAYMENT_METHOD_LABELS[payment.method], right: money(payment.amount) });
+    if (payment.amountTendered !== undefined) {
+      lines.push({ kind: 'row', left: 'Tendered', right: money(payment.amountTendered), indent: true });
+      lines.push({ kind: 'row', left: 'Change', right: money(payment.changeGiven ?? 0), indent: true });
+    }
+    if (payment.reference) {
+      lines.push({ kind: 'row', left: 'Ref', right: payment.reference, indent: true });
+    }
+    if (payment.payer) {
+      lines.push({ kind: 'row', left: 'Paid by', right: payment.payer, indent: true });
+    }
+  });
+  if (order.paymentStatus === 'paid') {
+    lines.push({ kind: 'row', left: 'PAID', right: money(order.amountPaid), bold: true });
+  } else {
+    lines.push({ kind: 'row', left: PAYMENT_STATUS_LABELS[order.paymentStatus].toUpperCase(), right: '', bold: true });
+    lines.push({ kind: 'row', left: 'Balance due', right: money(getBalanceDue(order)), bold: true });
+  }
+  lines.push({ kind: 'divider' });
+
+  config.footer.split('\n').filter((text) => text.trim()).forEach((text) => {
+    lines.push({ kind: 'text', text, align: 'center' });
+  });
+  lines.push({ kind: 'text', text: `Printed ${printedAt.toLocaleString('en-PH')}`, align: 'center' });
+
+  return lines;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Standalone HTML document sized for the paper roll, ready for the browser print dialog
+ */
+export function renderReceiptHtml(lines: ReceiptLine[], paperWidth: PaperWidth): string {
+  const body = lines.map((line) => {
+    if (line.kind === 'divider') return '<hr>';
+    if (line.kind === 'text') {
+      const classes = [line.align === 'center' ? 'center' : '', line.bold ? 'bold' : '', line.large ? 'large' : ''].filter(Boolean);
+      return `<div class="${classes.join(' ')}">${escapeHtml(line.text)}</div>`;
+    }
+    const classes = ['row', line.bold ? 'bold' : '', line.indent ? 'indent' : ''].filter(Boolean);
+    return `<div class="${classes.join(' ')}"><span>${escapeHtml(line.left)}</span><span>${escapeHtml(line.right)}</span></div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt</title>
+<style>
+  @page { size: ${paperWidth} auto; margin: 0; }
+  body { width: ${paperWidth}; margin: 0; padding: 3mm; box-sizing: border-box; font-family: 'Courier New', monospace; font-size: ${paperWidth === '58mm' ? 10 : 12}px; color: #000; }
+  .center { text-align: center; }
+  .bold { font-weight: bold; }
+  .large { font-size: 1.4em; }
+  .row { display: flex; justify-content: space-between; gap: 8px; }
+  .row span:last-child { text-align: right; white-space: nowrap; }
+  .indent { padding-left: 1.5em; }
+  hr { border: none; border-top: 1px dashed #000; margin: 4px 0; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+// Thermal printers only know their code page; keep plain ASCII and spell out ₱
+const toPrintable = (text: string) =>
+  text
+    .replace(/₱/g, 'P')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+
+// Split text into chunks of at most `width` characters, breaking at spaces where possible
+const wrap = (text: string, width: number): string[] => {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > width) {
+    const space = rest.lastIndexOf(' ', width);
+    const cut = space > 0 ? space : width;
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut).trimStart();
+  }
+  chunks.push(rest);
+  return chunks;
+};
+
+/**
+ * Left text and right-aligned amount on one line, wrapping the left text when both do not fit
+ */
+export function formatReceiptRow(left: string, right: string, columns: number): string[] {
+  if (left.length + right.length + 1 <= columns) {
+    return [left + ' '.repeat(columns - left.length - right.length) + right];
+  }
+  const wrapped = wrap(left, columns);
+  const last = wrapped[wrapped.length - 1];
+  if (last.length + right.length + 1 <= columns) {
+    wrapped[wrapped.length - 1] = last + ' '.repeat(columns - last.length - right.length) + right;
+    return wrapped;
+  }
+  return right ? [...wrapped, right.padStart(columns)] : wrapped;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/**
+ * Raw ESC/POS commands for a thermal printer: text, alignment, bold and double size, then feed and cut
+ */
+export function renderReceiptEscPos(lines: ReceiptLine[], paperWidth: PaperWidth): Uint8Array {
+  const columns = PAPER_COLUMNS[paperWidth];
+  const bytes: number[] = [ESC, 0x40]; // initialise
+
+  const write = (text: string) => {
+    for (const char of toPrintable(text)) bytes.push(char.charCodeAt(0));
+    bytes.push(LF);
+  };
+
+  lines.forEach((line) => {
+    if (line.kind === 'divider') {
+      write('-'.repeat(columns));
+      return;
+    }
+
+    bytes.push(ESC, 0x45, line.bold ? 1 : 0); // bold
+    if (line.kind === 'text') {
+      bytes.push(ESC, 0x61, line.align === 'center' ? 1 : 0); // alignment
+      bytes.push(GS, 0x21, line.large ? 0x11 : 0x00); // double width and height
+      wrap(line.text, line.large ? Math.floor(columns / 2) : columns).forEach(write);
+      bytes.push(GS, 0x21, 0x00, ESC, 0x61, 0);
+    } else {
+      const indent = line.indent ? '  ' : '';
+      formatReceiptRow(indent + line.left, line.right, columns).forEach(write);
+    }
+    bytes.push(ESC, 0x45, 0);
+  });
+
+  bytes.push(ESC, 0x64, 4); // feed 4 lines
+  bytes.push(GS, 0x56, 0x42, 0x00); // partial cut
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Open the browser print dialog for an HTML receipt without leaving the page
+ */
+export function printReceiptHtml(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Printing blocks until the dialog closes; give slow browsers a moment anyway
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+}
+
+/**
+ * Save an ESC/POS stream as a .bin file, to be sent to the printer (e.g. `cat receipt.bin > /dev/usb/lp0`)
+ */
+export function downloadEscPos(bytes: Uint8Array, filename: string): void {
+  const blob = new Blob([bytes], { type: 'application/octet-stream' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+}
@@ -0,0 +1,77 @@
+/**
+ * Stock reservation helpers
+ * Holds stock for the items in an open cart until the order is submitted,
+ * the item is removed, or the hold expires (e.g. the browser tab was closed)
+ */
+
+import { supabase } from '@/lib/supabase';
+import { getDeviceTokenFromStorage } from '@/lib/deviceTokens';
+import { toStockError } from '@/lib/inventoryStock';
+import { isNetworkFailure } from '@/lib/orderOutbox';
+
+export const RESERVATION_TTL_MINUTES = 15;
+export const RESERVATION_HEARTBEAT_INTERVAL = 60 * 1000; // 1 minute
+
+const SESSION_STORAGE_KEY = 'cart_session_id';
+
+/**
+ * Get the id that groups this tab's cart holds, creating it on first use
+ */
+export function getCartSessionId(): string {
+  let sessionId = sessionStorage.getItem(SESSION_STORAGE_KEY);
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+  }
+  return sessionId;
+}
+
+/**
+ * Hold `quantity` of a menu item for one cart line (replaces any previous hold for that line).
+ * Resolves false when the database cannot be reached, so the line can be held later.
+ * Throws InsufficientStockError when other carts and orders leave less than that.
+ */
+export async function reserveStock(cartItemId: string, menuItemId: string, quantity: number): Promise<boolean> {
+  const { error, status } = await supabase.rpc('reserve_stock', {
+    p_session_id: getCartSessionId(),
+    p_device_token: getDeviceTokenFromStorage(),
+    p_cart_item_id: cartItemId,
+    p_menu_item_id: menuItemId,
+    p_quantity: quantity,
+    p_ttl_minutes: RESERVATION_TTL_MINUTES,
+  });
+
+  if (isNetworkFailure(status)) return false;
+  if (error) {
+    throw toStockError(error, 'Could not reserve stock');
+  }
+  return true;
+}
+
+/**
+ * Release the hold for one cart line, or for the whole cart when no line is given
+ */
+export async function releaseReservations(cartItemId?: string): Promise<void> {
+  const { error } = await supabase.rpc('release_reservations', {
+    p_session_id: getCartSessionId(),
+    p_cart_item_id: cartItemId ?? null,
+  });
+
+  if (error) {
+    console.error('Error releasing stock reservations:', error);
+  }
+}
+
+/**
+ * Push back the expiry of this cart's holds while the cart is still open
+ */
+export async function extendReservations(): Promise<void> {
+  const { error } = await supabase.rpc('extend_reservations', {
+    p_session_id: getCartSessionId(),
+    p_ttl_minutes: RESERVATION_TTL_MINUTES,
+  });
+
+  if (error) {
+    console.error('Error extending stock reservations:', error);
+  }
+}
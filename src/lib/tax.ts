@@ -0,0 +1,92 @@
+/**
+ * Tax configuration
+ * Shop-level VAT and service charge settings (app_settings `tax_config`), senior citizen /
+ * PWD exemptions and money formatting. The amounts themselves are worked out by priceOrder()
+ */
+
+import { TaxConfig, TaxExemption, TaxExemptionType } from '@/types';
+import { PricingOptions } from '@/lib/pricing';
+
+export const TAX_CONFIG_KEY = 'tax_config';
+
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  currencySymbol: '₱',
+  vatRate: 12,
+  pricesIncludeVat: true,
+  serviceChargeRate: 0,
+  exemptionDiscountRate: 20,
+};
+
+export const TAX_EXEMPTION_LABELS: Record<TaxExemptionType, string> = {
+  senior: 'Senior citizen',
+  pwd: 'PWD',
+};
+
+const toPercent = (value: unknown, fallback: number) => {
+  const percent = Number(value);
+  return Number.isFinite(percent) && percent >= 0 && percent <= 100 ? percent : fallback;
+};
+
+/**
+ * Read the stored setting, falling back to the defaults for anything missing or malformed
+ */
+export function parseTaxConfig(value: unknown): TaxConfig {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof TaxConfig, unknown>>;
+  return {
+    currencySymbol: typeof stored.currencySymbol === 'string' && stored.currencySymbol.trim()
+      ? stored.currencySymbol.trim()
+      : DEFAULT_TAX_CONFIG.currencySymbol,
+    vatRate: toPercent(stored.vatRate, DEFAULT_TAX_CONFIG.vatRate),
+    pricesIncludeVat: typeof stored.pricesIncludeVat === 'boolean' ? stored.pricesIncludeVat : DEFAULT_TAX_CONFIG.pricesIncludeVat,
+    serviceChargeRate: toPercent(stored.serviceChargeRate, DEFAULT_TAX_CONFIG.serviceChargeRate),
+    exemptionDiscountRate: toPercent(stored.exemptionDiscountRate, DEFAULT_TAX_CONFIG.exemptionDiscountRate),
+  };
+}
+
+/**
+ * Share of the order covered by the exemption: the exempt diners' part of the bill
+ */
+export function getExemptShare(exemption?: TaxExemption | null): number {
+  if (!exemption || exemption.diners <= 0) return 0;
+  return Math.min(Math.max(exemption.exemptDiners, 0), exemption.diners) / exemption.diners;
+}
+
+/**
+ * Tax settings and exemption as priceOrder() options
+ */
+export function getTaxPricingOptions(config: TaxConfig, exemption?: TaxExemption | null): PricingOptions {
+  return {
+    serviceChargeRate: config.serviceChargeRate / 100,
+    taxRate: config.vatRate / 100,
+    taxInclusive: config.pricesIncludeVat,
+    exemptShare: getExemptShare(exemption),
+    exemptionDiscountRate: config.exemptionDiscountRate / 100,
+  };
+}
+
+/**
+ * Check an exemption claim; returns the problem, or null when it can be applied
+ */
+export function validateTaxExemption(exemption: TaxExemption): string | null {
+  if (!exemption.idNumber.trim()) {
+    return `Enter the ${TAX_EXEMPTION_LABELS[exemption.type]} ID number`;
+  }
+  if (!exemption.name.trim()) {
+    return 'Enter the name on the ID';
+  }
+  if (!Number.isInteger(exemption.diners) || exemption.diners < 1) {
+    return 'Enter how many people share the order';
+  }
+  if (!Number.isInteger(exemption.exemptDiners) || exemption.exemptDiners < 1 || exemption.exemptDiners > exemption.diners) {
+    return `Between 1 and ${exemption.diners} of the diners can claim the exemption`;
+  }
+  return null;
+}
+
+/**
+ * "₱1,234.50"; negative amounts as "-₱50.00"
+ */
+export function formatMoney(amount: number, currencySymbol = DEFAULT_TAX_CONFIG.currencySymbol): string {
+  const formatted = Math.abs(amount).toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${amount < 0 ? '-' : ''}${currencySymbol}${formatted}`;
+}
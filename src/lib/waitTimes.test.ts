@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { Order, OrderItem } from '@/types';
+import { DEFAULT_KITCHEN_STATION, KitchenStation } from '@/lib/kitchenStations';
+import { getPrepHistoryKey, getPrepTimeStats } from '@/lib/waitTimes';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+// Minutes into the last hour
+const at = (minute: number) => new Date(NOW.getTime() - (60 - minute) * 60000);
+
+const item = (menuItemId: string, category = 'meals'): OrderItem => ({
+  id: `line-${menuItemId}`,
+  name: menuItemId,
+  menuItem: { id: menuItemId, name: menuItemId, description: '', price: 100, category, available: true },
+  quantity: 1,
+  modifiers: [],
+});
+
+const order = (id: string, startMinute: number, readyMinute: number, items: OrderItem[] = [item('burger')]): Order => ({
+  id,
+  orderNumber: 1,
+  items,
+  total: 100,
+  discountTotal: 0,
+  serviceCharge: 0,
+  vatRate: 12,
+  taxInclusive: true,
+  vatableSales: 0,
+  vatAmount: 0,
+  vatExemptSales: 0,
+  exemptionDiscount: 0,
+  status: 'ready',
+  createdAt: at(startMinute),
+  preparingAt: at(startMinute),
+  readyAt: at(readyMinute),
+  stationsDone: {},
+  terminal: 'PC 1',
+  payments: [],
+  amountPaid: 0,
+  paymentStatus: 'unpaid',
+});
+
+const station = (id: string, categories: string[]): KitchenStation => ({
+  ...DEFAULT_KITCHEN_STATION,
+  id,
+  name: id,
+  categories,
+});
+
+// The count the sweep replaced: for every order, the orders already started and not yet
+// ready when it was started, itself included
+const pairwiseCapacity = (orders: Order[]) => {
+  const concurrent = orders.reduce((sum, current) => {
+    const started = current.preparingAt!.getTime();
+    return sum + orders.filter((other) =>
+      other.preparingAt!.getTime() <= started && other.readyAt!.getTime() > started
+    ).length;
+  }, 0);
+  return Math.max(1, concurrent / orders.length);
+};
+
+describe('getPrepTimeStats kitchenCapacity', () => {
+  it('counts the orders on the go when each one was started', () => {
+    const orders = [order('a', 0, 10), order('b', 5, 15), order('c', 20, 30)];
+
+    expect(getPrepTimeStats(orders, [], NOW).kitchenCapacity).toBeCloseTo(4 / 3);
+    expect(getPrepTimeStats(orders, [], NOW).kitchenCapacity).toBeCloseTo(pairwiseCapacity(orders));
+  });
+
+  it('does not count an order finished at the moment another is started', () => {
+    const orders = [order('a', 0, 10), order('b', 10, 20)];
+
+    expect(getPrepTimeStats(orders, [], NOW).kitchenCapacity).toBe(1);
+    expect(pairwiseCapacity(orders)).toBe(1);
+  });
+
+  it('counts orders started at the same moment as on the go together', () => {
+    const orders = [order('a', 0, 5), order('b', 0, 6), order('c', 0, 7)];
+
+    expect(getPrepTimeStats(orders, [], NOW).kitchenCapacity).toBe(3);
+    expect(pairwiseCapacity(orders)).toBe(3);
+  });
+
+  it('matches the pairwise count on a busy history full of ties', () => {
+    // Whole minutes only, so starts and finishes keep landing on the same moment
+    let seed = 7;
+    const next = (max: number) => {
+      seed = (seed * 48271) % 2147483647;
+      return seed % max;
+    };
+    const orders = Array.from({ length: 200 }, (_, i) => {
+      const start = next(50);
+      return order(`order-${i}`, start, start + 1 + next(10));
+    });
+
+    expect(getPrepTimeStats(orders, [], NOW).kitchenCapacity).toBeCloseTo(pairwiseCapacity(orders));
+  });
+});
+
+describe('getPrepTimeStats byItem', () => {
+  const stations = [station('grill', ['meals']), station('bar', ['drinks'])];
+
+  it('times each item of a split order by when its own station finished', () => {
+    const split = order('a', 0, 10, [item('burger'), item('iced-tea', 'drinks')]);
+    split.stationsDone = { bar: at(2), grill: at(10) };
+
+    const stats = getPrepTimeStats([split], stations, NOW);
+
+    expect(stats.byItem['burger']).toEqual({ minutes: 10, samples: 1 });
+    expect(stats.byItem['iced-tea']).toEqual({ minutes: 2, samples: 1 });
+  });
+
+  it('uses the order ready time when the station did not finish its ticket on its own', () => {
+    const split = order('a', 0, 8, [item('burger'), item('iced-tea', 'drinks')]);
+    split.stationsDone = { bar: at(3) };
+
+    expect(getPrepTimeStats([split], stations, NOW).byItem['burger']).toEqual({ minutes: 8, samples: 1 });
+  });
+
+  it('skips items that shared their station with another dish', () => {
+    const split = order('a', 0, 10, [item('burger'), item('fries'), item('iced-tea', 'drinks')]);
+    split.stationsDone = { bar: at(2), grill: at(10) };
+
+    const stats = getPrepTimeStats([split], stations, NOW);
+
+    expect(stats.byItem['burger']).toBeUndefined();
+    expect(stats.byItem['fries']).toBeUndefined();
+    expect(stats.byItem['iced-tea']).toEqual({ minutes: 2, samples: 1 });
+  });
+
+  it('only times an order made at one station when it was a single dish', () => {
+    const single = order('a', 0, 6, [item('burger')]);
+    const combo = order('b', 0, 12, [item('burger'), item('iced-tea', 'drinks')]);
+
+    const stats = getPrepTimeStats([single, combo], [], NOW);
+
+    expect(stats.byItem['burger']).toEqual({ minutes: 6, samples: 1 });
+    expect(stats.byItem['iced-tea']).toBeUndefined();
+    expect(stats.overall).toEqual({ minutes: 9, samples: 2 });
+  });
+});
+
+describe('getPrepHistoryKey', () => {
+  const finished = [order('a', 0, 10), order('b', 5, 15)];
+
+  it('stays the same when orders change without finishing', () => {
+    const pending = { ...order('c', 20, 30), status: 'pending' as const, preparingAt: undefined, readyAt: undefined };
+    const paid = { ...finished[0], paymentStatus: 'paid' as const };
+
+    expect(getPrepHistoryKey([...finished, pending])).toBe(getPrepHistoryKey(finished));
+    expect(getPrepHistoryKey([paid, finished[1]])).toBe(getPrepHistoryKey(finished));
+  });
+
+  it('changes when an order finishes or is sent back', () => {
+    const key = getPrepHistoryKey(finished);
+    const sentBack = { ...finished[1], status: 'preparing' as const, readyAt: undefined };
+
+    expect(getPrepHistoryKey([...finished, order('c', 20, 30)])).not.toBe(key);
+    expect(getPrepHistoryKey([finished[0], sentBack])).not.toBe(key);
+  });
+
+  it('changes when an order is marked ready again later', () => {
+    const readyAgain = { ...finished[0], readyAt: at(40) };
+
+    expect(getPrepHistoryKey([readyAgain, finished[1]])).not.toBe(getPrepHistoryKey(finished));
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Wait-time estimates
+ * How long an order takes to be ready, learned from recent orders: how long the
+ * kitchen took for each menu item and at each hour of the day (preparing until
+ * ready), and how many orders it usually has on the go at once. The orders ahead
+ * in the queue are then worked through at that pace
+ */
+
+import { Order } from '@/types';
+import { KitchenStation, getItemStation, getOrderStations } from '@/lib/kitchenStations';
+import { estimateWaitMinutes, getQueuePosition, isInKitchen } from '@/lib/orderTracking';
+
+const HISTORY_DAYS = 14;
+// Only the most recent timed orders are used, however busy the fortnight was
+const MAX_HISTORY_ORDERS = 1000;
+// Fewer timed orders than this and an item or hour falls back to the overall average
+const MIN_SAMPLES = 3;
+
+export interface PrepTimeAverage {
+  minutes: number;
+  samples: number;
+}
+
+export interface PrepTimeStats {
+  overall: PrepTimeAverage | null; // null until some orders have been timed
+  byItem: Record<string, PrepTimeAverage>; // by menu item id, from orders where it was timed on its own
+  byHour: Record<number, PrepTimeAverage>; // by hour the kitchen started, 0-23
+  kitchenCapacity: number; // orders usually prepared at the same time, at least 1
+}
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000;
+
+const addSample = (averages: Record<string | number, PrepTimeAverage>, key: string | number, minutes: number) => {
+  const current = averages[key] ?? { minutes: 0, samples: 0 };
+  averages[key] = {
+    minutes: (current.minutes * current.samples + minutes) / (current.samples + 1),
+    samples: current.samples + 1,
+  };
+};
+
+type TimedOrder = Order & { preparingAt: Date; readyAt: Date };
+
+/**
+ * Changes only when an order finishes or is sent back, so the averages are not worked
+ * out again on every order update
+ */
+export function getPrepHistoryKey(orders: Order[]): string {
+  let count = 0;
+  let latest = 0;
+  orders.forEach((order) => {
+    if (!order.preparingAt || !order.readyAt) return;
+    count += 1;
+    latest = Math.max(latest, order.readyAt.getTime());
+  });
+  return `${count}:${latest}`;
+}
+
+// Orders on the go when each timed order was started, itself included, summed over all of
+// them: one pass over the starts and finishes in time order. A finish at the same moment
+// as a start does not count; starts at the same moment count each other
+const sumConcurrent = (timed: TimedOrder[]) => {
+  const events = timed
+    .flatMap((order) => [
+      { at: order.preparingAt.getTime(), start: true },
+      { at: order.readyAt.getTime(), start: false },
+    ])
+    .sort((a, b) => a.at - b.at || Number(a.start) - Number(b.start));
+
+  let active = 0;
+  let sum = 0;
+  let i = 0;
+  while (i < events.length) {
+    const at = events[i].at;
+    let started = 0;
+    while (i < events.length && events[i].at === at) {
+      if (events[i].start) started += 1;
+      else active -= 1;
+      i += 1;
+    }
+    active += started;
+    sum += started * active;
+  }
+  return sum;
+};
+
+// When each dish of the order was finished, by menu item id: when its station finished its
+// ticket on an order split across stations, otherwise when the order was ready. A dish is
+// only timed where it was the one thing its station (or the kitchen) made for the order,
+// so a drink ordered with a burger does not take on the burger's time
+const getItemTimes = (order: TimedOrder, stations: KitchenStation[]) => {
+  const split = getOrderStations(order, stations).length > 1;
+  const dishesAt: Record<string, Set<string>> = {};
+  order.items.forEach((item) => {
+    const stationId = split ? getItemStation(item, stations)?.id ?? '' : '';
+    dishesAt[stationId] = (dishesAt[stationId] ?? new Set<string>()).add(item.menuItem.id);
+  });
+
+  const times: Record<string, number> = {};
+  Object.entries(dishesAt).forEach(([stationId, dishes]) => {
+    if (dishes.size !== 1) return;
+    const finishedAt = (stationId && order.stationsDone[stationId]) || order.readyAt;
+    if (finishedAt <= order.preparingAt) return;
+    dishes.forEach((itemId) => { times[itemId] = minutesBetween(order.preparingAt, finishedAt); });
+  });
+  return times;
+};
+
+/**
+ * Averages over the orders the kitchen finished in the last two weeks (the latest
+ * 1000 at most). Costly on a long history; work it out once per load, see getPrepHistoryKey
+ */
+export function getPrepTimeStats(orders: Order[], stations: KitchenStation[] = [], now = new Date()): PrepTimeStats {
+  const since = now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000;
+  const timed = orders
+    .filter((order): order is TimedOrder =>
+      !!order.preparingAt && !!order.readyAt &&
+      order.preparingAt.getTime() >= since &&
+      order.readyAt > order.preparingAt
+    )
+    .sort((a, b) => b.preparingAt.getTime() - a.preparingAt.getTime())
+    .slice(0, MAX_HISTORY_ORDERS);
+
+  if (timed.length === 0) {
+    return { overall: null, byItem: {}, byHour: {}, kitchenCapacity: 1 };
+  }
+
+  const byItem: Record<string, PrepTimeAverage> = {};
+  const byHour: Record<number, PrepTimeAverage> = {};
+  let total = 0;
+
+  timed.forEach((order) => {
+    const minutes = minutesBetween(order.preparingAt, order.readyAt);
+    total += minutes;
+    Object.entries(getItemTimes(order, stations)).forEach(([itemId, itemMinutes]) => addSample(byItem, itemId, itemMinutes));
+    addSample(byHour, order.preparingAt.getHours(), minutes);
+  });
+
+  return {
+    overall: { minutes: total / timed.length, samples: timed.length },
+    byItem,
+    byHour,
+    kitchenCapacity: Math.max(1, sumConcurrent(timed) / timed.length),
+  };
+}
+
+/**
+ * Minutes the kitchen needs for the order once started: its slowest item, scaled by
+ * how busy this hour of the day usually is. Null without any history
+ */
+export function estimatePrepMinutes(order: Order, stats: PrepTimeStats, now = new Date()): number | null {
+  if (!stats.overall) return null;
+
+  const itemMinutes = order.items
+    .map((item) => stats.byItem[item.menuItem.id])
+    .filter((average) => average && average.samples >= MIN_SAMPLES)
+    .map((average) => average.minutes);
+  const baseMinutes = itemMinutes.length > 0 ? Math.max(...itemMinutes) : stats.overall.minutes;
+
+  const hour = stats.byHour[(order.preparingAt ?? now).getHours()];
+  const hourFactor = hour && hour.samples >= MIN_SAMPLES ? hour.minutes / stats.overall.minutes : 1;
+
+  return baseMinutes * hourFactor;
+}
+
+// Minutes left for an order the kitchen already started, or all of it when still pending
+const remainingPrepMinutes = (order: Order, stats: PrepTimeStats, now: Date) => {
+  const prep = estimatePrepMinutes(order, stats, now) ?? 0;
+  if (order.status !== 'preparing' || !order.preparingAt) return prep;
+  return Math.max(prep - minutesBetween(order.preparingAt, now), 0);
+};
+
+/**
+ * Minutes until the order should be ready, or null once it has left the kitchen.
+ * Without history it falls back to a flat estimate by place in the queue
+ */
+export function estimateReadyMinutes(order: Order, orders: Order[], stats: PrepTimeStats, now = new Date()): number | null {
+  const position = getQueuePosition(order, orders);
+  if (position === null) return null;
+  if (!stats.overall) return estimateWaitMinutes(position - 1);
+
+  let minutes = remainingPrepMinutes(order, stats, now);
+  if (order.status === 'pending') {
+    // The kitchen works through the orders ahead a few at a time
+    const ahead = orders.filter((other) =>
+      other.id !== order.id &&
+      isInKitchen(other) &&
+      other.createdAt.getTime() < order.createdAt.getTime()
+    );
+    const workAhead = ahead.reduce((sum, other) => sum + remainingPrepMinutes(other, stats, now), 0);
+    minutes += workAhead / stats.kitchenCapacity;
+  }
+
+  return Math.max(1, Math.ceil(minutes));
+}
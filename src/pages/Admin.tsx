@@ -5,16 +5,28 @@
   import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
   import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
   import { Input } from '@/components/ui/input';
+  import { Textarea } from '@/components/ui/textarea';
   import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-  import { BarChart3, Users, Database, Download, Upload, Package, ClipboardList, LogOut, ShieldCheck, TrendingUp, Trophy, Wand2, AlertCircle, Clock , Activity, Plus, Trash2, Eye, EyeOff, Loader, Server } from 'lucide-react';
+  import { Switch } from '@/components/ui/switch';
+  import { BarChart3, Users, Database, Download, Upload, Package, ClipboardList, LogOut, ShieldCheck, TrendingUp, Trophy, Wand2, AlertCircle, Clock , Activity, Plus, Trash2, Eye, EyeOff, Loader, Server, Tag, Printer, Footprints } from 'lucide-react';
   import { useOrderStore } from '@/store/orderStore';
   import { useAuthStore } from '@/store/authStore';
   import { AdminMenuManagement } from '@/components/AdminMenuManagement';
   import { MenuInventory } from '@/components/MenuInventory';
   import { useMenuData } from '@/hooks/useMenuData';
   import { useStaffDatabase } from '@/hooks/useStaffDatabase';
+  import { useAppSettings } from '@/hooks/useAppSettings';
+  import { BUSINESS_DAY_CUTOFF_KEY, DEFAULT_BUSINESS_DAY_CUTOFF, formatOrderNumber } from '@/lib/orderNumbers';
+  import { isCancelledStatus } from '@/lib/orderCancellation';
+  import { TAX_CONFIG_KEY, formatMoney, parseTaxConfig } from '@/lib/tax';
+  import { PaperWidth, RECEIPT_CONFIG_KEY, parseReceiptConfig } from '@/lib/receipts';
   import MenuManagement from '@/components/admin/MenuManagement';
   import OrderManagement from '@/components/admin/OrderManagement';
+  import PromotionManagement from '@/components/admin/PromotionManagement';
+  import KitchenStationManagement from '@/components/admin/KitchenStationManagement';
+  import KitchenAgeingSettings from '@/components/admin/KitchenAgeingSettings';
+  import DeliveryManagement from '@/components/admin/DeliveryManagement';
+  import StageDurations from '@/components/admin/StageDurations';
   import { PCManagementAdmin } from '@/components/PCManagementAdmin';
 
   
@@ -56,7 +68,8 @@
   };
 
   export default function Admin() {
-    const { orders } = useOrderStore();
+    const { orders, setTaxConfig, taxConfig } = useOrderStore();
+    const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
     const { logout } = useAuthStore();
     const { menuItems, loading } = useMenuData();
     const { loadStaffUsers, addStaffUser, deleteStaffUser, loading: staffLoading } = useStaffDatabase();
@@ -65,6 +78,58 @@
     const [users, setUsers] = useState<Array<{ id: string; email: string; role: string; password: string }>>([]);
     const [newUser, setNewUser] = useState({ email: '', role: 'staff', password: '' });
     const [showPassword, setShowPassword] = useState<Record<string, boolean>>({});
+    const { settings, updateSetting } = useAppSettings();
+    const [cutoffTime, setCutoffTime] = useState(DEFAULT_BUSINESS_DAY_CUTOFF);
+    const [savingCutoff, setSavingCutoff] = useState(false);
+    const [taxForm, setTaxForm] = useState(() => parseTaxConfig(undefined));
+    const [savingTax, setSavingTax] = useState(false);
+    const [receiptForm, setReceiptForm] = useState(() => {
+      const config = parseReceiptConfig(undefined);
+      return { ...config, headerLines: config.headerLines.join('\n') };
+    });
+    const [savingReceipt, setSavingReceipt] = useState(false);
+
+    useEffect(() => {
+      if (typeof settings[BUSINESS_DAY_CUTOFF_KEY] === 'string') {
+        setCutoffTime(settings[BUSINESS_DAY_CUTOFF_KEY] as string);
+      }
+      setTaxForm(parseTaxConfig(settings[TAX_CONFIG_KEY]));
+      const receiptConfig = parseReceiptConfig(settings[RECEIPT_CONFIG_KEY]);
+      setReceiptForm({ ...receiptConfig, headerLines: receiptConfig.headerLines.join('\n') });
+    }, [settings]);
+
+    const saveCutoffTime = async () => {
+      setSavingCutoff(true);
+      const result = await updateSetting(BUSINESS_DAY_CUTOFF_KEY, cutoffTime);
+      setSavingCutoff(false);
+      if (!result.success) {
+        alert('Failed to save the cutoff time. Please try again.');
+      }
+    };
+
+    const saveTaxConfig = async () => {
+      // Anything out of range falls back to the default
+      const config = parseTaxConfig(taxForm);
+      setSavingTax(true);
+      const result = await updateSetting(TAX_CONFIG_KEY, config);
+      setSavingTax(false);
+      if (!result.success) {
+        alert('Failed to save the tax settings. Please try again.');
+        return;
+      }
+      setTaxForm(config);
+      setTaxConfig(config);
+    };
+
+    const saveReceiptConfig = async () => {
+      const config = parseReceiptConfig({ ...receiptForm, headerLines: receiptForm.headerLines.split('\n') });
+      setSavingReceipt(true);
+      const result = await updateSetting(RECEIPT_CONFIG_KEY, config);
+      setSavingReceipt(false);
+      if (!result.success) {
+        alert('Failed to save the receipt settings. Please try again.');
+      }
+    };
 
     useEffect(() => {
       // Load users from Supabase
@@ -111,14 +176,30 @@
       window.addEventListener('error', handleError);
       return () => window.removeEventListener('error', handleError);
     }, []);
-    const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0);
-    const avgOrderValue = orders.length > 0 ? totalRevenue / orders.length : 0;
+    // Cancelled and voided orders stay in history but are not sales
+    const salesOrders = useMemo(() => orders.filter((order) => !isCancelledStatus(order.status)), [orders]);
+    const cancelledOrders = useMemo(() => orders.filter((order) => isCancelledStatus(order.status)), [orders]);
+    const totalRevenue = salesOrders.reduce((sum, order) => sum + order.total, 0);
+    const avgOrderValue = salesOrders.length > 0 ? totalRevenue / salesOrders.length : 0;
+    const cancelledValue = cancelledOrders.reduce((sum, order) => sum + order.total, 0);
+
+    const cancelReasonData = useMemo(() => {
+      const grouped: Record<string, number> = {};
+      cancelledOrders.forEach((order) => {
+        const reason = order.cancelReason || 'No reason';
+        grouped[reason] = (grouped[reason] || 0) + 1;
+      });
+      return Object.entries(grouped)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([reason, count]) => ({ reason, count }));
+    }, [cancelledOrders]);
 
     // ✅ Data Processing Functions (moved above early returns to keep hooks stable)
     const revenueData = useMemo(() => {
-      if (orders.length === 0) return [];
+      if (salesOrders.length === 0) return [];
       const grouped: Record<string, number> = {};
-      orders.forEach((order) => {
+      salesOrders.forEach((order) => {
         try {
           const orderDate = order.createdAt instanceof Date ? order.createdAt : new Date(order.createdAt);
           const date = orderDate.toLocaleDateString();
@@ -132,7 +213,7 @@
         total: parseFloat(total.toFixed(2)) 
       }));
       return data.length > 0 ? data : [];
-    }, [orders]);
+    }, [salesOrders]);
 
     // Time range selection for revenue chart (7d / 30d / 90d)
     const [revenueRange, setRevenueRange] = useState<'7d' | '30d' | '90d'>('7d');
@@ -153,9 +234,9 @@
     }, [orders]);
 
     const topItemsData = useMemo(() => {
-      if (orders.length === 0) return [];
+      if (salesOrders.length === 0) return [];
       const itemSales: Record<string, number> = {};
-      orders.forEach((order) => {
+      salesOrders.forEach((order) => {
         order.items.forEach((item) => {
           itemSales[item.name] = (itemSales[item.name] || 0) + item.quantity;
         });
@@ -164,14 +245,14 @@
         .sort((a, b) => b[1] - a[1])
         .slice(0, 5);
       return sorted.map(([name, quantity]) => ({ name, quantity }));
-    }, [orders]);
+    }, [salesOrders]);
 
     // ✅ PREDICTIVE ANALYTICS
     const predictiveData = useMemo(() => {
       try {
         // Average Daily Revenue
         const dailyRevenue: Record<string, number> = {};
-        orders.forEach((order) => {
+        salesOrders.forEach((order) => {
           try {
             const orderDate = order.createdAt instanceof Date ? order.createdAt : new Date(order.createdAt);
             const date = orderDate.toLocaleDateString();
@@ -185,7 +266,7 @@
 
         // Peak Hours Analysis
         const hourlyOrders: Record<number, number> = {};
-        orders.forEach((order) => {
+        salesOrders.forEach((order) => {
           try {
             const orderDate = order.createdAt instanceof Date ? order.createdAt : new Date(order.createdAt);
             const hour = orderDate.getHours();
@@ -203,15 +284,15 @@
         const predictedRevenue = (avgDailyRevenue * 5).toFixed(2);
 
         // Growth rate
-        const recentOrders = orders.slice(Math.max(0, orders.length - 10));
-        const olderOrders = orders.slice(Math.max(0, orders.length - 20), Math.max(0, orders.length - 10));
+        const recentOrders = salesOrders.slice(Math.max(0, salesOrders.length - 10));
+        const olderOrders = salesOrders.slice(Math.max(0, salesOrders.length - 20), Math.max(0, salesOrders.length - 10));
         const recentAvg = recentOrders.length > 0 ? recentOrders.reduce((sum, o) => sum + (o.total || 0), 0) / recentOrders.length : 0;
         const olderAvg = olderOrders.length > 0 ? olderOrders.reduce((sum, o) => sum + (o.total || 0), 0) / olderOrders.length : 0;
         const growthRate = olderAvg > 0 ? (((recentAvg - olderAvg) / olderAvg) * 100).toFixed(1) : 0;
 
         // High demand items for restocking
         const itemDemand: Record<string, { quantity: number; lastOrdered: Date }> = {};
-        orders.forEach((order) => {
+        salesOrders.forEach((order) => {
           if (order.items && Array.isArray(order.items)) {
             order.items.forEach((item) => {
               if (item?.name) {
@@ -250,7 +331,7 @@
           itemDemand: {},
         };
       }
-    }, [orders]);
+    }, [salesOrders]);
 
     // Show error if rendering failed
     if (renderError) {
@@ -308,7 +389,7 @@
                 <LogOut className="h-4 w-4" /> Logout
               </Button>
             </div>
-            <TabsList className="grid w-full grid-cols-5 tech-border">
+            <TabsList className="grid w-full grid-cols-8 tech-border">
               <TabsTrigger value="overview" className="gap-2 font-semibold hover:text-primary transition-colors">
                 <BarChart3 className="h-4 w-4" />
                 Overview
@@ -325,6 +406,18 @@
                 <Package className="h-4 w-4" />
                 Stock Levels
               </TabsTrigger>
+              <TabsTrigger value="promotions" className="gap-2 font-semibold hover:text-primary transition-colors">
+                <Tag className="h-4 w-4" />
+                Promotions
+              </TabsTrigger>
+              <TabsTrigger value="stations" className="gap-2 font-semibold hover:text-primary transition-colors">
+                <Printer className="h-4 w-4" />
+                Stations
+              </TabsTrigger>
+              <TabsTrigger value="delivery" className="gap-2 font-semibold hover:text-primary transition-colors">
+                <Footprints className="h-4 w-4" />
+                Delivery
+              </TabsTrigger>
               <TabsTrigger value="pc-management" className="gap-2 font-semibold hover:text-primary transition-colors">
                 <Server className="h-4 w-4" />
                 PC Management
@@ -342,7 +435,7 @@
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="grid gap-4 md:grid-cols-4">
+                  <div className="grid gap-4 md:grid-cols-5">
                     <div className="text-center p-6 bg-gradient-to-br from-primary/5 to-accent/5 border border-primary/20 rounded-lg hover:border-primary/40 transition-all duration-300">
                       <div className="text-3xl font-bold text-primary neon-glow">{orders.length}</div>
                       <div className="text-sm text-muted-foreground mt-2 font-semibold">Total Orders</div>
@@ -361,6 +454,11 @@
                       </div>
                       <div className="text-sm text-muted-foreground mt-2 font-semibold">Completed Orders</div>
                     </div>
+                    <div className="text-center p-6 bg-gradient-to-br from-destructive/5 to-primary/5 border border-primary/20 rounded-lg hover:border-primary/40 transition-all duration-300">
+                      <div className="text-3xl font-bold text-destructive">{cancelledOrders.length}</div>
+                      <div className="text-sm text-muted-foreground mt-2 font-semibold">Cancelled / Voided</div>
+                      <div className="text-xs text-muted-foreground mt-1">{money(cancelledValue)} not collected</div>
+                    </div>
                   </div>
                 </CardContent>
               </div>
@@ -504,6 +602,20 @@
                         </div>
                       </div>
                     </div>
+
+                    {cancelReasonData.length > 0 && (
+                      <div className="mt-4 pt-4 border-t border-primary/20">
+                        <h4 className="font-semibold text-sm mb-2">Top Cancellation Reasons</h4>
+                        <div className="space-y-1">
+                          {cancelReasonData.map((r) => (
+                            <div key={r.reason} className="flex items-center justify-between text-sm">
+                              <span className="text-muted-foreground truncate">{r.reason}</span>
+                              <span className="font-semibold text-destructive ml-2">{r.count}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </CardContent>
                 </div>
 
@@ -610,6 +722,11 @@
                   </div>
                 </div>
 
+                {/* Time orders spend in each status */}
+                <div className="mt-8">
+                  <StageDurations />
+                </div>
+
                 {/* High Demand Items & Recommendations */}
                 <div className="grid gap-8 mt-8 md:grid-cols-2">
                   {/* Inventory Recommendations */}
@@ -728,6 +845,159 @@
                       </Button>
                     </div>
 
+                    <div className="flex items-center justify-between gap-4 p-4 bg-muted/50 border border-primary/20 rounded-lg hover:border-primary/40 transition-all">
+                      <div>
+                        <h4 className="font-semibold text-sm">Business Day Cutoff</h4>
+                        <p className="text-xs text-muted-foreground mt-1">Order numbers restart at #1 from this time</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          value={cutoffTime}
+                          onChange={(e) => setCutoffTime(e.target.value)}
+                          className="w-28"
+                        />
+                        <Button
+                          onClick={saveCutoffTime}
+                          disabled={savingCutoff || cutoffTime === settings[BUSINESS_DAY_CUTOFF_KEY]}
+                          variant="outline"
+                          size="sm"
+                          className="font-semibold"
+                        >
+                          {savingCutoff ? <Loader className="h-4 w-4 animate-spin" /> : 'Save'}
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="p-4 bg-muted/50 border border-primary/20 rounded-lg hover:border-primary/40 transition-all space-y-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <h4 className="font-semibold text-sm">Tax & Service Charge</h4>
+                          <p className="text-xs text-muted-foreground mt-1">Applies to new orders; placed orders keep their breakdown</p>
+                        </div>
+                        <Button
+                          onClick={saveTaxConfig}
+                          disabled={savingTax}
+                          variant="outline"
+                          size="sm"
+                          className="font-semibold"
+                        >
+                          {savingTax ? <Loader className="h-4 w-4 animate-spin" /> : 'Save'}
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div>
+                          <label className="text-xs text-muted-foreground">Currency</label>
+                          <Input
+                            value={taxForm.currencySymbol}
+                            onChange={(e) => setTaxForm(prev => ({ ...prev, currencySymbol: e.target.value }))}
+                            maxLength={4}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground">VAT %</label>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={taxForm.vatRate}
+                            onChange={(e) => setTaxForm(prev => ({ ...prev, vatRate: parseFloat(e.target.value) || 0 }))}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground">Service charge %</label>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={taxForm.serviceChargeRate}
+                            onChange={(e) => setTaxForm(prev => ({ ...prev, serviceChargeRate: parseFloat(e.target.value) || 0 }))}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground">Senior / PWD discount %</label>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={taxForm.exemptionDiscountRate}
+                            onChange={(e) => setTaxForm(prev => ({ ...prev, exemptionDiscountRate: parseFloat(e.target.value) || 0 }))}
+                          />
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="prices-include-vat"
+                          checked={taxForm.pricesIncludeVat}
+                          onCheckedChange={(checked) => setTaxForm(prev => ({ ...prev, pricesIncludeVat: checked }))}
+                        />
+                        <label htmlFor="prices-include-vat" className="text-sm">Menu prices include VAT</label>
+                      </div>
+                    </div>
+
+                    <div className="p-4 bg-muted/50 border border-primary/20 rounded-lg hover:border-primary/40 transition-all space-y-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <h4 className="font-semibold text-sm">Receipts</h4>
+                          <p className="text-xs text-muted-foreground mt-1">Shop header and footer printed on customer receipts</p>
+                        </div>
+                        <Button
+                          onClick={saveReceiptConfig}
+                          disabled={savingReceipt}
+                          variant="outline"
+                          size="sm"
+                          className="font-semibold"
+                        >
+                          {savingReceipt ? <Loader className="h-4 w-4 animate-spin" /> : 'Save'}
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <div className="md:col-span-2">
+                          <label className="text-xs text-muted-foreground">Shop name</label>
+                          <Input
+                            value={receiptForm.shopName}
+                            onChange={(e) => setReceiptForm(prev => ({ ...prev, shopName: e.target.value }))}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground">Default paper</label>
+                          <Select
+                            value={receiptForm.paperWidth}
+                            onValueChange={(value) => setReceiptForm(prev => ({ ...prev, paperWidth: value as PaperWidth }))}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="58mm">58 mm</SelectItem>
+                              <SelectItem value="80mm">80 mm</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                          <label className="text-xs text-muted-foreground">Header lines (address, TIN, phone)</label>
+                          <Textarea
+                            rows={3}
+                            value={receiptForm.headerLines}
+                            onChange={(e) => setReceiptForm(prev => ({ ...prev, headerLines: e.target.value }))}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground">Footer message</label>
+                          <Textarea
+                            rows={3}
+                            value={receiptForm.footer}
+                            onChange={(e) => setReceiptForm(prev => ({ ...prev, footer: e.target.value }))}
+                          />
+                        </div>
+                      </div>
+                    </div>
+
                     <div className="flex items-center justify-between p-4 bg-muted/50 border border-primary/20 rounded-lg hover:border-primary/40 transition-all">
                       <div>
                         <h4 className="font-semibold text-sm">Network Status</h4>
@@ -804,7 +1074,7 @@
                             className="flex items-center justify-between p-3 bg-gradient-to-r from-primary/5 to-accent/5 border border-primary/10 rounded-lg hover:border-primary/30 transition-all duration-300"
                           >
                             <div>
-                              <div className="font-bold text-foreground">Order #{order.orderNumber}</div>
+                              <div className="font-bold text-foreground">Order {formatOrderNumber(order.orderNumber)}</div>
                               <div className="text-sm text-muted-foreground">
                                 {order.items.length} items •{' '}
                                 {(order.createdAt instanceof Date ? order.createdAt : new Date(order.createdAt)).toLocaleString()}
@@ -815,16 +1085,18 @@
                                 className={
                                   order.status === 'completed'
                                     ? 'neon-glow-primary'
-                                    : order.status === 'ready'
+                                    : ['ready', 'out_for_delivery', 'delivered'].includes(order.status)
                                     ? 'neon-glow-primary'
                                     : order.status === 'preparing'
                                     ? ''
                                     : '' 
                                 }
                                 variant={
-                                  order.status === 'completed'
+                                  isCancelledStatus(order.status)
+                                    ? 'outline'
+                                    : order.status === 'completed'
                                     ? 'default'
-                                    : order.status === 'ready'
+                                    : ['ready', 'out_for_delivery', 'delivered'].includes(order.status)
                                     ? 'secondary'
                                     : order.status === 'preparing'
                                     ? 'outline'
@@ -833,7 +1105,7 @@
                               >
                                 {order.status}
                               </Badge>
-                              <span className="font-bold text-primary neon-glow">    
+                              <span className={`font-bold text-primary neon-glow ${isCancelledStatus(order.status) ? 'line-through opacity-60' : ''}`}>
                                 ₱{order.total.toFixed(2)}
                               </span>
                             </div>
@@ -860,6 +1132,22 @@
               <MenuInventory />
             </TabsContent>
 
+            {/* === PROMOTIONS TAB === */}
+            <TabsContent value="promotions">
+              <PromotionManagement />
+            </TabsContent>
+
+            {/* === KITCHEN STATIONS TAB === */}
+            <TabsContent value="stations" className="space-y-6">
+              <KitchenStationManagement />
+              <KitchenAgeingSettings />
+            </TabsContent>
+
+            {/* === DELIVERY TAB === */}
+            <TabsContent value="delivery">
+              <DeliveryManagement />
+            </TabsContent>
+
             {/* PC Management Tab */}
             <TabsContent value="pc-management">
               <PCManagementAdmin />
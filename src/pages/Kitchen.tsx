@@ -1,5 +1,7 @@
+import { useSearchParams } from 'react-router-dom';
 import { KitchenDashboard } from '@/components/KitchenDashboard';
 
 export default function Kitchen() {
-  return <KitchenDashboard />;
-}
\ No newline at end of file
+  const [searchParams] = useSearchParams();
+  return <KitchenDashboard stationId={searchParams.get('station') ?? undefined} />;
+}
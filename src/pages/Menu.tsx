@@ -2,9 +2,16 @@ import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { MenuCard } from '@/components/MenuCard';
 import { OrderCart } from '@/components/OrderCart';
+import { PlacedOrders } from '@/components/PlacedOrders';
+import { ReceiptDialog } from '@/components/ReceiptDialog';
 import { useOrderStore } from '@/store/orderStore';
 import { useMenuData } from '@/hooks/useMenuData';
-import { MenuItem } from '@/types';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { getModifierGroups, validateModifiers } from '@/lib/modifiers';
+import { priceLine } from '@/lib/pricing';
+import { getTrackingPath } from '@/lib/orderTracking';
+import { formatMoney } from '@/lib/tax';
+import { MenuItem, ModifierGroup, Order, OrderItemModifier } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -16,17 +23,22 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Utensils, Plus, Loader, Monitor, ChefHat, ArrowLeft, CheckCircle } from 'lucide-react';
 
 export default function Menu() {
-  const { addToOrder } = useOrderStore();
+  const { addToOrder, taxConfig } = useOrderStore();
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
   const { menuItems, menuCategories, loading, error } = useMenuData();
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
   const [quantity, setQuantity] = useState(1);
-  const [selectedCustomizations, setSelectedCustomizations] = useState<{ [key: string]: number }>({});
-  const [selectedFlavors, setSelectedFlavors] = useState<string[]>([]);
+  // groupId -> option name -> quantity
+  const [selectedModifiers, setSelectedModifiers] = useState<Record<string, Record<string, number>>>({});
   const [notes, setNotes] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
+  const [addError, setAddError] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [receiptOrder, setReceiptOrder] = useState<Order | null>(null);
+  const [trackingPath, setTrackingPath] = useState<string | null>(null);
 
   const handleBackToLanding = () => {
     // Instant redirect to home - skip validation completely
@@ -40,68 +52,83 @@ export default function Menu() {
   const handleAddToOrder = (item: MenuItem) => {
     setSelectedItem(item);
     setQuantity(1);
-    setSelectedCustomizations({});
-    setSelectedFlavors([]);
+    setSelectedModifiers({});
     setNotes('');
+    setAddError('');
     setIsDialogOpen(true);
   };
 
-  const handleConfirmAdd = () => {
+  const modifierGroups = selectedItem ? getModifierGroups(selectedItem) : [];
+
+  // The current selection as order item modifiers, in menu order
+  const getSelectedModifiers = (): OrderItemModifier[] =>
+    modifierGroups.flatMap(group =>
+      group.options
+        .filter(option => (selectedModifiers[group.id]?.[option.name] || 0) > 0)
+        .map(option => ({
+          groupId: group.id,
+          groupName: group.name,
+          name: option.name,
+          price: option.price,
+          quantity: selectedModifiers[group.id][option.name],
+        }))
+    );
+
+  const selectedLine = selectedItem
+    ? priceLine({ menuItem: selectedItem, quantity, modifiers: getSelectedModifiers() })
+    : null;
+
+  const handleConfirmAdd = async () => {
     if (selectedItem) {
-      // Convert customization quantities back to array format
-      const customizationStrings = Object.entries(selectedCustomizations)
-        .filter(([_, qty]) => qty > 0)
-        .map(([key, qty]) => {
-          const option = selectedItem.customization?.find(opt => {
-            const name = typeof opt === 'string' ? opt : opt.name;
-            return name === key;
-          });
-          if (typeof option === 'string') {
-            return JSON.stringify({ name: option, price: 0, quantity: qty });
-          } else if (option) {
-            return JSON.stringify({ ...option, quantity: qty });
-          }
-          return JSON.stringify({ name: key, price: 0, quantity: qty });
-        });
+      const modifiers = getSelectedModifiers();
+      const selectionError = validateModifiers(modifierGroups, modifiers);
+      if (selectionError) {
+        setAddError(selectionError);
+        return;
+      }
       
-      addToOrder(selectedItem, quantity, customizationStrings, notes, selectedFlavors);
-      setIsDialogOpen(false);
-      setSelectedItem(null);
-    }
-  };
-
-  const handleCustomizationChange = (option: any, quantity: number) => {
-    const optionName = typeof option === 'string' ? option : option.name;
-    if (quantity > 0) {
-      setSelectedCustomizations(prev => {
-        const updated = { ...prev };
-        updated[optionName] = quantity;
-        return updated;
-      });
-    } else {
-      setSelectedCustomizations(prev => {
-        const updated = { ...prev };
-        delete updated[optionName];
-        return updated;
-      });
+      setIsAdding(true);
+      setAddError('');
+      try {
+        await addToOrder(selectedItem, quantity, modifiers, notes);
+        setIsDialogOpen(false);
+        setSelectedItem(null);
+      } catch (err) {
+        // Stock could not be reserved, keep the dialog open so the quantity can be changed
+        setAddError(err instanceof Error ? err.message : 'Could not add item to order');
+      } finally {
+        setIsAdding(false);
+      }
     }
   };
 
-  const handleFlavorChange = (flavor: string, checked: boolean) => {
-    if (checked) {
-      // Only allow one flavor at a time
-      setSelectedFlavors([flavor]);
-    } else {
-      setSelectedFlavors([]);
-    }
+  const handleModifierChange = (group: ModifierGroup, optionName: string, quantity: number) => {
+    setSelectedModifiers(prev => {
+      // Single-choice groups behave like radio buttons
+      const current = group.maxSelections === 1 ? {} : { ...(prev[group.id] || {}) };
+      if (quantity > 0) {
+        current[optionName] = quantity;
+      } else {
+        delete current[optionName];
+      }
+      return { ...prev, [group.id]: current };
+    });
   };
 
-  const handleOrderSuccess = (orderNumber: number) => {
-    setSuccessMessage(`Order #${orderNumber} Successfully Submitted!`);
+  const handleOrderSuccess = (order: Order) => {
+    setSuccessMessage(order.orderNumber > 0
+      ? `Order ${formatOrderNumber(order.orderNumber)} Successfully Submitted!`
+      : 'Order Saved Offline - It Will Be Sent Once the Connection Is Back');
     setShowSuccess(true);
+    // Offline orders have no row to follow yet; they show up under "Your Orders" once synced
+    setTrackingPath(order.orderNumber > 0 ? getTrackingPath(order.id) : null);
+    // Offline orders have no number yet, so there is nothing to put on a receipt
+    if (order.orderNumber > 0) {
+      setReceiptOrder(order);
+    }
     setTimeout(() => {
       setShowSuccess(false);
-    }, 3000);
+    }, 6000);
   };
 
   return (
@@ -126,7 +153,14 @@ export default function Menu() {
         <div className="fixed bottom-6 right-6 z-50 animate-in slide-in-from-bottom-4 duration-300">
           <div className="tech-card corner-bracket p-5 bg-gradient-to-r from-primary/20 to-accent/20 border-2 border-primary/50 flex items-center gap-3 shadow-2xl max-w-xs">
             <CheckCircle className="h-6 w-6 text-primary neon-glow animate-pulse flex-shrink-0" />
-            <span className="text-sm font-bold text-primary neon-glow">{successMessage}</span>
+            <div>
+              <span className="text-sm font-bold text-primary neon-glow">{successMessage}</span>
+              {trackingPath && (
+                <Link to={trackingPath} className="block text-sm text-primary underline mt-1">
+                  Track your order
+                </Link>
+              )}
+            </div>
           </div>
         </div>
       )}
@@ -246,11 +280,15 @@ export default function Menu() {
             <div className="sticky top-24">
               <div className="tech-card corner-bracket edge-pulse p-0 overflow-hidden">
                 <OrderCart onOrderSuccess={handleOrderSuccess} />
+                <PlacedOrders />
               </div>
             </div>
           </div>
         </div>
 
+        {/* Receipt for the order just placed */}
+        <ReceiptDialog order={receiptOrder} onClose={() => setReceiptOrder(null)} />
+
         {/* Add to Order Dialog */}
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogContent className="sm:max-w-2xl tech-card corner-bracket border-2 border-primary/50 max-h-[90vh] overflow-y-auto">
@@ -263,7 +301,7 @@ export default function Menu() {
                   <h3 className="font-bold text-xl mb-2 cyber-text">{selectedItem.name}</h3>
                   <p className="text-muted-foreground text-sm mb-3">{selectedItem.description}</p>
                   <div className="flex items-baseline gap-2">
-                    <span className="text-2xl font-bold text-primary neon-glow">₱{selectedItem.price.toFixed(2)}</span>
+                    <span className="text-2xl font-bold text-primary neon-glow">{money(selectedItem.price)}</span>
                     <span className="text-xs text-muted-foreground">per item</span>
                   </div>
                 </div>
@@ -298,44 +336,54 @@ export default function Menu() {
                   </div>
                 </div>
 
-                {selectedItem.customization && selectedItem.customization.length > 0 && (
-                  <div className="space-y-3">
-                    <Label className="text-sm font-semibold">Customization Options</Label>
+                {modifierGroups.map((group) => {
+                  const groupSelection = selectedModifiers[group.id] || {};
+                  const selectedCount = Object.keys(groupSelection).length;
+                  return (
+                  <div key={group.id} className="space-y-3">
+                    <Label className="text-sm font-semibold">
+                      {group.name}
+                      <span className="text-xs text-muted-foreground font-normal ml-2">
+                        {group.minSelections > 0 ? 'Required' : 'Optional'}
+                        {group.maxSelections > 1 ? ` · up to ${group.maxSelections}` : ' · choose 1'}
+                      </span>
+                    </Label>
                     <div className="tech-card p-4 border border-primary/30 space-y-3">
-                      {selectedItem.customization.map((option) => {
-                        const optionObj = typeof option === 'string' ? { name: option, price: 0 } : option;
-                        const optionKey = optionObj.name;
-                        const currentQty = selectedCustomizations[optionKey] || 0;
+                      {group.options.map((option) => {
+                        const optionId = `modifier-${group.id}-${option.name}`;
+                        const currentQty = groupSelection[option.name] || 0;
                         const isSelected = currentQty > 0;
+                        const limitReached = group.maxSelections > 1 && selectedCount >= group.maxSelections;
                         return (
-                        <div key={optionKey} className="flex items-center justify-between w-full">
+                        <div key={option.name} className="flex items-center justify-between w-full">
                           <div className="flex items-center gap-3 flex-1">
                             <Checkbox
-                              id={`custom-${optionKey}`}
+                              id={optionId}
                               checked={isSelected}
+                              disabled={!isSelected && limitReached}
                               onCheckedChange={(checked) => {
-                                handleCustomizationChange(optionObj, checked ? 1 : 0);
+                                handleModifierChange(group, option.name, checked ? 1 : 0);
                               }}
                               className="border-primary/50"
                             />
                             <div>
-                              <Label htmlFor={`custom-${optionKey}`} className="text-sm font-normal cursor-pointer">
-                                {optionObj.name}
+                              <Label htmlFor={optionId} className="text-sm font-normal cursor-pointer">
+                                {option.name}
                               </Label>
-                              {optionObj.price > 0 && (
+                              {option.price > 0 && (
                                 <span className="text-xs text-primary font-semibold ml-2">
-                                  +₱{optionObj.price.toFixed(2)}
+                                  +{money(option.price)}
                                 </span>
                               )}
                             </div>
                           </div>
 
-                          {isSelected && (
+                          {isSelected && group.allowQuantity && (
                             <div className="flex items-center gap-2">
                               <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => handleCustomizationChange(optionObj, Math.max(0, currentQty - 1))}
+                                onClick={() => handleModifierChange(group, option.name, Math.max(0, currentQty - 1))}
                                 className="border-primary/50 hover:border-primary w-8 h-8 p-0"
                               >
                                 −
@@ -344,13 +392,13 @@ export default function Menu() {
                                 type="number"
                                 min="0"
                                 value={currentQty}
-                                onChange={(e) => handleCustomizationChange(optionObj, Math.max(0, parseInt(e.target.value) || 0))}
+                                onChange={(e) => handleModifierChange(group, option.name, Math.max(0, parseInt(e.target.value) || 0))}
                                 className="text-center border-primary/50 w-12 h-8"
                               />
                               <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => handleCustomizationChange(optionObj, currentQty + 1)}
+                                onClick={() => handleModifierChange(group, option.name, currentQty + 1)}
                                 className="border-primary/50 hover:border-primary w-8 h-8 p-0"
                               >
                                 +
@@ -362,28 +410,8 @@ export default function Menu() {
                       })}
                     </div>
                   </div>
-                )}
-
-                {selectedItem.flavors && selectedItem.flavors.length > 0 && (
-                  <div className="space-y-3">
-                    <Label className="text-sm font-semibold">Flavors</Label>
-                    <div className="tech-card p-4 border border-primary/30 space-y-3">
-                      {selectedItem.flavors.map((flavor) => (
-                        <div key={flavor} className="flex items-center space-x-2">
-                          <Checkbox
-                            id={flavor}
-                            checked={selectedFlavors.includes(flavor)}
-                            onCheckedChange={(checked) => 
-                              handleFlavorChange(flavor, !!checked)
-                            }
-                            className="border-primary/50"
-                          />
-                          <Label htmlFor={flavor} className="text-sm font-normal cursor-pointer">{flavor}</Label>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
+                  );
+                })}
 
                 <div className="space-y-2">
                   <Label htmlFor="notes" className="text-sm font-semibold">Special Instructions (Optional)</Label>
@@ -398,46 +426,31 @@ export default function Menu() {
                 </div>
 
                 <div className="pt-4 border-t border-primary/20 space-y-3">
-                  <div className="tech-card p-4 bg-primary/5 border border-primary/30 space-y-2">
-                    <div className="flex justify-between items-center text-sm">
-                      <span className="text-muted-foreground">Subtotal</span>
-                      <span className="font-semibold">₱{(selectedItem.price * quantity).toFixed(2)}</span>
-                    </div>
-                    {(() => {
-                      const addonsTotal = Object.entries(selectedCustomizations).reduce((total, [optionName, qty]) => {
-                        const option = selectedItem.customization?.find(opt => {
-                          const name = typeof opt === 'string' ? opt : opt.name;
-                          return name === optionName;
-                        });
-                        const price = typeof option === 'string' ? 0 : (option?.price || 0);
-                        return total + (price * qty);
-                      }, 0);
-                      
-                      return addonsTotal > 0 && (
+                  {selectedLine && (
+                    <div className="tech-card p-4 bg-primary/5 border border-primary/30 space-y-2">
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="text-muted-foreground">Subtotal</span>
+                        <span className="font-semibold">{money(selectedLine.baseTotal)}</span>
+                      </div>
+                      {selectedLine.modifiersTotal > 0 && (
                         <div className="flex justify-between items-center text-sm">
                           <span className="text-muted-foreground">Add-ons</span>
-                          <span className="font-semibold">+₱{addonsTotal.toFixed(2)}</span>
+                          <span className="font-semibold">+{money(selectedLine.modifiersTotal)}</span>
+                        </div>
+                      )}
+                      <div className="pt-2 border-t border-primary/30 flex justify-between items-center">
+                        <span className="font-bold text-primary">Total</span>
+                        <div className="text-2xl font-bold text-primary neon-glow">
+                          {money(selectedLine.lineTotal)}
                         </div>
-                      );
-                    })()}
-                    <div className="pt-2 border-t border-primary/30 flex justify-between items-center">
-                      <span className="font-bold text-primary">Total</span>
-                      <div className="text-2xl font-bold text-primary neon-glow">
-                        ₱{(() => {
-                          const baseTotal = selectedItem.price * quantity;
-                          const addonsTotal = Object.entries(selectedCustomizations).reduce((total, [optionName, qty]) => {
-                            const option = selectedItem.customization?.find(opt => {
-                              const name = typeof opt === 'string' ? opt : opt.name;
-                              return name === optionName;
-                            });
-                            const price = typeof option === 'string' ? 0 : (option?.price || 0);
-                            return total + (price * qty);
-                          }, 0);
-                          return (baseTotal + addonsTotal).toFixed(2);
-                        })()}
                       </div>
                     </div>
-                  </div>
+                  )}
+                  {addError && (
+                    <div className="tech-card p-3 border border-destructive/50 bg-destructive/10">
+                      <p className="text-sm font-semibold text-destructive">{addError}</p>
+                    </div>
+                  )}
                   <div className="flex gap-2">
                     <Button 
                       variant="outline" 
@@ -448,9 +461,10 @@ export default function Menu() {
                     </Button>
                     <Button 
                       onClick={handleConfirmAdd} 
+                      disabled={isAdding}
                       className="flex-1 gap-2 font-bold neon-glow-primary hover:shadow-lg transition-all duration-300"
                     >
-                      <Plus className="h-4 w-4" />
+                      {isAdding ? <Loader className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
                       Add to Order
                     </Button>
                   </div>
@@ -0,0 +1,236 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChefHat, CheckCircle, Volume2, VolumeX } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useLiveOrders } from '@/hooks/useLiveOrders';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import {
+  announceReady,
+  getAnnounceReady,
+  getNowServingOrders,
+  getServingSlides,
+  saveAnnounceReady,
+  speechSupported,
+} from '@/lib/nowServing';
+
+const CLOCK_TICK_MS = 30 * 1000;
+const SLIDE_MS = 8 * 1000;
+// How long a newly ready number stands out
+const HIGHLIGHT_MS = 20 * 1000;
+// Menu and promotions change rarely; refresh them in the background
+const MENU_REFRESH_MS = 60 * 60 * 1000;
+// Reload the page once a day in the quiet hour before opening, so a TV left on for days
+// stays fresh; a screen opened within the last hour is left alone
+const RELOAD_HOUR = 4;
+const MIN_UPTIME_MS = 60 * 60 * 1000;
+const MAX_PREPARING = 12;
+const MAX_READY = 8;
+
+/**
+ * Public wall TV: order numbers being prepared and ready for pickup, no sign-in and no
+ * interaction needed. Click anywhere to go fullscreen
+ */
+export default function NowServing() {
+  const { orders, menuItems, menuCategories, promotions, loadMenuItemsFromDatabase, loadCategoriesFromDatabase, loadPromotionsFromDatabase, taxConfig } = useOrderStore();
+  const [now, setNow] = useState(() => new Date());
+  const [slideIndex, setSlideIndex] = useState(0);
+  const [announce, setAnnounce] = useState(getAnnounceReady);
+  const [highlightedIds, setHighlightedIds] = useState<string[]>([]);
+  const openedAt = useRef(Date.now());
+  // Server time of the newest ready order when the orders first loaded; older ones are not news
+  const readyBaseline = useRef<number | null>(null);
+  // When each order on screen was last seen turning ready, by order id
+  const seenReadyAt = useRef(new Map<string, number>());
+  const highlightTimers = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  useLiveOrders();
+
+  const { preparing, ready } = getNowServingOrders(orders, now);
+  const slides = useMemo(
+    () => getServingSlides(promotions, menuItems, menuCategories, now, taxConfig.currencySymbol),
+    [promotions, menuItems, menuCategories, now, taxConfig.currencySymbol]
+  );
+  const idle = preparing.length === 0 && ready.length === 0;
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      loadMenuItemsFromDatabase();
+      loadCategoriesFromDatabase();
+      loadPromotionsFromDatabase();
+    }, MENU_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [loadMenuItemsFromDatabase, loadCategoriesFromDatabase, loadPromotionsFromDatabase]);
+
+  useEffect(() => {
+    if (now.getHours() === RELOAD_HOUR && now.getTime() - openedAt.current >= MIN_UPTIME_MS) {
+      window.location.reload();
+    }
+  }, [now]);
+
+  // Rotate the slides only while there are no orders to show
+  useEffect(() => {
+    if (!idle || slides.length <= 1) return;
+    const interval = setInterval(() => setSlideIndex(index => index + 1), SLIDE_MS);
+    return () => clearInterval(interval);
+  }, [idle, slides.length]);
+
+  // Highlight (and announce) orders that turn ready while the screen is up. Only the
+  // server's timestamps are compared, so the TV's own clock does not matter
+  if (readyBaseline.current === null && orders.length > 0) {
+    readyBaseline.current = Math.max(0, ...orders.map(order => order.readyAt?.getTime() ?? 0));
+  }
+  const baseline = readyBaseline.current ?? 0;
+  const readyKey = ready
+    .filter(order => order.readyAt)
+    .map(order => `${order.id}:${order.orderNumber}:${order.readyAt?.getTime()}`)
+    .join(',');
+  useEffect(() => {
+    const readyNow = (readyKey ? readyKey.split(',') : [])
+      .map(entry => entry.split(':'))
+      .map(([id, orderNumber, readyAt]) => ({ id, orderNumber: Number(orderNumber), readyAt: Number(readyAt) }));
+
+    // Orders that left the column (collected, or too old to show) are forgotten
+    const onScreen = new Set(readyNow.map(order => order.id));
+    seenReadyAt.current.forEach((_, id) => {
+      if (!onScreen.has(id)) seenReadyAt.current.delete(id);
+    });
+
+    const arrived = readyNow.filter(order =>
+      order.readyAt > baseline && seenReadyAt.current.get(order.id) !== order.readyAt
+    );
+    readyNow.forEach(order => seenReadyAt.current.set(order.id, order.readyAt));
+    if (arrived.length === 0) return;
+
+    const ids = arrived.map(order => order.id);
+    setHighlightedIds(current => [...current, ...ids]);
+    const timer = setTimeout(() => {
+      highlightTimers.current.delete(timer);
+      setHighlightedIds(current => current.filter(id => !ids.includes(id)));
+    }, HIGHLIGHT_MS);
+    highlightTimers.current.add(timer);
+    if (getAnnounceReady()) {
+      arrived.forEach(order => announceReady(order.orderNumber));
+    }
+  }, [readyKey, baseline]);
+
+  useEffect(() => {
+    const timers = highlightTimers.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  // Keep the TV from dimming or sleeping; the lock is dropped whenever the tab is hidden
+  useEffect(() => {
+    if (!('wakeLock' in navigator)) return;
+    let lock: WakeLockSentinel | null = null;
+    const requestLock = async () => {
+      if (document.visibilityState !== 'visible') return;
+      try {
+        lock = await navigator.wakeLock.request('screen');
+      } catch (error) {
+        console.error('Error keeping the screen awake:', error);
+      }
+    };
+    requestLock();
+    document.addEventListener('visibilitychange', requestLock);
+    return () => {
+      document.removeEventListener('visibilitychange', requestLock);
+      lock?.release();
+    };
+  }, []);
+
+  const enterFullscreen = () => {
+    if (!document.fullscreenElement) {
+      document.documentElement.requestFullscreen?.().catch(() => undefined);
+    }
+  };
+
+  const toggleAnnounce = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    saveAnnounceReady(!announce);
+    setAnnounce(!announce);
+  };
+
+  const slide = slides.length > 0 ? slides[slideIndex % slides.length] : null;
+
+  return (
+    <div
+      onClick={enterFullscreen}
+      className="relative h-screen overflow-hidden bg-background text-foreground grid-pattern flex flex-col cursor-none select-none"
+    >
+      <header className="flex items-center justify-between px-10 py-6 border-b-2 border-primary/30">
+        <h1 className="text-5xl font-bold text-primary neon-glow cyber-text">Now Serving</h1>
+        <div className="text-4xl font-semibold text-muted-foreground tabular-nums">
+          {now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </div>
+      </header>
+
+      {idle && slide ? (
+        <main key={slide.id} className="flex-1 flex flex-col items-center justify-center gap-8 p-10 animate-in fade-in duration-700">
+          {slide.image && (
+            <img src={slide.image} alt={slide.title} className="max-h-[55vh] rounded-2xl object-cover shadow-2xl" />
+          )}
+          <div className="text-center">
+            <div className="text-6xl font-bold text-primary neon-glow">{slide.title}</div>
+            <div className="text-4xl text-muted-foreground mt-4">{slide.subtitle}</div>
+          </div>
+        </main>
+      ) : (
+        <main className="flex-1 grid grid-cols-2 divide-x-2 divide-primary/30 min-h-0">
+          <section className="p-8 flex flex-col min-h-0">
+            <h2 className="flex items-center gap-3 text-4xl font-bold text-muted-foreground mb-8">
+              <ChefHat className="h-10 w-10" />
+              Preparing
+            </h2>
+            <div className="grid grid-cols-3 gap-6 content-start">
+              {preparing.slice(0, MAX_PREPARING).map(order => (
+                <div key={order.id} className="text-6xl font-bold text-center text-foreground/80 tabular-nums">
+                  {formatOrderNumber(order.orderNumber)}
+                </div>
+              ))}
+            </div>
+            {preparing.length > MAX_PREPARING && (
+              <div className="text-2xl text-muted-foreground mt-6">+ {preparing.length - MAX_PREPARING} more</div>
+            )}
+          </section>
+
+          <section className="p-8 flex flex-col min-h-0 bg-primary/5">
+            <h2 className="flex items-center gap-3 text-4xl font-bold text-success mb-8">
+              <CheckCircle className="h-10 w-10" />
+              Ready for Pickup
+            </h2>
+            <div className="grid grid-cols-2 gap-6 content-start">
+              {ready.slice(0, MAX_READY).map(order => (
+                <div
+                  key={order.id}
+                  className={`text-8xl font-bold text-center text-success neon-glow tabular-nums rounded-2xl py-2 transition-all ${
+                    highlightedIds.includes(order.id) ? 'animate-pulse ring-4 ring-success bg-success/10' : ''
+                  }`}
+                >
+                  {formatOrderNumber(order.orderNumber)}
+                </div>
+              ))}
+            </div>
+            {ready.length > MAX_READY && (
+              <div className="text-2xl text-muted-foreground mt-6">+ {ready.length - MAX_READY} more</div>
+            )}
+          </section>
+        </main>
+      )}
+
+      {speechSupported() && (
+        <button
+          type="button"
+          onClick={toggleAnnounce}
+          className="absolute bottom-4 right-4 p-2 rounded-full text-muted-foreground opacity-30 hover:opacity-100 cursor-pointer"
+          aria-label={announce ? 'Turn announcements off' : 'Turn announcements on'}
+        >
+          {announce ? <Volume2 className="h-6 w-6" /> : <VolumeX className="h-6 w-6" />}
+        </button>
+      )}
+    </div>
+  );
+}
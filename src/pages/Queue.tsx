@@ -1,13 +1,18 @@
 import { QueueDisplay } from '@/components/QueueDisplay';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Monitor, Clock, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Monitor, Clock, Users, Tv } from 'lucide-react';
 import { useOrderStore } from '@/store/orderStore';
+import { isCancelledStatus } from '@/lib/orderCancellation';
+import { formatMoney } from '@/lib/tax';
 
 export default function Queue() {
-  const { orders, getPendingOrders } = useOrderStore();
+  const { orders, getPendingOrders, taxConfig } = useOrderStore();
+  const money = (amount: number) => formatMoney(amount, taxConfig.currencySymbol);
   
   const pendingOrders = getPendingOrders();
+  const salesOrders = orders.filter(order => !isCancelledStatus(order.status));
   const completedToday = orders.filter(order => 
     order.status === 'completed' && 
     order.createdAt.toDateString() === new Date().toDateString()
@@ -26,10 +31,19 @@ export default function Queue() {
           <div className="lg:col-span-1">
             <Card className="h-full">
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Monitor className="h-5 w-5" />
-                  Queue Statistics
-                </CardTitle>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="flex items-center gap-2">
+                    <Monitor className="h-5 w-5" />
+                    Queue Statistics
+                  </CardTitle>
+                  {/* Public display for a wall TV; no sign-in needed there */}
+                  <Button asChild variant="outline" size="sm" className="gap-2">
+                    <a href="/now-serving" target="_blank" rel="noreferrer">
+                      <Tv className="h-4 w-4" />
+                      TV Display
+                    </a>
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent className="space-y-6">
                 <div className="grid grid-cols-2 gap-4">
@@ -69,18 +83,17 @@ export default function Queue() {
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Revenue Today:</span>
                       <span className="font-medium text-primary">
-                        ₱{orders
+                        {money(salesOrders
                           .filter(o => o.createdAt.toDateString() === new Date().toDateString())
-                          .reduce((sum, order) => sum + order.total, 0)
-                          .toFixed(2)}
+                          .reduce((sum, order) => sum + order.total, 0))}
                       </span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Average Order Value:</span>
                       <span className="font-medium">
-                        ₱{orders.length > 0 
-                          ? (orders.reduce((sum, order) => sum + order.total, 0) / orders.length).toFixed(2)
-                          : '0.00'}
+                        {money(salesOrders.length > 0
+                          ? salesOrders.reduce((sum, order) => sum + order.total, 0) / salesOrders.length
+                          : 0)}
                       </span>
                     </div>
                   </div>
@@ -0,0 +1,5 @@
+import { RunnerDashboard } from '@/components/RunnerDashboard';
+
+export default function Runner() {
+  return <RunnerDashboard />;
+}
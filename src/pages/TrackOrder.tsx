@@ -0,0 +1,191 @@
+import { Link, useParams } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, CheckCircle, ChefHat, Clock, Footprints, Loader, Package, UtensilsCrossed, XCircle } from 'lucide-react';
+import { useOrderStore } from '@/store/orderStore';
+import { useLiveOrders } from '@/hooks/useLiveOrders';
+import { useWaitEstimates } from '@/hooks/useWaitEstimates';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { isCancelledStatus } from '@/lib/orderCancellation';
+import { formatModifier } from '@/lib/modifiers';
+import {
+  ORDER_STATUS_LABELS,
+  getOrderTimeline,
+  getQueuePosition,
+} from '@/lib/orderTracking';
+import { ReadyAlertSettings } from '@/components/ReadyAlertSettings';
+import { ITEM_PREP_LABELS, getItemPrepStatus, getItemProgress } from '@/lib/itemPrep';
+import { Order } from '@/types';
+
+const statusIcons: Record<Order['status'], typeof Clock> = {
+  pending: Clock,
+  preparing: ChefHat,
+  ready: CheckCircle,
+  out_for_delivery: Footprints,
+  delivered: UtensilsCrossed,
+  completed: Package,
+  cancelled: XCircle,
+  voided: XCircle,
+};
+
+const statusDescriptions: Record<Order['status'], string> = {
+  pending: 'Your order is in the queue',
+  preparing: 'The kitchen is making your order',
+  ready: 'Your order is ready! Please collect it at the counter',
+  out_for_delivery: 'A runner is bringing your order to your PC',
+  delivered: 'Your order was delivered to your PC',
+  completed: 'Enjoy your meal!',
+  cancelled: 'This order was cancelled',
+  voided: 'This order was voided',
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Public page following one order live: status, place in the queue, wait and timeline
+ */
+export default function TrackOrder() {
+  const { orderId } = useParams<{ orderId: string }>();
+  const { orders, loadingOrders } = useOrderStore();
+  const { estimateMinutes } = useWaitEstimates();
+  useLiveOrders(true, orderId);
+
+  const order = orders.find(o => o.id === orderId);
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-background text-foreground grid-pattern flex items-center justify-center px-4">
+        <div className="tech-card corner-bracket p-8 text-center max-w-sm">
+          {loadingOrders ? (
+            <>
+              <Loader className="w-8 h-8 mx-auto mb-3 animate-spin text-primary neon-glow" />
+              <p className="text-muted-foreground">Loading your order...</p>
+            </>
+          ) : (
+            <>
+              <XCircle className="h-12 w-12 mx-auto mb-3 text-muted-foreground opacity-50" />
+              <p className="font-bold text-lg mb-2">Order not found</p>
+              <p className="text-sm text-muted-foreground mb-4">The link may be wrong or the order was removed.</p>
+              <Button asChild variant="outline" className="border-primary/50 hover:border-primary">
+                <Link to="/menu">Back to Menu</Link>
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const position = getQueuePosition(order, orders);
+  const waitMinutes = estimateMinutes(order);
+  const itemProgress = getItemProgress(order);
+  const timeline = getOrderTimeline(order);
+  const StatusIcon = statusIcons[order.status];
+  const cancelled = isCancelledStatus(order.status);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground grid-pattern relative">
+      <div className="absolute top-0 right-0 w-96 h-96 bg-primary/5 rounded-full blur-3xl -z-10" />
+
+      <div className="container mx-auto px-4 py-6 md:py-8 max-w-xl space-y-6">
+        <Button asChild variant="ghost" size="sm" className="gap-2 text-primary hover:text-primary neon-glow">
+          <Link to="/menu">
+            <ArrowLeft className="h-4 w-4" />
+            Menu
+          </Link>
+        </Button>
+
+        {/* Status */}
+        <div className="tech-card corner-bracket edge-pulse p-6 text-center space-y-3">
+          <p className="text-sm text-muted-foreground">Order</p>
+          <div className="text-5xl font-bold text-primary neon-glow cyber-text">{formatOrderNumber(order.orderNumber)}</div>
+          <Badge
+            variant="outline"
+            className={`gap-1 text-base px-3 py-1 ${cancelled ? 'border-destructive/50 text-destructive' : 'border-primary/50'}`}
+          >
+            <StatusIcon className="h-4 w-4" />
+            {ORDER_STATUS_LABELS[order.status]}
+          </Badge>
+          <p className="text-muted-foreground">{statusDescriptions[order.status]}</p>
+          {order.cancelReason && <p className="text-sm text-muted-foreground">Reason: {order.cancelReason}</p>}
+
+          {position !== null && (
+            <div className="grid grid-cols-2 gap-4 pt-3 border-t border-primary/20">
+              <div>
+                <div className="text-3xl font-bold text-primary">{position}</div>
+                <div className="text-xs text-muted-foreground">
+                  {position === 1 ? 'Next in the kitchen' : `${position - 1} order${position > 2 ? 's' : ''} ahead`}
+                </div>
+              </div>
+              <div>
+                <div className="text-3xl font-bold text-primary">~{waitMinutes}</div>
+                <div className="text-xs text-muted-foreground">minutes</div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {position !== null && (
+          <div className="tech-card corner-bracket p-4">
+            <ReadyAlertSettings />
+          </div>
+        )}
+
+        {/* Timeline */}
+        <div className="tech-card corner-bracket p-6">
+          <h2 className="font-bold text-primary neon-glow mb-4">Progress</h2>
+          <ol className="space-y-4">
+            {timeline.map(step => (
+              <li key={step.status} className="flex items-center gap-3">
+                <div
+                  className={`h-3 w-3 rounded-full flex-shrink-0 ${
+                    step.reached
+                      ? isCancelledStatus(step.status) ? 'bg-destructive' : 'bg-primary neon-glow-primary'
+                      : 'border border-muted-foreground/50'
+                  }`}
+                />
+                <span className={`flex-1 ${step.reached ? 'font-semibold' : 'text-muted-foreground'}`}>{step.label}</span>
+                {step.at && step.reached && (
+                  <span className="text-sm text-muted-foreground">{formatTime(step.at)}</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {/* Items */}
+        <div className="tech-card corner-bracket p-6 space-y-2">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="font-bold text-primary neon-glow">Items</h2>
+            {position !== null && (
+              <span className="text-xs text-muted-foreground">
+                {itemProgress.done} of {itemProgress.total} done
+              </span>
+            )}
+          </div>
+          {order.items.map(item => {
+            const prepStatus = getItemPrepStatus(item, order);
+            return (
+              <div key={item.id} className="text-sm flex justify-between gap-2">
+                <div>
+                  <span className={`font-semibold ${position !== null && prepStatus === 'done' ? 'text-success' : ''}`}>
+                    {item.quantity}x {item.menuItem.name}
+                  </span>
+                  {item.modifiers.length > 0 && (
+                    <span className="text-muted-foreground ml-2">
+                      ({item.modifiers.map(m => formatModifier(m, false)).join(', ')})
+                    </span>
+                  )}
+                </div>
+                {position !== null && (
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">{ITEM_PREP_LABELS[prepStatus]}</span>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-muted-foreground pt-2">Updates automatically. {order.terminal}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
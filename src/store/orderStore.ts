@@ -1,34 +1,81 @@
-import { create } from 'zustand';
-import { Order, OrderItem, MenuItem, MenuCategory } from '@/types';
+import { create, StoreApi } from 'zustand';
+import { Order, OrderItem, OrderItemModifier, ItemPrepStatus, MenuItem, MenuCategory, CancellationStatus, DeliveryAction, PaymentInput, BillPaymentInput, Promotion, TaxConfig, TaxExemption } from '@/types';
 import { supabase } from '@/lib/supabase';
+import { getCartSessionId, reserveStock, releaseReservations } from '@/lib/stockReservations';
+import { toStockError } from '@/lib/inventoryStock';
+import {
+  OutboxMutation,
+  OutboxMutationType,
+  enqueueMutation,
+  getPendingMutations,
+  isNetworkFailure,
+  rebaseMutations,
+  removeMutation,
+} from '@/lib/orderOutbox';
+import { toast } from '@/hooks/use-toast';
+import { formatOrderNumber } from '@/lib/orderNumbers';
+import { getOrderOwnerToken, isCancelledStatus } from '@/lib/orderCancellation';
+import { fromModifierRows, toModifierRows } from '@/lib/modifiers';
+import { PricingBreakdown, priceOrder } from '@/lib/pricing';
+import { fromPaymentRow } from '@/lib/payments';
+import { getStatusActor, getStatusDevice } from '@/lib/orderEvents';
+import { getDeviceTokenFromStorage } from '@/lib/deviceTokens';
+import {
+  AppliedPromotion,
+  applyPromotions,
+  fromPromotionRow,
+  getPromotionDeviceId,
+  getPromotionProblem,
+  normalizePromoCode,
+  toPricingDiscounts,
+} from '@/lib/promotions';
+import { DEFAULT_TAX_CONFIG, TAX_CONFIG_KEY, getTaxPricingOptions, parseTaxConfig } from '@/lib/tax';
 
 interface OrderStore {
   orders: Order[];
   currentOrder: OrderItem[];
-  orderNumber: number;
+  unreservedItemIds: string[]; // cart lines added offline whose stock is not held yet
   menuItems: MenuItem[];
   menuCategories: MenuCategory[];
   isAdminAuthenticated: boolean;
   tempOrderId?: string;
   loadingOrders: boolean;
-  cartItemQuantityTracker: Record<string, { menuItemId: string; quantity: number }>;
-  
-  // Private helpers
-  _reduceProductQuantity: (menuItemId: string, quantity: number) => Promise<void>;
-  _restoreProductQuantity: (menuItemId: string, quantity: number) => Promise<void>;
+  pendingSyncOrderIds: string[]; // orders with changes still waiting in the outbox
+  isSyncing: boolean;
+  promotions: Promotion[]; // active promotions the cart can use
+  promoUsage: Record<string, number>; // promotion id -> times used on this device
+  promoCode: string;
+  taxConfig: TaxConfig;
+  taxExemption: TaxExemption | null; // senior citizen / PWD claim on the cart
   
   // Order Actions
-  addToOrder: (item: MenuItem, quantity: number, customizations: string[], notes?: string, flavors?: string[]) => void;
+  addToOrder: (item: MenuItem, quantity: number, modifiers: OrderItemModifier[], notes?: string) => Promise<void>;
   removeFromOrder: (itemId: string) => void;
-  updateOrderItem: (itemId: string, quantity: number, customizations: string[], notes?: string, flavors?: string[]) => void;
+  updateOrderItem: (itemId: string, quantity: number, modifiers: OrderItemModifier[], notes?: string) => Promise<void>;
   clearCurrentOrder: () => void;
-  submitOrder: (customerName?: string, terminal?: string) => Promise<Order>;
+  reconcileReservations: () => Promise<void>;
+  submitOrder: (customerName?: string, terminal?: string, pcId?: number) => Promise<Order>;
   updateOrder: (order: Order) => void;
   updateOrderStatus: (orderId: string, status: Order['status']) => Promise<void>;
   completeOrder: (orderId: string) => void;
   deleteOrder: (orderId: string) => Promise<void>;
+  cancelOrder: (orderId: string, status: CancellationStatus, reason: string, performedBy: string) => Promise<Order>;
+  updateDelivery: (orderId: string, action: DeliveryAction, runner: string) => Promise<Order>;
+  updateStationTicket: (orderId: string, stationId: string, done: boolean, stationIds: string[], itemIds: string[]) => Promise<Order>;
+  updateItemStatus: (orderId: string, itemId: string, status: ItemPrepStatus, stationId?: string) => Promise<Order>;
+  recordPayment: (orderId: string, payment: PaymentInput) => Promise<Order>;
+  recordBillPayment: (orderIds: string[], payment: BillPaymentInput) => Promise<Order[]>;
+  syncOutbox: () => Promise<void>;
   loadOrdersFromDatabase: () => Promise<void>;
+  loadLiveOrders: () => Promise<void>;
+  loadOrdersById: (orderIds: string[]) => Promise<void>;
   loadMenuItemsFromDatabase: () => Promise<void>;
+  loadPromotionsFromDatabase: () => Promise<void>;
+  applyPromoCode: (code: string) => string | null;
+  clearPromoCode: () => void;
+  loadTaxConfigFromDatabase: () => Promise<void>;
+  setTaxConfig: (config: TaxConfig) => void;
+  setTaxExemption: (exemption: TaxExemption | null) => void;
   
   // Menu Actions
   addMenuItem: (item: Omit<MenuItem, 'id'>) => void;
@@ -45,235 +92,484 @@ interface OrderStore {
   
   // Getters
   getCurrentOrderTotal: () => number;
+  getAppliedPromotions: () => AppliedPromotion[];
+  getCurrentOrderPricing: () => PricingBreakdown;
   getOrdersByStatus: (status: Order['status']) => Order[];
   getPendingOrders: () => Order[];
 }
 
-export const useOrderStore = create<OrderStore>((set, get) => ({
-  orders: [],
-  currentOrder: [],
-  orderNumber: 1,
-  menuItems: [],
-  menuCategories: [],
-  isAdminAuthenticated: false,
-  tempOrderId: undefined,
-  loadingOrders: false,
-  cartItemQuantityTracker: {},
+// Convert an `orders` row (with nested `order_items` and `order_payments`) to the Order type
+const mapDbOrder = (dbOrder: any): Order => {
+  const items: OrderItem[] = (dbOrder.order_items || []).map((item: any) => ({
+    id: item.id,
+    name: item.menu_item_name,
+    menuItem: {
+      id: item.menu_item_id,
+      name: item.menu_item_name,
+      description: '',
+      price: parseFloat(item.price),
+      category: item.menu_item_category || '',
+      available: true,
+    } as MenuItem,
+    quantity: item.quantity,
+    modifiers: fromModifierRows(item),
+    notes: item.notes,
+    prepStatus: item.prep_status || 'queued',
+  }));
 
-  // Helper function to reduce product quantity in database
-  _reduceProductQuantity: async (menuItemId: string, quantity: number) => {
-    try {
-      const { data: items, error: fetchError } = await supabase
-        .from('menu_items')
-        .select('quantity')
-        .eq('id', menuItemId)
-        .single();
+  return {
+    id: dbOrder.id,
+    orderNumber: dbOrder.order_number,
+    businessDate: dbOrder.business_date,
+    items,
+    total: parseFloat(dbOrder.total),
+    discountTotal: parseFloat(dbOrder.discount_total ?? 0),
+    serviceCharge: parseFloat(dbOrder.service_charge ?? 0),
+    vatRate: parseFloat(dbOrder.vat_rate ?? 0),
+    taxInclusive: dbOrder.tax_inclusive ?? true,
+    vatableSales: parseFloat(dbOrder.vatable_sales ?? 0),
+    vatAmount: parseFloat(dbOrder.vat_amount ?? 0),
+    vatExemptSales: parseFloat(dbOrder.vat_exempt_sales ?? 0),
+    exemptionDiscount: parseFloat(dbOrder.exemption_discount ?? 0),
+    // Only signed-in staff can read the claim; everyone else gets null
+    taxExemption: dbOrder.order_tax_exemptions ? {
+      type: dbOrder.order_tax_exemptions.type,
+      idNumber: dbOrder.order_tax_exemptions.id_number,
+      name: dbOrder.order_tax_exemptions.name,
+      diners: dbOrder.order_tax_exemptions.diners,
+      exemptDiners: dbOrder.order_tax_exemptions.exempt_diners,
+    } : undefined,
+    status: dbOrder.status,
+    customerName: dbOrder.customer_name,
+    createdAt: new Date(dbOrder.created_at),
+    preparingAt: dbOrder.preparing_at ? new Date(dbOrder.preparing_at) : undefined,
+    readyAt: dbOrder.ready_at ? new Date(dbOrder.ready_at) : undefined,
+    deliveryClaimedBy: dbOrder.delivery_claimed_by || undefined,
+    outForDeliveryAt: dbOrder.out_for_delivery_at ? new Date(dbOrder.out_for_delivery_at) : undefined,
+    deliveredBy: dbOrder.delivered_by || undefined,
+    deliveredAt: dbOrder.delivered_at ? new Date(dbOrder.delivered_at) : undefined,
+    completedAt: dbOrder.completed_at ? new Date(dbOrder.completed_at) : undefined,
+    stationsDone: Object.fromEntries(
+      Object.entries(dbOrder.stations_done || {}).map(([stationId, at]) => [stationId, new Date(at as string)])
+    ),
+    terminal: dbOrder.terminal,
+    pcId: dbOrder.pc_id ?? undefined,
+    cancelReason: dbOrder.cancel_reason || undefined,
+    cancelledBy: dbOrder.cancelled_by || undefined,
+    cancelledAt: dbOrder.cancelled_at ? new Date(dbOrder.cancelled_at) : undefined,
+    stockRestored: dbOrder.stock_restored || false,
+    clientRequestId: dbOrder.client_request_id || undefined,
+    serverVersion: dbOrder.updated_at,
+    payments: (dbOrder.order_payments || []).map(fromPaymentRow),
+    amountPaid: parseFloat(dbOrder.amount_paid ?? 0),
+    paymentStatus: dbOrder.payment_status || 'unpaid',
+  } as Order;
+};
 
-      if (fetchError) {
-        console.warn('Could not fetch item quantity:', fetchError);
-        return;
-      }
+type SetOrderState = StoreApi<OrderStore>['setState'];
 
-      const currentQuantity = items?.quantity || 0;
-      const newQuantity = Math.max(0, currentQuantity - quantity);
+// Status order used to settle conflicts: the change that moved the order further wins
+const STATUS_RANK: Record<Order['status'], number> = {
+  pending: 0,
+  preparing: 1,
+  ready: 2,
+  out_for_delivery: 3,
+  delivered: 4,
+  completed: 5,
+  cancelled: 6,
+  voided: 6,
+};
 
-      await supabase
-        .from('menu_items')
-        .update({ quantity: newQuantity })
-        .eq('id', menuItemId);
+// Re-read which orders still have queued changes
+const refreshPendingSync = async (set: SetOrderState) => {
+  const mutations = await getPendingMutations();
+  set({ pendingSyncOrderIds: [...new Set(mutations.map(m => m.orderId))] });
+};
 
-      console.log(`Reduced product ${menuItemId} quantity by ${quantity} (now: ${newQuantity})`);
-    } catch (error) {
-      console.error('Error reducing product quantity:', error);
-    }
-  },
+// Put a mutation in the outbox and flag its order as pending sync
+const queueMutation = async (
+  set: SetOrderState,
+  type: OutboxMutationType,
+  orderId: string,
+  payload: Record<string, unknown>,
+  baseVersion?: string,
+  idempotencyKey: string = crypto.randomUUID()
+) => {
+  await enqueueMutation({
+    idempotencyKey,
+    type,
+    orderId,
+    payload,
+    baseVersion,
+    createdAt: Date.now(),
+  });
+  await refreshPendingSync(set);
+};
 
-  // Helper function to restore product quantity in database
-  _restoreProductQuantity: async (menuItemId: string, quantity: number) => {
-    try {
-      const { data: items, error: fetchError } = await supabase
-        .from('menu_items')
-        .select('quantity')
-        .eq('id', menuItemId)
-        .single();
+const setServerVersion = (set: SetOrderState, orderId: string, serverVersion: string) => {
+  set(state => ({
+    orders: state.orders.map(o => o.id === orderId ? { ...o, serverVersion } : o)
+  }));
+};
 
-      if (fetchError) {
-        console.warn('Could not fetch item quantity:', fetchError);
-        return;
-      }
+// Status changes go through update_order_status; orders cannot be updated directly by staff devices.
+// Changes queued before that still carry completed_at, which the database now stamps itself.
+// The request id lets the server recognise a change it already applied when it is sent again.
+const toStatusParams = (orderId: string, payload: Record<string, unknown>, requestId: string, baseVersion?: string) => ({
+  p_order_id: orderId,
+  p_status: payload.status,
+  p_base_version: baseVersion ?? null,
+  p_actor: payload.status_actor ?? null,
+  p_device: payload.status_device ?? null,
+  p_changed_at: payload.status_changed_at ?? null,
+  p_request_id: requestId,
+});
 
-      const currentQuantity = items?.quantity || 0;
-      const newQuantity = currentQuantity + quantity;
+interface ReplayResult {
+  kind: 'applied' | 'conflict' | 'offline';
+  order?: Order; // server copy to show instead of the local one
+  removed?: boolean; // the order no longer exists
+  message?: string;
+}
 
-      await supabase
-        .from('menu_items')
-        .update({ quantity: newQuantity })
-        .eq('id', menuItemId);
+const ORDER_WITH_ITEMS = '*, order_items (*, order_item_modifiers (*)), order_payments (*), order_tax_exemptions (*)';
 
-      console.log(`Restored product ${menuItemId} quantity by ${quantity} (now: ${newQuantity})`);
-    } catch (error) {
-      console.error('Error restoring product quantity:', error);
+// The server copy of one order: null when it no longer exists, undefined when it could not be read
+const fetchServerOrder = async (orderId: string): Promise<{ offline: boolean; order?: Order | null }> => {
+  const { data, error, status } = await supabase
+    .from('orders')
+    .select(ORDER_WITH_ITEMS)
+    .eq('id', orderId)
+    .maybeSingle();
+  if (isNetworkFailure(status)) return { offline: true };
+  if (error) {
+    console.error('Error reading the server copy of an order:', error);
+    return { offline: false };
+  }
+  return { offline: false, order: data ? mapDbOrder(data) : null };
+};
+
+// The server refused a change (RLS, a check constraint, a trigger). Retrying cannot help,
+// so the change is dropped and the server copy shown instead.
+const rejectedMutation = async (mutation: OutboxMutation, error: { message?: string }): Promise<ReplayResult> => {
+  const { offline, order } = await fetchServerOrder(mutation.orderId);
+  if (offline) return { kind: 'offline' };
+  const message = `An offline change was rejected by the server and dropped: ${error.message || 'unknown error'}`;
+  if (order === null) return { kind: 'conflict', removed: true, message };
+  return { kind: 'conflict', order, message };
+};
+
+// Put the server copy of an order back after a change to it was rejected
+const restoreServerOrder = async (set: SetOrderState, orderId: string) => {
+  const { order } = await fetchServerOrder(orderId);
+  if (order === undefined) return;
+  set(state => ({
+    orders: order === null
+      ? state.orders.filter(o => o.id !== orderId)
+      : state.orders.some(o => o.id === orderId)
+        ? state.orders.map(o => o.id === orderId ? order : o)
+        : [order, ...state.orders]
+  }));
+};
+
+// Orders the live screens follow besides today's: still being made, handed over or paid for
+const OPEN_STATUSES: Order['status'][] = ['pending', 'preparing', 'ready', 'out_for_delivery', 'delivered'];
+
+// Put fresh server copies into the store and drop the orders that no longer exist,
+// leaving the rest of the loaded history and any unsynced local changes alone
+const mergeServerOrders = (set: SetOrderState, serverOrders: Order[], goneIds: string[] = []) => {
+  set(state => {
+    const fresh = new Map(
+      serverOrders
+        .filter(order => !state.pendingSyncOrderIds.includes(order.id))
+        .map(order => [order.id, order])
+    );
+    const kept = state.orders
+      .filter(order => !goneIds.includes(order.id) || state.pendingSyncOrderIds.includes(order.id))
+      .map(order => fresh.get(order.id) ?? order);
+    const added = [...fresh.values()].filter(order => !state.orders.some(o => o.id === order.id));
+    return {
+      orders: [...added, ...kept].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    };
+  });
+};
+
+// Apply one queued mutation against the database
+const replayMutation = async (mutation: OutboxMutation): Promise<ReplayResult> => {
+  if (mutation.type === 'submit_order') {
+    // Idempotent on p_client_request_id, so a retry after a lost response returns the same order.
+    // Submissions queued before order numbers moved to the database still carry p_order_number.
+    const { p_order_number, ...params } = mutation.payload;
+    const { data, error, status } = await supabase.rpc('submit_order', params);
+    if (isNetworkFailure(status)) return { kind: 'offline' };
+    if (error || !data) {
+      const stockError = toStockError(error, 'The order was rejected by the server');
+      return { kind: 'conflict', removed: true, message: `Offline order could not be submitted: ${stockError.message}` };
     }
-  },
+    return { kind: 'applied', order: mapDbOrder(data) };
+  }
+
+  if (mutation.type === 'update_status') {
+    // Only applies if nobody else changed the order since it was edited offline
+    const { data, error, status } = await supabase.rpc(
+      'update_order_status',
+      toStatusParams(mutation.orderId, mutation.payload, mutation.idempotencyKey, mutation.baseVersion)
+    );
+    if (isNetworkFailure(status)) return { kind: 'offline' };
+    if (error) return rejectedMutation(mutation, error);
+    if (data) return { kind: 'applied', order: mapDbOrder(data) };
+
+    const { offline, order: serverOrder } = await fetchServerOrder(mutation.orderId);
+    if (offline) return { kind: 'offline' };
+    if (serverOrder === null) {
+      return { kind: 'conflict', removed: true, message: 'An order changed offline was deleted on another device.' };
+    }
+    if (!serverOrder) {
+      return { kind: 'conflict', message: 'An offline status change could not be checked against the server and was dropped.' };
+    }
+
+    const localStatus = mutation.payload.status as Order['status'];
+    if (STATUS_RANK[localStatus] > STATUS_RANK[serverOrder.status]) {
+      // The offline change moves the order further along, so it still applies on top
+      const { data: updated, error: retryError, status: retryStatus } = await supabase.rpc(
+        'update_order_status',
+        toStatusParams(mutation.orderId, mutation.payload, mutation.idempotencyKey)
+      );
+      if (isNetworkFailure(retryStatus)) return { kind: 'offline' };
+      if (retryError || !updated) return rejectedMutation(mutation, retryError ?? {});
+      return { kind: 'applied', order: mapDbOrder(updated) };
+    }
+
+    return {
+      kind: 'conflict',
+      order: serverOrder,
+      message: `Order ${formatOrderNumber(serverOrder.orderNumber)} was already marked ${serverOrder.status} on another device; the offline change to ${localStatus} was dropped.`,
+    };
+  }
+
+  // delete_order
+  let query = supabase.from('orders').delete().eq('id', mutation.orderId);
+  if (mutation.baseVersion) query = query.eq('updated_at', mutation.baseVersion);
+  const { data, error, status } = await query.select('id');
+  if (isNetworkFailure(status)) return { kind: 'offline' };
+  if (error) return rejectedMutation(mutation, error);
+  if (data && data.length > 0) return { kind: 'applied' };
+
+  const { offline, order: serverOrder } = await fetchServerOrder(mutation.orderId);
+  if (offline) return { kind: 'offline' };
+  if (serverOrder === null) return { kind: 'applied' }; // already gone
+  if (!serverOrder) {
+    return { kind: 'conflict', message: 'An offline delete could not be checked against the server and was dropped.' };
+  }
+  return {
+    kind: 'conflict',
+    order: serverOrder,
+    message: `Order ${formatOrderNumber(serverOrder.orderNumber)} changed on another device, so it was not deleted.`,
+  };
+};
+
+export const useOrderStore = create<OrderStore>((set, get) => ({
+  orders: [],
+  currentOrder: [],
+  unreservedItemIds: [],
+  menuItems: [],
+  menuCategories: [],
+  isAdminAuthenticated: false,
+  tempOrderId: undefined,
+  loadingOrders: false,
+  pendingSyncOrderIds: [],
+  isSyncing: false,
+  promotions: [],
+  promoUsage: {},
+  promoCode: '',
+  taxConfig: DEFAULT_TAX_CONFIG,
+  taxExemption: null,
 
   // Order Actions
-  addToOrder: (item, quantity, customizations, notes, flavors) => {
+  addToOrder: async (item, quantity, modifiers, notes) => {
     const newItem: OrderItem = {
       id: `${item.id}-${Date.now()}`,
       name: item.name,
       menuItem: item,
       quantity,
-      customizations,
-      flavors,
+      modifiers,
       notes
     };
-    
+
+    // The item lands in the cart right away, so the cart also works offline; a
+    // shortage takes it back out, and a line added offline is held once we reconnect
     set(state => ({
-      currentOrder: [...state.currentOrder, newItem],
-      cartItemQuantityTracker: {
-        ...state.cartItemQuantityTracker,
-        [newItem.id]: { menuItemId: item.id, quantity }
-      }
+      currentOrder: [...state.currentOrder, newItem]
     }));
 
-    // Reduce product quantity in database
-    get()._reduceProductQuantity(item.id, quantity);
+    try {
+      const reserved = await reserveStock(newItem.id, item.id, quantity);
+      if (!reserved) {
+        set(state => ({ unreservedItemIds: [...state.unreservedItemIds, newItem.id] }));
+      }
+    } catch (error) {
+      set(state => ({
+        currentOrder: state.currentOrder.filter(line => line.id !== newItem.id)
+      }));
+      throw error;
+    }
     
     // Log item addition
     console.log('Item added to order:', { item: item.name, quantity });
   },
 
   removeFromOrder: (itemId) => {
-    const state = get();
-    const tracker = state.cartItemQuantityTracker[itemId];
-    
-    // Restore product quantity if it was tracked
-    if (tracker) {
-      get()._restoreProductQuantity(tracker.menuItemId, tracker.quantity);
-    }
+    releaseReservations(itemId);
 
-    set(state => {
-      const newTracker = { ...state.cartItemQuantityTracker };
-      delete newTracker[itemId];
-      return {
-        currentOrder: state.currentOrder.filter(item => item.id !== itemId),
-        cartItemQuantityTracker: newTracker
-      };
-    });
+    set(state => ({
+      currentOrder: state.currentOrder.filter(item => item.id !== itemId),
+      unreservedItemIds: state.unreservedItemIds.filter(id => id !== itemId),
+    }));
   },
 
-  updateOrderItem: (itemId, quantity, customizations, notes, flavors) => {
-    const state = get();
-    const currentItem = state.currentOrder.find(item => item.id === itemId);
-    const tracker = state.cartItemQuantityTracker[itemId];
-
-    if (currentItem && tracker) {
-      const quantityDifference = quantity - currentItem.quantity;
+  updateOrderItem: async (itemId, quantity, modifiers, notes) => {
+    const currentItem = get().currentOrder.find(item => item.id === itemId);
 
-      // If quantity increased, reduce more inventory
-      if (quantityDifference > 0) {
-        get()._reduceProductQuantity(tracker.menuItemId, quantityDifference);
-        tracker.quantity = quantity;
-      }
-      // If quantity decreased, restore some inventory
-      else if (quantityDifference < 0) {
-        get()._restoreProductQuantity(tracker.menuItemId, Math.abs(quantityDifference));
-        tracker.quantity = quantity;
+    // Resize the hold first so the cart never shows more than is reserved
+    if (currentItem && currentItem.quantity !== quantity) {
+      const reserved = await reserveStock(itemId, currentItem.menuItem.id, quantity);
+      if (!reserved && !get().unreservedItemIds.includes(itemId)) {
+        set(state => ({ unreservedItemIds: [...state.unreservedItemIds, itemId] }));
       }
     }
 
     set(state => ({
       currentOrder: state.currentOrder.map(item => 
         item.id === itemId 
-          ? { ...item, quantity, customizations, notes, flavors }
+          ? { ...item, quantity, modifiers, notes }
           : item
-      ),
-      cartItemQuantityTracker: {
-        ...state.cartItemQuantityTracker,
-        [itemId]: tracker
-      }
+      )
     }));
   },
 
   clearCurrentOrder: () => {
-    const state = get();
-    
-    // Restore all quantities
-    Object.values(state.cartItemQuantityTracker).forEach((tracker) => {
-      get()._restoreProductQuantity(tracker.menuItemId, tracker.quantity);
-    });
+    releaseReservations();
+    set({ currentOrder: [], unreservedItemIds: [], promoCode: '', taxExemption: null });
+  },
 
-    set({ 
-      currentOrder: [],
-      cartItemQuantityTracker: {}
-    });
+  reconcileReservations: async () => {
+    // Hold the stock for lines added while offline; a line that can no longer be
+    // held stays in the cart, and submit_order reports the shortage
+    for (const itemId of get().unreservedItemIds) {
+      const item = get().currentOrder.find(line => line.id === itemId);
+      try {
+        if (item && !(await reserveStock(item.id, item.menuItem.id, item.quantity))) {
+          return; // still offline
+        }
+      } catch (error) {
+        toast({
+          title: 'Not enough stock',
+          description: error instanceof Error ? error.message : `Could not hold ${item?.menuItem.name}`,
+          variant: 'destructive',
+        });
+      }
+      set(state => ({ unreservedItemIds: state.unreservedItemIds.filter(id => id !== itemId) }));
+    }
   },
 
-  submitOrder: async (customerName, terminal = 'Terminal 1') => {
+  submitOrder: async (customerName, terminal = 'Terminal 1', pcId) => {
     const state = get();
-    const total = state.getCurrentOrderTotal();
-    
-    const newOrder: Order = {
-      id: `order-${Date.now()}`,
-      orderNumber: state.orderNumber,
-      items: state.currentOrder,
-      total,
-      status: 'pending',
-      customerName,
-      createdAt: new Date(),
-      terminal
-    };
-
-    // Save to database
-    try {
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert([
-          {
-            order_number: newOrder.orderNumber,
-            terminal: newOrder.terminal,
-            customer_name: newOrder.customerName,
-            total: newOrder.total,
-            status: newOrder.status,
-            created_at: newOrder.createdAt,
-          },
-        ])
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Insert order items
-      if (orderData && newOrder.items.length > 0) {
-        const orderItems = newOrder.items.map((item) => ({
-          order_id: orderData.id,
-          menu_item_id: item.menuItem.id,
-          menu_item_name: item.menuItem.name,
-          price: item.menuItem.price,
-          quantity: item.quantity,
-          customizations: item.customizations,
-          notes: item.notes,
-        }));
+    if (state.currentOrder.length === 0) {
+      throw new Error('Cannot submit an empty order');
+    }
 
-        const { error: itemsError } = await supabase
-          .from('order_items')
-          .insert(orderItems);
+    const clientRequestId = crypto.randomUUID();
+    const pricing = state.getCurrentOrderPricing();
+    const appliedPromotions = state.getAppliedPromotions();
+    const params = {
+      p_terminal: terminal,
+      p_pc_id: pcId ?? null,
+      p_customer_name: customerName ?? null,
+      p_total: pricing.total,
+      p_items: state.currentOrder.map((item) => ({
+        cart_item_id: item.id,
+        menu_item_id: item.menuItem.id,
+        menu_item_name: item.menuItem.name,
+        quantity: item.quantity,
+        modifiers: toModifierRows(item.modifiers),
+        notes: item.notes,
+      })),
+      p_session_id: getCartSessionId(),
+      p_client_request_id: clientRequestId,
+      p_owner_token: getOrderOwnerToken(),
+      p_device_token: getDeviceTokenFromStorage(),
+      p_promotions: appliedPromotions.map(({ promotion, amount }) => ({ promotion_id: promotion.id, amount })),
+      p_device_id: getPromotionDeviceId(),
+      // The server prices the order itself and rejects it when its total differs from p_total
+      p_tax: {
+        exemption: state.taxExemption && {
+          type: state.taxExemption.type,
+          id_number: state.taxExemption.idNumber.trim(),
+          name: state.taxExemption.name.trim(),
+          diners: state.taxExemption.diners,
+          exempt_diners: state.taxExemption.exemptDiners,
+        },
+      },
+    };
 
-        if (itemsError) throw itemsError;
-      }
+    // The order, its items and the stock decrements are written by one
+    // database function, so either all of it lands or none of it does.
+    const { data, error, status } = await supabase.rpc('submit_order', params);
 
-      console.log('Order saved to database:', orderData.id);
-    } catch (error) {
-      console.error('Error saving order to database:', error);
-      // Continue with local state even if database save fails
+    let newOrder: Order;
+    if (isNetworkFailure(status)) {
+      // Database unreachable: keep the order locally and submit it once we are back online
+      newOrder = {
+        id: `local-${clientRequestId}`,
+        orderNumber: 0, // issued by the database once the order is synced
+        items: state.currentOrder,
+        total: params.p_total,
+        discountTotal: pricing.discountTotal,
+        serviceCharge: pricing.serviceCharge,
+        vatRate: state.taxConfig.vatRate,
+        taxInclusive: state.taxConfig.pricesIncludeVat,
+        vatableSales: pricing.vatableSales,
+        vatAmount: pricing.tax,
+        vatExemptSales: pricing.vatExemptSales,
+        exemptionDiscount: pricing.exemptionDiscount,
+        taxExemption: state.taxExemption ?? undefined,
+        status: 'pending',
+        customerName,
+        createdAt: new Date(),
+        stationsDone: {},
+        terminal,
+        pcId,
+        clientRequestId,
+        payments: [],
+        amountPaid: 0,
+        paymentStatus: 'unpaid',
+      };
+      await queueMutation(set, 'submit_order', newOrder.id, params);
+      console.warn('Database unreachable, order queued for sync:', newOrder.id);
+    } else if (error || !data) {
+      console.error('Error submitting order:', error);
+      throw toStockError(error, 'Failed to submit order. Please try again.');
+    } else {
+      // The claim is not sent back to the device, which still has it from the cart
+      newOrder = { ...mapDbOrder(data), taxExemption: state.taxExemption ?? undefined };
+      console.log('Order saved to database:', newOrder.id);
     }
 
-    set(state => ({
-      orders: [...state.orders, newOrder],
-      currentOrder: [],
-      cartItemQuantityTracker: {},
-      orderNumber: state.orderNumber + 1
-    }));
+    // Only commit local state once the database (or the outbox) has accepted the order
+    set(state => {
+      const promoUsage = { ...state.promoUsage };
+      appliedPromotions.forEach(({ promotion }) => {
+        promoUsage[promotion.id] = (promoUsage[promotion.id] || 0) + 1;
+      });
+      return {
+        orders: [newOrder, ...state.orders],
+        currentOrder: [],
+        unreservedItemIds: [],
+        promoCode: '',
+        promoUsage,
+        taxExemption: null,
+      };
+    });
 
     return newOrder;
   },
@@ -285,49 +581,339 @@ export const useOrderStore = create<OrderStore>((set, get) => ({
   },
 
   updateOrderStatus: async (orderId, status) => {
+    const order = get().orders.find(o => o.id === orderId);
+    // Payments are taken online only, so an order that is not paid cannot be completed, not even offline
+    if (status === 'completed' && order && order.status !== 'completed' && order.paymentStatus !== 'paid') {
+      throw new Error(`Order ${formatOrderNumber(order.orderNumber)} is not fully paid yet.`);
+    }
+    const payload: Record<string, unknown> = {
+      status,
+      // Logged in order_events with the time of the change, even when it syncs later
+      status_actor: getStatusActor(),
+      status_device: getStatusDevice(),
+      status_changed_at: new Date().toISOString(),
+    };
+    // Kept when the change has to be queued, in case this request reached the server after all
+    const requestId = crypto.randomUUID();
+
     set(state => ({
       orders: state.orders.map(order => 
         order.id === orderId 
-          ? { ...order, status, ...(status === 'completed' && { completedAt: new Date() }) }
+          ? {
+              ...order,
+              status,
+              // The database stamps the real times; these show until the next load
+              ...(status === 'preparing' && !order.preparingAt && { preparingAt: new Date() }),
+              ...(status === 'ready' && order.status !== 'ready' && { readyAt: new Date() }),
+              ...(status === 'completed' && { completedAt: new Date() }),
+            }
           : order
       )
     }));
 
-    // Update in database
-    try {
-      const updateData: any = { status };
-      if (status === 'completed') {
-        updateData.completed_at = new Date();
-      }
+    // Earlier changes are still waiting to sync, so this one has to queue behind them
+    if ((await getPendingMutations()).length > 0) {
+      await queueMutation(set, 'update_status', orderId, payload, order?.serverVersion, requestId);
+      return;
+    }
 
-      const { error } = await supabase
-        .from('orders')
-        .update(updateData)
-        .eq('id', orderId);
+    // Update in database
+    const { data, error, status: httpStatus } = await supabase.rpc('update_order_status', toStatusParams(orderId, payload, requestId));
 
-      if (error) throw error;
-      console.log(`Order ${orderId} updated to ${status} in database`);
-    } catch (error) {
+    if (isNetworkFailure(httpStatus)) {
+      await queueMutation(set, 'update_status', orderId, payload, order?.serverVersion, requestId);
+      return;
+    }
+    if (error || !data) {
+      // Rejected by the server: show what it has instead of the local change
       console.error('Error updating order status in database:', error);
+      await restoreServerOrder(set, orderId);
+      throw new Error(error?.message || 'Failed to update the order status. Please try again.');
     }
+
+    setServerVersion(set, orderId, data.updated_at);
+    console.log(`Order ${orderId} updated to ${status} in database`);
   },
 
   completeOrder: (orderId) => {
-    get().updateOrderStatus(orderId, 'completed');
+    get().updateOrderStatus(orderId, 'completed').catch((error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    });
   },
 
   deleteOrder: async (orderId) => {
+    const order = get().orders.find(o => o.id === orderId);
+
     set(state => ({
       orders: state.orders.filter(order => order.id !== orderId)
     }));
 
+    if ((await getPendingMutations()).length > 0) {
+      await queueMutation(set, 'delete_order', orderId, {}, order?.serverVersion);
+      return;
+    }
+
     // Delete from database
+    const { error, status } = await supabase.from('orders').delete().eq('id', orderId);
+    if (isNetworkFailure(status)) {
+      await queueMutation(set, 'delete_order', orderId, {}, order?.serverVersion);
+      return;
+    }
+    if (error) {
+      // Rejected by the server: the order is still there, so show it again
+      console.error('Error deleting order from database:', error);
+      await restoreServerOrder(set, orderId);
+      toast({ title: 'Error', description: `Order was not deleted: ${error.message}`, variant: 'destructive' });
+      return;
+    }
+    console.log('Order deleted from database:', orderId);
+  },
+
+  cancelOrder: async (orderId, status, reason, performedBy) => {
+    // Cancelling restores stock on the server, so it cannot be queued like other changes
+    if (get().pendingSyncOrderIds.includes(orderId)) {
+      throw new Error('This order has changes that are not synced yet. Try again once the connection is back.');
+    }
+
+    const { data, error, status: httpStatus } = await supabase.rpc('cancel_order', {
+      p_order_id: orderId,
+      p_status: status,
+      p_reason: reason,
+      p_performed_by: performedBy,
+      p_device: getStatusDevice(),
+      p_owner_token: getOrderOwnerToken(),
+    });
+
+    if (isNetworkFailure(httpStatus)) {
+      throw new Error('Orders cannot be cancelled while offline.');
+    }
+    if (error || !data) {
+      console.error('Error cancelling order:', error);
+      throw new Error(error?.message || 'Failed to cancel order. Please try again.');
+    }
+
+    const cancelledOrder = mapDbOrder(data);
+    set(state => ({
+      orders: state.orders.map(o => o.id === orderId ? cancelledOrder : o)
+    }));
+    console.log(`Order ${orderId} ${status} by ${performedBy}`);
+
+    return cancelledOrder;
+  },
+
+  updateDelivery: async (orderId, action, runner) => {
+    // Only one runner may hold an order, which the server decides
+    if (get().pendingSyncOrderIds.includes(orderId)) {
+      throw new Error('This order has changes that are not synced yet. Try again once the connection is back.');
+    }
+
+    const { data, error, status } = await supabase.rpc('update_delivery', {
+      p_order_id: orderId,
+      p_action: action,
+      p_runner: runner,
+      p_device: getStatusDevice(),
+    });
+
+    if (isNetworkFailure(status)) {
+      throw new Error('Deliveries cannot be updated while offline.');
+    }
+    if (error || !data) {
+      console.error('Error updating delivery:', error);
+      throw new Error(error?.message || 'Failed to update the delivery. Please try again.');
+    }
+
+    const updatedOrder = mapDbOrder(data);
+    set(state => ({
+      orders: state.orders.map(o => o.id === orderId ? updatedOrder : o)
+    }));
+    console.log(`Order ${orderId} delivery ${action} by ${runner}`);
+
+    return updatedOrder;
+  },
+
+  updateStationTicket: async (orderId, stationId, done, stationIds, itemIds) => {
+    // Whether the order is now ready depends on the other stations, so the server decides
+    if (get().pendingSyncOrderIds.includes(orderId)) {
+      throw new Error('This order has changes that are not synced yet. Try again once the connection is back.');
+    }
+
+    const { data, error, status } = await supabase.rpc('update_station_ticket', {
+      p_order_id: orderId,
+      p_station_id: stationId,
+      p_done: done,
+      p_stations: stationIds,
+      p_actor: getStatusActor(),
+      p_device: getStatusDevice(),
+      p_item_ids: itemIds,
+    });
+
+    if (isNetworkFailure(status)) {
+      throw new Error('Station tickets cannot be updated while offline.');
+    }
+    if (error || !data) {
+      console.error('Error updating station ticket:', error);
+      throw new Error(error?.message || 'Failed to update the station ticket. Please try again.');
+    }
+
+    const updatedOrder = mapDbOrder(data);
+    set(state => ({
+      orders: state.orders.map(o => o.id === orderId ? updatedOrder : o)
+    }));
+    console.log(`Order ${orderId} station ${stationId} ${done ? 'done' : 'reopened'}`);
+
+    return updatedOrder;
+  },
+
+  updateItemStatus: async (orderId, itemId, status, stationId) => {
+    // The order follows its items, so the server decides whether it is now ready
+    if (get().pendingSyncOrderIds.includes(orderId)) {
+      throw new Error('This order has changes that are not synced yet. Try again once the connection is back.');
+    }
+
+    const { data, error, status: httpStatus } = await supabase.rpc('update_item_status', {
+      p_order_id: orderId,
+      p_item_id: itemId,
+      p_status: status,
+      p_station_id: stationId ?? null,
+      p_actor: getStatusActor(),
+      p_device: getStatusDevice(),
+    });
+
+    if (isNetworkFailure(httpStatus)) {
+      throw new Error('Item status cannot be updated while offline.');
+    }
+    if (error || !data) {
+      console.error('Error updating item status:', error);
+      throw new Error(error?.message || 'Failed to update the item status. Please try again.');
+    }
+
+    const updatedOrder = mapDbOrder(data);
+    set(state => ({
+      orders: state.orders.map(o => o.id === orderId ? updatedOrder : o)
+    }));
+    console.log(`Order ${orderId} item ${itemId} ${status}`);
+
+    return updatedOrder;
+  },
+
+  recordPayment: async (orderId, payment) => {
+    // Like cancelling, payments change money on the server and are never queued offline
+    if (get().pendingSyncOrderIds.includes(orderId)) {
+      throw new Error('This order has changes that are not synced yet. Try again once the connection is back.');
+    }
+
+    const { data, error, status } = await supabase.rpc('record_payment', {
+      p_order_id: orderId,
+      p_method: payment.method,
+      p_amount: payment.amount,
+      p_amount_tendered: payment.method === 'cash' ? payment.amountTendered : null,
+      p_reference: payment.method === 'cash' ? null : payment.reference?.trim(),
+      p_received_by: payment.receivedBy,
+      p_payer: payment.payer?.trim() || null,
+      p_item_ids: payment.itemIds || [],
+    });
+
+    if (isNetworkFailure(status)) {
+      throw new Error('Payments cannot be recorded while offline.');
+    }
+    if (error || !data) {
+      console.error('Error recording payment:', error);
+      throw new Error(error?.message || 'Failed to record payment. Please try again.');
+    }
+
+    const paidOrder = mapDbOrder(data);
+    set(state => ({
+      orders: state.orders.map(o => o.id === orderId ? paidOrder : o)
+    }));
+    console.log(`Payment of ${payment.amount} recorded for order ${orderId} (${payment.method})`);
+
+    return paidOrder;
+  },
+
+  recordBillPayment: async (orderIds, payment) => {
+    if (orderIds.some(id => get().pendingSyncOrderIds.includes(id))) {
+      throw new Error('Some of these orders have changes that are not synced yet. Try again once the connection is back.');
+    }
+
+    const { data, error, status } = await supabase.rpc('record_bill_payment', {
+      p_order_ids: orderIds,
+      p_method: payment.method,
+      p_amount_tendered: payment.method === 'cash' ? payment.amountTendered : null,
+      p_reference: payment.method === 'cash' ? null : payment.reference?.trim(),
+      p_received_by: payment.receivedBy,
+      p_payer: payment.payer?.trim() || null,
+    });
+
+    if (isNetworkFailure(status)) {
+      throw new Error('Payments cannot be recorded while offline.');
+    }
+    if (error || !data) {
+      console.error('Error recording bill payment:', error);
+      throw new Error(error?.message || 'Failed to record payment. Please try again.');
+    }
+
+    const paidOrders: Order[] = data.map(mapDbOrder);
+    set(state => ({
+      orders: state.orders.map(o => paidOrders.find(paid => paid.id === o.id) || o)
+    }));
+    console.log(`Merged bill paid for ${paidOrders.length} orders (${payment.method})`);
+
+    return paidOrders;
+  },
+
+  syncOutbox: async () => {
+    if (get().isSyncing) return;
+    set({ isSyncing: true });
+
     try {
-      const { error } = await supabase.from('orders').delete().eq('id', orderId);
-      if (error) throw error;
-      console.log('Order deleted from database:', orderId);
+      // Re-read the head of the queue every time: replaying a mutation can rebase the ones behind it
+      for (;;) {
+        const [mutation] = await getPendingMutations();
+        if (!mutation) break;
+
+        const result = await replayMutation(mutation);
+        if (result.kind === 'offline') break;
+
+        await removeMutation(mutation.seq as number);
+
+        if (result.order) {
+          const serverOrder = result.order;
+          // Later queued changes now apply to the real id and the new server version
+          await rebaseMutations(mutation.orderId, { orderId: serverOrder.id, baseVersion: serverOrder.serverVersion });
+          const stillPending = (await getPendingMutations()).some(m => m.orderId === serverOrder.id);
+
+          set(state => ({
+            orders: state.orders.some(o => o.id === mutation.orderId)
+              ? state.orders.map(o => {
+                  if (o.id !== mutation.orderId) return o;
+                  // Keep showing the local changes that have not been replayed yet
+                  return stillPending
+                    ? { ...o, id: serverOrder.id, orderNumber: serverOrder.orderNumber, businessDate: serverOrder.businessDate, serverVersion: serverOrder.serverVersion }
+                    : serverOrder;
+                })
+              : [serverOrder, ...state.orders]
+          }));
+        } else if (result.removed) {
+          // Nothing left to apply the rest of this order's changes to
+          const orphaned = (await getPendingMutations()).filter(m => m.orderId === mutation.orderId);
+          for (const m of orphaned) {
+            await removeMutation(m.seq as number);
+          }
+          set(state => ({
+            orders: state.orders.filter(o => o.id !== mutation.orderId)
+          }));
+        }
+
+        if (result.kind === 'conflict') {
+          console.warn('Outbox conflict:', result.message);
+          toast({ title: 'Order sync conflict', description: result.message, variant: 'destructive' });
+        }
+      }
     } catch (error) {
-      console.error('Error deleting order from database:', error);
+      console.error('Error syncing order outbox:', error);
+    } finally {
+      await refreshPendingSync(set);
+      set({ isSyncing: false });
     }
   },
 
@@ -336,46 +922,22 @@ export const useOrderStore = create<OrderStore>((set, get) => ({
     try {
       const { data, error } = await supabase
         .from('orders')
-        .select(`
-          *,
-          order_items (*)
-        `)
+        .select(ORDER_WITH_ITEMS)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
       // Convert database orders to match Order type
       if (data) {
-        const convertedOrders: Order[] = data.map((dbOrder: any) => {
-          // Convert order_items to OrderItem format
-          const items: OrderItem[] = (dbOrder.order_items || []).map((item: any) => ({
-            id: item.id,
-            name: item.menu_item_name,
-            menuItem: {
-              id: item.menu_item_id,
-              name: item.menu_item_name,
-              description: '',
-              price: parseFloat(item.price),
-              category: '',
-              available: true,
-            } as MenuItem,
-            quantity: item.quantity,
-            customizations: item.customizations || [],
-            notes: item.notes,
-          }));
+        const serverOrders: Order[] = data.map(mapDbOrder);
 
-          return {
-            id: dbOrder.id,
-            orderNumber: dbOrder.order_number,
-            items,
-            total: parseFloat(dbOrder.total),
-            status: dbOrder.status,
-            customerName: dbOrder.customer_name,
-            createdAt: new Date(dbOrder.created_at),
-            completedAt: dbOrder.completed_at ? new Date(dbOrder.completed_at) : undefined,
-            terminal: dbOrder.terminal,
-          } as Order;
-        });
+        // Orders with unsynced changes keep their local version until the outbox has replayed them
+        const { orders, pendingSyncOrderIds } = get();
+        const localPending = orders.filter(order => pendingSyncOrderIds.includes(order.id));
+        const convertedOrders = [
+          ...localPending.filter(order => !serverOrders.some(o => o.id === order.id)),
+          ...serverOrders.map(order => localPending.find(o => o.id === order.id) || order),
+        ];
 
         set({ 
           orders: convertedOrders,
@@ -389,6 +951,56 @@ export const useOrderStore = create<OrderStore>((set, get) => ({
     }
   },
 
+  loadLiveOrders: async () => {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_WITH_ITEMS)
+        .or(`created_at.gte.${startOfToday.toISOString()},status.in.(${OPEN_STATUSES.join(',')})`)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const serverOrders: Order[] = (data || []).map(mapDbOrder);
+      mergeServerOrders(set, serverOrders);
+
+      // Older orders shown as open here were closed since; fetch just those
+      const staleIds = get().orders
+        .filter(order =>
+          OPEN_STATUSES.includes(order.status) &&
+          !order.id.startsWith('local-') &&
+          !serverOrders.some(o => o.id === order.id)
+        )
+        .map(order => order.id);
+      if (staleIds.length > 0) {
+        await get().loadOrdersById(staleIds);
+      }
+    } catch (error) {
+      console.error('Error loading live orders from database:', error);
+    }
+  },
+
+  loadOrdersById: async (orderIds) => {
+    // Orders saved offline have no server copy yet
+    const ids = orderIds.filter(id => !id.startsWith('local-'));
+    if (ids.length === 0) return;
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_WITH_ITEMS)
+        .in('id', ids);
+
+      if (error) throw error;
+
+      const serverOrders: Order[] = (data || []).map(mapDbOrder);
+      mergeServerOrders(set, serverOrders, ids.filter(id => !serverOrders.some(o => o.id === id)));
+    } catch (error) {
+      console.error('Error loading orders from database:', error);
+    }
+  },
+
   loadMenuItemsFromDatabase: async () => {
     try {
       const { data, error } = await supabase
@@ -444,6 +1056,74 @@ export const useOrderStore = create<OrderStore>((set, get) => ({
     }
   },
 
+  loadPromotionsFromDatabase: async () => {
+    try {
+      const [{ data: promotionRows, error }, { data: redemptionRows, error: redemptionError }] = await Promise.all([
+        supabase.from('promotions').select('*').eq('active', true),
+        // Uses on this device; cancelled orders give the promotion back
+        supabase
+          .from('promotion_redemptions')
+          .select('promotion_id, orders!inner (status)')
+          .eq('device_id', getPromotionDeviceId())
+          .not('orders.status', 'in', '(cancelled,voided)'),
+      ]);
+
+      if (error) throw error;
+      if (redemptionError) throw redemptionError;
+
+      const promoUsage: Record<string, number> = {};
+      (redemptionRows || []).forEach((row) => {
+        promoUsage[row.promotion_id] = (promoUsage[row.promotion_id] || 0) + 1;
+      });
+
+      set({ promotions: (promotionRows || []).map(fromPromotionRow), promoUsage });
+      console.log('Loaded', promotionRows?.length || 0, 'active promotions from database');
+    } catch (error) {
+      console.error('Error loading promotions from database:', error);
+    }
+  },
+
+  applyPromoCode: (code) => {
+    const { promotions, promoUsage, currentOrder, taxConfig } = get();
+    const promotion = promotions.find(p => p.code && normalizePromoCode(p.code) === normalizePromoCode(code));
+    if (!promotion) {
+      return 'Unknown promo code';
+    }
+
+    const problem = getPromotionProblem(promotion, currentOrder, promoUsage[promotion.id] || 0, new Date(), taxConfig.currencySymbol);
+    if (problem) return problem;
+
+    set({ promoCode: normalizePromoCode(code) });
+    return null;
+  },
+
+  clearPromoCode: () => {
+    set({ promoCode: '' });
+  },
+
+  loadTaxConfigFromDatabase: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', TAX_CONFIG_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      set({ taxConfig: parseTaxConfig(data?.value) });
+    } catch (error) {
+      console.error('Error loading tax configuration from database:', error);
+    }
+  },
+
+  setTaxConfig: (config) => {
+    set({ taxConfig: config });
+  },
+
+  setTaxExemption: (exemption) => {
+    set({ taxExemption: exemption });
+  },
+
   // Menu Actions
   addMenuItem: (item) => {
     const newItem: MenuItem = {
@@ -497,25 +1177,20 @@ export const useOrderStore = create<OrderStore>((set, get) => ({
 
   // Getters
   getCurrentOrderTotal: () => {
-    const { currentOrder } = get();
-    return currentOrder.reduce((total, item) => {
-      const basePrice = item.menuItem.price * item.quantity;
-      
-      // Calculate customization prices
-      const customizationPrice = item.customizations.reduce((customTotal, custom) => {
-        try {
-          if (typeof custom === 'string' && custom.startsWith('{')) {
-            const parsed = JSON.parse(custom);
-            return customTotal + (parsed.price || 0);
-          }
-        } catch (e) {
-          // If parsing fails, skip
-        }
-        return customTotal;
-      }, 0);
-      
-      return total + basePrice + (customizationPrice * item.quantity);
-    }, 0);
+    return get().getCurrentOrderPricing().total;
+  },
+
+  getAppliedPromotions: () => {
+    const { promotions, currentOrder, promoCode, promoUsage } = get();
+    return applyPromotions(promotions, currentOrder, { code: promoCode, usage: promoUsage });
+  },
+
+  getCurrentOrderPricing: () => {
+    const { currentOrder, taxConfig, taxExemption } = get();
+    return priceOrder(currentOrder, {
+      discounts: toPricingDiscounts(get().getAppliedPromotions()),
+      ...getTaxPricingOptions(taxConfig, taxExemption),
+    });
   },
 
   getOrdersByStatus: (status) => {
@@ -523,7 +1198,7 @@ export const useOrderStore = create<OrderStore>((set, get) => ({
   },
 
   getPendingOrders: () => {
-    return get().orders.filter(order => order.status !== 'completed');
+    return get().orders.filter(order => order.status !== 'completed' && !isCancelledStatus(order.status));
   },
 
   // Admin Actions
@@ -11,26 +11,170 @@ export interface MenuItem {
   quantity?: number;
 }
 
+export interface ModifierOption {
+  name: string;
+  price: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  minSelections: number;
+  maxSelections: number;
+  allowQuantity: boolean; // one option can be taken several times (e.g. 2x Cheese)
+  options: ModifierOption[];
+}
+
+export interface OrderItemModifier {
+  groupId: string;
+  groupName: string;
+  name: string;
+  price: number; // per unit of the modifier
+  quantity: number;
+}
+
 export interface OrderItem {
   name: any;
   id: string;
   menuItem: MenuItem;
   quantity: number;
-  customizations: string[];
-  flavors?: string[];
+  modifiers: OrderItemModifier[];
   notes?: string;
+  prepStatus?: ItemPrepStatus; // set by the kitchen once the order is placed; queued when missing
 }
 
+export type ItemPrepStatus = 'queued' | 'cooking' | 'done';
+
 export interface Order {
   id: string;
-  orderNumber: number;
+  orderNumber: number; // issued by the database, restarts every business day; 0 while an offline order is unsynced
+  businessDate?: string; // YYYY-MM-DD business day the order number belongs to
   items: OrderItem[];
-  total: number;
-  status: 'pending' | 'preparing' | 'ready' | 'completed';
+  total: number; // amount due: after promotion discounts, with service charge and VAT
+  discountTotal: number;
+  serviceCharge: number;
+  vatRate: number; // percent in force when the order was placed
+  taxInclusive: boolean;
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  exemptionDiscount: number; // senior citizen / PWD discount
+  taxExemption?: TaxExemption;
+  status: 'pending' | 'preparing' | 'ready' | 'out_for_delivery' | 'delivered' | 'completed' | 'cancelled' | 'voided';
   customerName?: string;
   createdAt: Date;
+  preparingAt?: Date; // the kitchen started it
+  readyAt?: Date; // last marked ready
+  deliveryClaimedBy?: string; // runner bringing it to the PC
+  outForDeliveryAt?: Date;
+  deliveredBy?: string;
+  deliveredAt?: Date;
   completedAt?: Date;
-  terminal: string;
+  stationsDone: Record<string, Date>; // kitchen station id -> when it finished its ticket
+  terminal: string; // PC number (or other terminal) shown on screens and printouts
+  pcId?: number; // the shop PC the order was placed for
+  cancelReason?: string;
+  cancelledBy?: string;
+  cancelledAt?: Date;
+  stockRestored?: boolean; // stock was given back when the order was cancelled/voided
+  clientRequestId?: string; // idempotency key of the submission that created it
+  serverVersion?: string; // raw `updated_at` of the last known database row, used to detect conflicts
+  payments: Payment[];
+  amountPaid: number;
+  paymentStatus: PaymentStatus;
+}
+
+export type TaxExemptionType = 'senior' | 'pwd';
+
+// Senior citizen / PWD claim on an order; group orders are split by diners
+export interface TaxExemption {
+  type: TaxExemptionType;
+  idNumber: string;
+  name: string;
+  diners: number;
+  exemptDiners: number;
+}
+
+// Shop-wide tax settings (app_settings `tax_config`)
+export interface TaxConfig {
+  currencySymbol: string;
+  vatRate: number; // percent, 0 when the shop is not VAT-registered
+  pricesIncludeVat: boolean;
+  serviceChargeRate: number; // percent
+  exemptionDiscountRate: number; // percent off exempt sales for senior citizens / PWD
+}
+
+export type PromotionType = 'percent' | 'fixed' | 'buy_x_get_y';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  code?: string; // entered in the cart; promotions without a code apply automatically
+  discountType: PromotionType;
+  value: number; // percent off, or the amount off
+  buyQuantity?: number;
+  getQuantity?: number;
+  category?: string; // only items of this category count
+  minSpend: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  maxUsesPerDevice?: number;
+  stackable: boolean;
+  active: boolean;
+}
+
+export type CancellationStatus = Extract<Order['status'], 'cancelled' | 'voided'>;
+
+// One status change of an order (`order_events`)
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  fromStatus?: Order['status']; // missing for the order being placed
+  toStatus: Order['status'];
+  changedBy?: string; // staff member, runner or customer; unknown for older orders
+  device?: string;
+  createdAt: Date;
+}
+
+// A runner claiming a ready order, handing it over at the PC, or giving it back
+export type DeliveryAction = 'claim' | 'deliver' | 'release';
+
+export type PaymentMethod = 'cash' | 'ewallet' | 'pc_account';
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid';
+
+export interface Payment {
+  id: string;
+  method: PaymentMethod;
+  amount: number; // applied to the order
+  amountTendered?: number; // cash handed over
+  changeGiven?: number;
+  reference?: string; // e-wallet reference number, or the PC account charged
+  receivedBy: string;
+  payer?: string; // who paid this part of a split bill
+  itemIds: string[]; // order items this part of a split bill covers
+  billId?: string; // merged bill the payment was part of
+  createdAt: Date;
+}
+
+export interface PaymentInput {
+  method: PaymentMethod;
+  amount: number;
+  amountTendered?: number;
+  reference?: string;
+  receivedBy: string;
+  payer?: string;
+  itemIds?: string[];
+}
+
+// Paying several orders together; the amount is always their combined balance
+export type BillPaymentInput = Omit<PaymentInput, 'amount' | 'itemIds'>;
+
+export interface StockShortage {
+  menuItemId: string;
+  name: string;
+  requested: number;
+  available: number;
 }
 
 export interface MenuCategory {